@@ -1,18 +1,67 @@
+import cron, { type ScheduledTask } from 'node-cron';
 import { createLogger } from '../utils/logger.js';
 import { eventBus } from '../core/events/EventBus.js';
+import { getConfig } from '../config/index.js';
 import type { AlertSource } from '../core/types/alerts.js';
 
 const logger = createLogger('BaseCollector');
 
+export type CollectorSchedule =
+  | { type: 'interval'; intervalMs: number }
+  | { type: 'cron'; expression: string; timezone?: string };
+
+export interface ScheduleOptions {
+  schedule: CollectorSchedule;
+  // Up to this much random delay before each scheduled run
+  jitterMs?: number;
+  // Runs taking longer are aborted and counted as errors
+  timeoutMs?: number;
+}
+
+// Scheduling settings a collector config block may carry
+export interface ScheduleConfig {
+  cron?: string;
+  cronTimezone?: string;
+  jitterMs?: number;
+  timeoutMs?: number;
+}
+
+// Build schedule options from a collector's config block. A cron expression
+// replaces the polling interval. Runs only time out when the block sets
+// timeoutMs: rate-limited runs often outlast their interval, and a timeout
+// counts towards the supervisor's consecutive error limit.
+export function collectorSchedule(intervalMs: number, config: ScheduleConfig = {}): ScheduleOptions {
+  if (config.cron) {
+    return {
+      schedule: { type: 'cron', expression: config.cron, timezone: config.cronTimezone },
+      jitterMs: config.jitterMs,
+      timeoutMs: config.timeoutMs,
+    };
+  }
+
+  return {
+    schedule: { type: 'interval', intervalMs },
+    jitterMs: config.jitterMs,
+    timeoutMs: config.timeoutMs,
+  };
+}
+
 export interface CollectorStatus {
   name: string;
   source: AlertSource;
   isRunning: boolean;
+  isCollecting: boolean;
+  schedule: string;
   lastCollectionAt?: Date;
   lastErrorAt?: Date;
   lastError?: string;
+  failedAt?: Date;
+  lastRunDurationMs?: number;
+  averageRunDurationMs?: number;
   totalCollections: number;
   totalErrors: number;
+  // Scheduled runs skipped because the previous one was still going
+  skippedRuns: number;
 }
 
 export abstract class BaseCollector {
@@ -21,21 +70,34 @@ export abstract class BaseCollector {
 
   protected isRunning = false;
   protected intervalId: NodeJS.Timeout | null = null;
+  protected cronTask: ScheduledTask | null = null;
   protected lastCollectionAt?: Date;
   protected lastErrorAt?: Date;
   protected lastError?: string;
+  protected failedAt?: Date;
   protected totalCollections = 0;
   protected totalErrors = 0;
-  protected pollingIntervalMs: number;
+  protected skippedRuns = 0;
+  protected lastRunDurationMs?: number;
+  protected totalRunDurationMs = 0;
+  protected totalRuns = 0;
+  protected scheduleOptions: ScheduleOptions;
   protected logger = logger;
 
-  constructor(pollingIntervalMs: number) {
-    this.pollingIntervalMs = pollingIntervalMs;
+  private inFlight: Promise<Error | undefined> | null = null;
+  private abortController: AbortController | null = null;
+  // Only a successful run resets this, not a restart, so a collector that is
+  // still broken fails again on its first error
+  private consecutiveErrors = 0;
+
+  constructor(schedule: number | ScheduleOptions) {
+    this.scheduleOptions = typeof schedule === 'number' ? collectorSchedule(schedule) : schedule;
     this.logger = createLogger(this.constructor.name);
   }
 
-  // Abstract method that subclasses must implement
-  protected abstract doCollect(): Promise<void>;
+  // Abstract method that subclasses must implement. The signal is aborted when
+  // the run times out or the collector stops.
+  protected abstract doCollect(signal: AbortSignal): Promise<void>;
 
   // Start the collector
   async start(): Promise<void> {
@@ -52,18 +114,29 @@ export abstract class BaseCollector {
     // Run initial collection
     await this.collect();
 
-    // Set up polling interval
-    this.intervalId = setInterval(async () => {
-      await this.collect();
-    }, this.pollingIntervalMs);
+    // A failed initial run may have stopped the collector
+    if (!this.isRunning) {
+      return;
+    }
+
+    const { schedule } = this.scheduleOptions;
+
+    if (schedule.type === 'cron') {
+      this.cronTask = cron.schedule(schedule.expression, () => this.runScheduled(), {
+        timezone: schedule.timezone,
+      });
+    } else {
+      this.intervalId = setInterval(() => this.runScheduled(), schedule.intervalMs);
+    }
 
-    this.logger.info(
-      `${this.name} collector started (polling every ${this.pollingIntervalMs / 1000}s)`
-    );
+    this.logger.info(`${this.name} collector started (${this.describeSchedule()})`);
   }
 
-  // Stop the collector
+  // Stop the collector. Stopping also clears a failure, so a stopped collector
+  // can be started again cleanly.
   stop(): void {
+    this.failedAt = undefined;
+
     if (!this.isRunning) {
       return;
     }
@@ -75,31 +148,149 @@ export abstract class BaseCollector {
       this.intervalId = null;
     }
 
+    if (this.cronTask) {
+      this.cronTask.stop();
+      this.cronTask = null;
+    }
+
+    this.abortController?.abort();
+
     eventBus.emit('collector:stopped', { name: this.name });
     this.logger.info(`${this.name} collector stopped`);
   }
 
-  // Perform a single collection cycle
-  async collect(): Promise<void> {
+  // Perform a single collection cycle. Only one runs at a time; calling this
+  // while a run is in progress waits for that run instead of starting another.
+  // Resolves to the run's error if it failed.
+  async collect(): Promise<Error | undefined> {
     if (!this.isRunning) {
+      return undefined;
+    }
+
+    if (!this.inFlight) {
+      this.inFlight = this.run().finally(() => {
+        this.inFlight = null;
+      });
+    }
+
+    return this.inFlight;
+  }
+
+  // Scheduler tick: skip while the previous run is still going, otherwise
+  // wait out the jitter and collect
+  private async runScheduled(): Promise<void> {
+    if (this.inFlight) {
+      this.skippedRuns++;
+      this.logger.warn(`${this.name} collection still in progress, skipping scheduled run`);
       return;
     }
 
+    const jitterMs = this.scheduleOptions.jitterMs ?? 0;
+    if (jitterMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * jitterMs));
+    }
+
+    await this.collect();
+  }
+
+  private async run(): Promise<Error | undefined> {
+    const controller = new AbortController();
+    this.abortController = controller;
+    const startedAt = Date.now();
+    const work = this.doCollect(controller.signal);
+    let runError: Error | undefined;
+
     try {
-      await this.doCollect();
+      await this.withTimeout(work, controller);
       this.lastCollectionAt = new Date();
       this.totalCollections++;
       this.lastError = undefined;
+      this.consecutiveErrors = 0;
     } catch (error) {
-      this.totalErrors++;
-      this.lastErrorAt = new Date();
-      this.lastError = error instanceof Error ? error.message : String(error);
+      runError = error instanceof Error ? error : new Error(String(error));
+      this.consecutiveErrors++;
+      eventBus.emit('collector:error', { name: this.name, error: runError });
 
-      const err = error instanceof Error ? error : new Error(String(error));
-      eventBus.emit('collector:error', { name: this.name, error: err });
+      if (this.reachedErrorLimit()) {
+        this.fail(
+          new Error(`${this.consecutiveErrors} collections failed in a row: ${runError.message}`)
+        );
+      } else {
+        this.totalErrors++;
+        this.lastErrorAt = new Date();
+        this.lastError = runError.message;
 
-      this.logger.error(`${this.name} collection failed:`, error);
+        this.logger.error(`${this.name} collection failed:`, error);
+      }
     }
+
+    // A timed-out run keeps going until doCollect returns. Stay in flight
+    // until then, so the next run never overlaps it.
+    await work.catch((error) => {
+      this.logger.debug(`${this.name} timed-out run ended with an error:`, error);
+    });
+
+    this.lastRunDurationMs = Date.now() - startedAt;
+    this.totalRunDurationMs += this.lastRunDurationMs;
+    this.totalRuns++;
+    this.abortController = null;
+
+    return runError;
+  }
+
+  // Collectors that keep failing are handed to the supervisor, unless it is
+  // disabled and stopping them would leave them down for good
+  private reachedErrorLimit(): boolean {
+    const { enabled, maxConsecutiveErrors } = getConfig().supervisor;
+    return enabled && maxConsecutiveErrors > 0 && this.consecutiveErrors >= maxConsecutiveErrors;
+  }
+
+  // Give up waiting on a run after timeoutMs and count it as an error. The
+  // run can't be cancelled from here; its signal is aborted so collectors
+  // that pass it on stop early.
+  private async withTimeout(run: Promise<void>, controller: AbortController): Promise<void> {
+    const { timeoutMs } = this.scheduleOptions;
+
+    if (!timeoutMs) {
+      return run;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Collection timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+    });
+
+    try {
+      await Promise.race([run, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Stop after an unrecoverable error and leave recovery to the supervisor
+  protected fail(error: Error): void {
+    this.stop();
+
+    this.totalErrors++;
+    this.failedAt = new Date();
+    this.lastErrorAt = this.failedAt;
+    this.lastError = error.message;
+
+    this.logger.error(`${this.name} collector failed:`, error);
+    eventBus.emit('collector:failed', { name: this.name, error });
+  }
+
+  private describeSchedule(): string {
+    const { schedule, jitterMs } = this.scheduleOptions;
+    const base =
+      schedule.type === 'cron'
+        ? `cron "${schedule.expression}"${schedule.timezone ? ` ${schedule.timezone}` : ''}`
+        : `polling every ${schedule.intervalMs / 1000}s`;
+
+    return jitterMs ? `${base}, up to ${Math.round(jitterMs / 1000)}s jitter` : base;
   }
 
   // Get collector status
@@ -108,11 +299,17 @@ export abstract class BaseCollector {
       name: this.name,
       source: this.source,
       isRunning: this.isRunning,
+      isCollecting: this.inFlight !== null,
+      schedule: this.describeSchedule(),
       lastCollectionAt: this.lastCollectionAt,
       lastErrorAt: this.lastErrorAt,
       lastError: this.lastError,
+      failedAt: this.failedAt,
+      lastRunDurationMs: this.lastRunDurationMs,
+      averageRunDurationMs: this.totalRuns > 0 ? this.totalRunDurationMs / this.totalRuns : undefined,
       totalCollections: this.totalCollections,
       totalErrors: this.totalErrors,
+      skippedRuns: this.skippedRuns,
     };
   }
 }
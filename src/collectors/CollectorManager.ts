@@ -1,55 +1,134 @@
+import { z } from 'zod';
 import { createLogger } from '../utils/logger.js';
 import { getConfig } from '../config/index.js';
-import { DefiLlamaCollector } from './defillama/DefiLlamaCollector.js';
-import { CoinGeckoCollector } from './coingecko/CoinGeckoCollector.js';
-import { TwitterCollector } from './twitter/TwitterCollector.js';
+import { eventBus } from '../core/events/EventBus.js';
+import { getSignalProcessor } from '../processors/SignalProcessor.js';
+import { collectorRegistry, type AnyCollectorPlugin } from './CollectorRegistry.js';
+import { CollectorSupervisor, type SupervisorStatus } from './CollectorSupervisor.js';
+import { defillamaCollectorPlugin } from './defillama/DefiLlamaCollector.js';
+import { defillamaYieldsCollectorPlugin } from './defillama/DefiLlamaYieldsCollector.js';
+import { defillamaStablecoinsCollectorPlugin } from './defillama/DefiLlamaStablecoinsCollector.js';
+import { defillamaFeesCollectorPlugin } from './defillama/DefiLlamaFeesCollector.js';
+import { defillamaVolumesCollectorPlugin } from './defillama/DefiLlamaVolumeCollector.js';
+import { defillamaBridgesCollectorPlugin } from './defillama/DefiLlamaBridgesCollector.js';
+import { defillamaHacksCollectorPlugin } from './defillama/DefiLlamaHacksCollector.js';
+import { unlocksCollectorPlugin } from './unlocks/TokenUnlockCollector.js';
+import { governanceCollectorPlugin } from './governance/GovernanceCollector.js';
+import { rssCollectorPlugin } from './rss/RssCollector.js';
+import { evmLogsCollectorPlugin } from './evm/EvmLogCollector.js';
+import { telegramChannelsCollectorPlugin } from './telegram/TelegramChannelCollector.js';
+import { coingeckoCollectorPlugin } from './coingecko/CoinGeckoCollector.js';
+import { coingeckoDiscoveryCollectorPlugin } from './coingecko/CoinGeckoDiscoveryCollector.js';
+import { githubCollectorPlugin } from './github/GithubCollector.js';
+import { twitterCollectorPlugin } from './twitter/TwitterCollector.js';
 import type { BaseCollector, CollectorStatus } from './BaseCollector.js';
 
 const logger = createLogger('CollectorManager');
 
+export type CollectorAction = 'start' | 'stop' | 'restart' | 'collect';
+
+export const COLLECTOR_ACTIONS: CollectorAction[] = ['start', 'stop', 'restart', 'collect'];
+
+const BUILTIN_PLUGINS: AnyCollectorPlugin[] = [
+  defillamaCollectorPlugin,
+  defillamaYieldsCollectorPlugin,
+  defillamaStablecoinsCollectorPlugin,
+  defillamaFeesCollectorPlugin,
+  defillamaVolumesCollectorPlugin,
+  defillamaBridgesCollectorPlugin,
+  defillamaHacksCollectorPlugin,
+  unlocksCollectorPlugin,
+  governanceCollectorPlugin,
+  rssCollectorPlugin,
+  evmLogsCollectorPlugin,
+  telegramChannelsCollectorPlugin,
+  coingeckoCollectorPlugin,
+  coingeckoDiscoveryCollectorPlugin,
+  githubCollectorPlugin,
+  twitterCollectorPlugin,
+];
+
 export class CollectorManager {
   private collectors: Map<string, BaseCollector> = new Map();
 
+  private initialized = false;
+  private supervisor = new CollectorSupervisor((name) => this.restartCollector(name, false));
+
   constructor() {
-    this.initializeCollectors();
+    // Failure events carry the collector's display name, not its config key
+    eventBus.on('collector:failed', ({ name, error }) => {
+      const key = Array.from(this.collectors.entries()).find(([, c]) => c.name === name)?.[0];
+      if (key) {
+        this.supervisor.onFailure(key, error);
+      }
+    });
   }
 
-  private initializeCollectors(): void {
+  // Register the built-in and configured plugin collectors, then create every
+  // collector that has an enabled block under `collectors` in the config
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+    this.initialized = true;
+
     const config = getConfig();
 
-    // Initialize DeFiLlama collector
-    if (config.collectors.defillama.enabled) {
-      this.collectors.set('defillama', new DefiLlamaCollector());
-      logger.info('DeFiLlama collector initialized');
+    for (const plugin of BUILTIN_PLUGINS) {
+      collectorRegistry.register(plugin);
     }
 
-    // Initialize CoinGecko collector
-    if (config.collectors.coingecko.enabled) {
-      this.collectors.set('coingecko', new CoinGeckoCollector());
-      logger.info('CoinGecko collector initialized');
-    }
+    await collectorRegistry.loadModules(config.plugins.collectors);
+
+    for (const [name, collectorConfig] of Object.entries(config.collectors)) {
+      const plugin = collectorRegistry.get(name);
+
+      if (!plugin) {
+        logger.warn(`No collector plugin registered for collectors.${name}, skipped`);
+        continue;
+      }
+
+      let collector: BaseCollector | null;
+
+      try {
+        collector = plugin.create(collectorConfig);
+      } catch (error) {
+        if (!(error instanceof z.ZodError)) {
+          throw error;
+        }
+        for (const issue of error.errors) {
+          logger.error(`Invalid config collectors.${name}.${issue.path.join('.')}: ${issue.message}`);
+        }
+        continue;
+      }
+
+      if (!collector) {
+        continue;
+      }
+
+      this.collectors.set(name, collector);
+
+      if (plugin.analyze) {
+        getSignalProcessor().registerAnalyzer(plugin.event, plugin.analyze);
+      }
 
-    // Initialize Twitter collector
-    if (config.collectors.twitter.enabled) {
-      this.collectors.set('twitter', new TwitterCollector());
-      logger.info('Twitter collector initialized');
+      logger.info(`${collector.name} collector initialized`);
     }
   }
 
   // Start all collectors
   async startAll(): Promise<void> {
+    await this.initialize();
+
     logger.info(`Starting ${this.collectors.size} collectors...`);
 
-    const startPromises = Array.from(this.collectors.entries()).map(
-      async ([name, collector]) => {
-        try {
-          await collector.start();
-          logger.info(`${name} collector started`);
-        } catch (error) {
-          logger.error(`Failed to start ${name} collector:`, error);
-        }
+    const startPromises = Array.from(this.collectors.keys()).map(async (name) => {
+      try {
+        await this.startCollector(name);
+      } catch {
+        // Already logged and handed to the supervisor
       }
-    );
+    });
 
     await Promise.all(startPromises);
     logger.info('All collectors started');
@@ -59,6 +138,8 @@ export class CollectorManager {
   stopAll(): void {
     logger.info('Stopping all collectors...');
 
+    this.supervisor.resetAll();
+
     for (const [name, collector] of this.collectors) {
       try {
         collector.stop();
@@ -71,11 +152,102 @@ export class CollectorManager {
     logger.info('All collectors stopped');
   }
 
+  // Start a collector. A failed start is handed to the supervisor.
+  async startCollector(name: string): Promise<void> {
+    const collector = this.requireCollector(name);
+
+    if (collector.getStatus().isRunning) {
+      return;
+    }
+
+    // Clears a previous failure
+    collector.stop();
+
+    try {
+      await collector.start();
+      logger.info(`${name} collector started`);
+    } catch (error) {
+      logger.error(`Failed to start ${name} collector:`, error);
+      this.supervisor.onFailure(name, error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  // Stop a collector. It stays stopped until started again; the supervisor
+  // only restarts collectors that failed.
+  stopCollector(name: string): void {
+    const collector = this.requireCollector(name);
+
+    this.supervisor.reset(name);
+    collector.stop();
+  }
+
+  // Restart a collector. Admin restarts start the backoff over; the
+  // supervisor's own restarts keep counting.
+  async restartCollector(name: string, resetBackoff = true): Promise<void> {
+    const collector = this.requireCollector(name);
+
+    if (resetBackoff) {
+      this.supervisor.reset(name);
+    }
+
+    collector.stop();
+    await this.startCollector(name);
+  }
+
+  // Run a collection cycle now instead of waiting for the next poll. Throws
+  // the run's error if it failed.
+  async collectNow(name: string): Promise<void> {
+    const collector = this.requireCollector(name);
+
+    if (!collector.getStatus().isRunning) {
+      throw new Error(`Collector ${name} is not running`);
+    }
+
+    const error = await collector.collect();
+    if (error) {
+      throw error;
+    }
+  }
+
+  async runAction(name: string, action: CollectorAction): Promise<void> {
+    switch (action) {
+      case 'start':
+        this.supervisor.reset(name);
+        return this.startCollector(name);
+      case 'stop':
+        return this.stopCollector(name);
+      case 'restart':
+        return this.restartCollector(name);
+      case 'collect':
+        return this.collectNow(name);
+    }
+  }
+
+  // Config keys of the initialized collectors
+  getCollectorNames(): string[] {
+    return Array.from(this.collectors.keys());
+  }
+
+  getSupervisorStatus(name: string): SupervisorStatus | undefined {
+    return this.supervisor.getStatus(name);
+  }
+
   // Get collector by name
   getCollector(name: string): BaseCollector | undefined {
     return this.collectors.get(name);
   }
 
+  private requireCollector(name: string): BaseCollector {
+    const collector = this.collectors.get(name);
+
+    if (!collector) {
+      throw new Error(`Unknown collector: ${name}`);
+    }
+
+    return collector;
+  }
+
   // Get status of all collectors
   getStatus(): CollectorStatus[] {
     return Array.from(this.collectors.values()).map((c) => c.getStatus());
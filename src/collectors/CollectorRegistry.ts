@@ -0,0 +1,125 @@
+import { isAbsolute, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { z } from 'zod';
+import { createLogger } from '../utils/logger.js';
+import type { BaseCollector } from './BaseCollector.js';
+import type { EventMap } from '../core/events/EventBus.js';
+import type { Alert } from '../core/types/alerts.js';
+
+const logger = createLogger('CollectorRegistry');
+
+// Settings every collector config block has
+export interface CollectorPluginConfig {
+  enabled: boolean;
+}
+
+// A collector and everything the manager needs to run it. Plugins shipped as
+// separate modules add their raw event type by augmenting EventMap.
+export interface CollectorPlugin<
+  TConfig extends CollectorPluginConfig = CollectorPluginConfig,
+  TEvent extends keyof EventMap = keyof EventMap,
+> {
+  // Key of the collector's block under `collectors` in config.yaml
+  name: string;
+  configSchema: z.ZodType<TConfig, z.ZodTypeDef, unknown>;
+  // Raw data event the collector emits
+  event: TEvent;
+  create(config: TConfig): BaseCollector;
+  // Turns the raw events into alerts. Built-in collectors are analyzed by
+  // SignalProcessor and leave this out.
+  analyze?(payload: EventMap[TEvent]): Alert[];
+}
+
+// A plugin with its config and payload types erased, as the registry holds
+// it. create() validates the raw config block with the plugin's own schema,
+// throws a ZodError when it doesn't match and returns null when disabled.
+export interface AnyCollectorPlugin {
+  name: string;
+  event: keyof EventMap;
+  create(config: unknown): BaseCollector | null;
+  analyze?(payload: unknown): Alert[];
+}
+
+// Typed helper so plugin modules get their config and payload types inferred
+export function defineCollector<TConfig extends CollectorPluginConfig, TEvent extends keyof EventMap>(
+  plugin: CollectorPlugin<TConfig, TEvent>
+): AnyCollectorPlugin {
+  const analyze = plugin.analyze?.bind(plugin);
+
+  return {
+    name: plugin.name,
+    event: plugin.event,
+    create: (config) => {
+      const parsed = plugin.configSchema.parse(config);
+      return parsed.enabled ? plugin.create(parsed) : null;
+    },
+    analyze: analyze && ((payload) => analyze(payload as EventMap[TEvent])),
+  };
+}
+
+export class CollectorRegistry {
+  private plugins: Map<string, AnyCollectorPlugin> = new Map();
+
+  register(plugin: AnyCollectorPlugin): void {
+    if (this.plugins.has(plugin.name)) {
+      throw new Error(`Collector plugin "${plugin.name}" is already registered`);
+    }
+
+    this.plugins.set(plugin.name, plugin);
+    logger.debug(`Registered collector plugin ${plugin.name} (${String(plugin.event)})`);
+  }
+
+  get(name: string): AnyCollectorPlugin | undefined {
+    return this.plugins.get(name);
+  }
+
+  list(): AnyCollectorPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  // Import plugin modules and register what they export. A module default
+  // exports one plugin or an array of them, made with defineCollector or not.
+  async loadModules(specifiers: string[]): Promise<void> {
+    for (const specifier of specifiers) {
+      const url =
+        specifier.startsWith('.') || isAbsolute(specifier)
+          ? pathToFileURL(resolve(specifier)).href
+          : specifier;
+
+      const module = await import(url);
+      const exported: unknown = module.default;
+      const plugins = Array.isArray(exported) ? exported : [exported];
+
+      for (const plugin of plugins) {
+        if (this.isDefinition(plugin)) {
+          this.register(defineCollector(plugin));
+        } else if (this.isPlugin(plugin)) {
+          this.register(plugin);
+        } else {
+          throw new Error(`Module ${specifier} does not export a collector plugin`);
+        }
+      }
+
+      logger.info(`Loaded ${plugins.length} collector plugins from ${specifier}`);
+    }
+  }
+
+  private isPlugin(value: unknown): value is AnyCollectorPlugin {
+    const plugin = value as Partial<AnyCollectorPlugin> | null;
+    return (
+      typeof plugin?.name === 'string' &&
+      typeof plugin.event === 'string' &&
+      typeof plugin.create === 'function'
+    );
+  }
+
+  // A plugin object exported as is, still carrying its config schema
+  private isDefinition(value: unknown): value is CollectorPlugin {
+    const plugin = value as Partial<CollectorPlugin> | null;
+    return this.isPlugin(value) && typeof plugin?.configSchema?.parse === 'function';
+  }
+}
+
+// Export singleton instance
+export const collectorRegistry = new CollectorRegistry();
+export default collectorRegistry;
@@ -0,0 +1,107 @@
+import { createLogger } from '../utils/logger.js';
+import { getConfig } from '../config/index.js';
+
+const logger = createLogger('CollectorSupervisor');
+
+interface RestartState {
+  attempts: number;
+  timer: NodeJS.Timeout | null;
+  nextRestartAt?: Date;
+  lastRestartAt?: number;
+}
+
+export interface SupervisorStatus {
+  attempts: number;
+  nextRestartAt?: Date;
+}
+
+export class CollectorSupervisor {
+  private states: Map<string, RestartState> = new Map();
+
+  constructor(private restart: (name: string) => Promise<void>) {}
+
+  // Schedule a restart of a failed collector, doubling the delay on every
+  // attempt until it stays up for stableAfterMs
+  onFailure(name: string, error: Error): void {
+    const config = getConfig();
+    const { enabled, initialBackoffMs, maxBackoffMs, stableAfterMs } = config.supervisor;
+
+    if (!enabled) {
+      logger.warn(`${name} failed and automatic restarts are disabled: ${error.message}`);
+      return;
+    }
+
+    const state = this.getState(name);
+
+    if (state.timer) {
+      return;
+    }
+
+    if (state.lastRestartAt !== undefined && Date.now() - state.lastRestartAt >= stableAfterMs) {
+      state.attempts = 0;
+    }
+
+    const delay = Math.min(initialBackoffMs * Math.pow(2, state.attempts), maxBackoffMs);
+    state.attempts++;
+    state.nextRestartAt = new Date(Date.now() + delay);
+
+    logger.warn(
+      `${name} failed (${error.message}), restarting in ${Math.round(delay / 1000)}s (attempt ${state.attempts})`
+    );
+
+    state.timer = setTimeout(async () => {
+      state.timer = null;
+      state.nextRestartAt = undefined;
+      state.lastRestartAt = Date.now();
+
+      try {
+        await this.restart(name);
+        logger.info(`${name} restarted`);
+      } catch (restartError) {
+        const err = restartError instanceof Error ? restartError : new Error(String(restartError));
+        this.onFailure(name, err);
+      }
+    }, delay);
+  }
+
+  // Forget the backoff and cancel a pending restart, e.g. when an admin takes
+  // over the collector
+  reset(name: string): void {
+    const state = this.states.get(name);
+
+    if (state?.timer) {
+      clearTimeout(state.timer);
+    }
+
+    this.states.delete(name);
+  }
+
+  resetAll(): void {
+    for (const name of Array.from(this.states.keys())) {
+      this.reset(name);
+    }
+  }
+
+  getStatus(name: string): SupervisorStatus | undefined {
+    const state = this.states.get(name);
+
+    if (!state) {
+      return undefined;
+    }
+
+    return { attempts: state.attempts, nextRestartAt: state.nextRestartAt };
+  }
+
+  private getState(name: string): RestartState {
+    let state = this.states.get(name);
+
+    if (!state) {
+      state = { attempts: 0, timer: null };
+      this.states.set(name, state);
+    }
+
+    return state;
+  }
+}
+
+export default CollectorSupervisor;
@@ -1,9 +1,12 @@
-import { BaseCollector } from '../BaseCollector.js';
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
 import { getCoingeckoClient } from '../../services/HttpClient.js';
 import { getRateLimiter } from '../../services/RateLimiter.js';
 import { eventBus } from '../../core/events/EventBus.js';
-import { database } from '../../storage/Database.js';
+import { tokenPriceRepository } from '../../storage/repositories/TokenPriceRepository.js';
+import { protocolRepository } from '../../storage/repositories/ProtocolRepository.js';
 import { getConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
 import { AlertSource } from '../../core/types/alerts.js';
 import type { RawPriceData, CoinGeckoToken } from '../../core/types/sources.js';
 
@@ -15,7 +18,7 @@ interface MarketDataResponse {
   image: string;
   current_price: number;
   market_cap: number;
-  market_cap_rank: number;
+  market_cap_rank: number | null;
   fully_diluted_valuation: number | null;
   total_volume: number;
   high_24h: number;
@@ -24,6 +27,8 @@ interface MarketDataResponse {
   price_change_percentage_24h: number;
   market_cap_change_24h: number;
   market_cap_change_percentage_24h: number;
+  // Only present when requested via price_change_percentage
+  price_change_percentage_1h_in_currency?: number | null;
   circulating_supply: number;
   total_supply: number | null;
   max_supply: number | null;
@@ -41,6 +46,9 @@ interface MarketDataResponse {
   last_updated: string;
 }
 
+// Max ids per /coins/markets request; one page of results covers them all
+const MARKETS_PAGE_SIZE = 100;
+
 export class CoinGeckoCollector extends BaseCollector {
   readonly name = 'CoinGecko';
   readonly source = AlertSource.COINGECKO;
@@ -50,13 +58,12 @@ export class CoinGeckoCollector extends BaseCollector {
 
   constructor() {
     const config = getConfig();
-    super(config.collectors.coingecko.pollingIntervalMs);
+    super(collectorSchedule(config.collectors.coingecko.pollingIntervalMs, config.collectors.coingecko));
     this.client = getCoingeckoClient(config.collectors.coingecko.apiKey);
   }
 
   protected async doCollect(): Promise<void> {
-    const config = getConfig();
-    const watchlistIds = config.collectors.coingecko.watchlistIds;
+    const watchlistIds = this.getWatchlist();
 
     if (watchlistIds.length === 0) {
       this.logger.debug('No tokens in watchlist, skipping collection');
@@ -75,6 +82,7 @@ export class CoinGeckoCollector extends BaseCollector {
       market_cap: t.market_cap,
       market_cap_rank: t.market_cap_rank,
       price_change_percentage_24h: t.price_change_percentage_24h,
+      price_change_percentage_1h: t.price_change_percentage_1h_in_currency ?? null,
       total_volume: t.total_volume,
       circulating_supply: t.circulating_supply,
       total_supply: t.total_supply,
@@ -82,7 +90,7 @@ export class CoinGeckoCollector extends BaseCollector {
 
     // Store token prices in database
     for (const token of tokens) {
-      this.storeTokenPrice(token);
+      tokenPriceRepository.upsert(token);
     }
 
     // Emit raw data event
@@ -97,7 +105,30 @@ export class CoinGeckoCollector extends BaseCollector {
     this.logger.info(`Collected price data for ${tokens.length} tokens`);
   }
 
+  // Configured ids plus, optionally, the tokens of protocols above the TVL floor
+  private getWatchlist(): string[] {
+    const config = getConfig();
+    const { watchlistIds, watchlistFromProtocols, watchlistMinTvlUsd } = config.collectors.coingecko;
+
+    if (!watchlistFromProtocols) {
+      return watchlistIds;
+    }
+
+    const protocolIds = protocolRepository.getCoingeckoIds(watchlistMinTvlUsd);
+    return [...new Set([...watchlistIds, ...protocolIds])];
+  }
+
   private async fetchMarketData(ids: string[]): Promise<MarketDataResponse[]> {
+    const results: MarketDataResponse[] = [];
+
+    for (let i = 0; i < ids.length; i += MARKETS_PAGE_SIZE) {
+      results.push(...(await this.fetchMarketPage(ids.slice(i, i + MARKETS_PAGE_SIZE))));
+    }
+
+    return results;
+  }
+
+  private async fetchMarketPage(ids: string[]): Promise<MarketDataResponse[]> {
     return this.rateLimiter.execute(async () => {
       const idsParam = ids.join(',');
       const data = await this.client.get<MarketDataResponse[]>(
@@ -107,39 +138,23 @@ export class CoinGeckoCollector extends BaseCollector {
             vs_currency: 'usd',
             ids: idsParam,
             order: 'market_cap_desc',
-            per_page: 100,
+            per_page: MARKETS_PAGE_SIZE,
             page: 1,
             sparkline: false,
+            price_change_percentage: '1h,24h',
           },
         }
       );
       return data;
     });
   }
-
-  private storeTokenPrice(token: CoinGeckoToken): void {
-    const stmt = database.prepare(`
-      INSERT INTO token_prices (coingecko_id, symbol, name, current_price, price_change_24h, market_cap, last_updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(coingecko_id) DO UPDATE SET
-        symbol = excluded.symbol,
-        name = excluded.name,
-        current_price = excluded.current_price,
-        price_change_24h = excluded.price_change_24h,
-        market_cap = excluded.market_cap,
-        last_updated_at = excluded.last_updated_at
-    `);
-
-    stmt.run(
-      token.id,
-      token.symbol,
-      token.name,
-      token.current_price,
-      token.price_change_percentage_24h,
-      token.market_cap,
-      Date.now()
-    );
-  }
 }
 
+export const coingeckoCollectorPlugin = defineCollector({
+  name: 'coingecko',
+  configSchema: collectorConfigSchemas.coingecko,
+  event: 'collector:price',
+  create: () => new CoinGeckoCollector(),
+});
+
 export default CoinGeckoCollector;
@@ -0,0 +1,194 @@
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { getCoingeckoClient } from '../../services/HttpClient.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { coinListingRepository } from '../../storage/repositories/CoinListingRepository.js';
+import { trendingCategoryRepository } from '../../storage/repositories/TrendingCategoryRepository.js';
+import { getConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type {
+  RawMarketDiscoveryData,
+  CoinGeckoTrendingCoin,
+  CoinGeckoTrendingCategory,
+  CoinGeckoListing,
+} from '../../core/types/sources.js';
+
+// CoinGecko API response types
+interface TrendingResponse {
+  coins: Array<{
+    item: {
+      id: string;
+      symbol: string;
+      name: string;
+      market_cap_rank: number | null;
+      score: number;
+      data?: {
+        price_change_percentage_24h?: Record<string, number>;
+      };
+    };
+  }>;
+  categories: Array<{
+    id: number;
+    name: string;
+    slug: string;
+    coins_count: number | string;
+    data?: {
+      market_cap?: number;
+      market_cap_change_percentage_24h?: Record<string, number>;
+    };
+  }>;
+}
+
+interface CoinListResponse {
+  id: string;
+  symbol: string;
+  name: string;
+  platforms?: Record<string, string | null>;
+}
+
+export class CoinGeckoDiscoveryCollector extends BaseCollector {
+  readonly name = 'CoinGecko Discovery';
+  readonly source = AlertSource.COINGECKO;
+
+  private client;
+  private rateLimiter = getRateLimiter('coingecko');
+
+  constructor() {
+    const config = getConfig();
+    super(collectorSchedule(config.collectors.coingeckoDiscovery.pollingIntervalMs, config.collectors.coingeckoDiscovery));
+    this.client = getCoingeckoClient(config.collectors.coingecko.apiKey);
+  }
+
+  protected async doCollect(): Promise<void> {
+    let trendingCoins: CoinGeckoTrendingCoin[] = [];
+    let trendingCategories: CoinGeckoTrendingCategory[] = [];
+    let newTrendingCategories: CoinGeckoTrendingCategory[] = [];
+    let newListings: CoinGeckoListing[] = [];
+    let lastError: unknown;
+    let failures = 0;
+
+    try {
+      ({ trendingCoins, trendingCategories } = await this.fetchTrending());
+
+      // The first poll establishes the trending baseline without alerting
+      const isBaseline = !trendingCategoryRepository.hasCategories();
+      const entered = trendingCategoryRepository.update(trendingCategories);
+      newTrendingCategories = isBaseline ? [] : entered;
+    } catch (error) {
+      failures++;
+      lastError = error;
+      this.logger.error('Failed to fetch trending coins and categories:', error);
+    }
+
+    try {
+      newListings = await this.collectNewListings();
+    } catch (error) {
+      failures++;
+      lastError = error;
+      this.logger.error('Failed to fetch coin list:', error);
+    }
+
+    if (failures === 2) {
+      throw lastError;
+    }
+
+    // Emit raw data event
+    const rawData: RawMarketDiscoveryData = {
+      source: 'COINGECKO',
+      timestamp: new Date(),
+      trendingCoins,
+      trendingCategories,
+      newTrendingCategories,
+      newListings,
+    };
+
+    eventBus.emit('collector:discovery', rawData);
+
+    this.logger.info(
+      `Collected ${trendingCoins.length} trending coins, ${trendingCategories.length} trending categories (${newTrendingCategories.length} new), ${newListings.length} new listings`
+    );
+  }
+
+  private async fetchTrending(): Promise<{
+    trendingCoins: CoinGeckoTrendingCoin[];
+    trendingCategories: CoinGeckoTrendingCategory[];
+  }> {
+    const data = await this.rateLimiter.execute(async () => {
+      return this.client.get<TrendingResponse>('/search/trending');
+    });
+
+    const trendingCoins = (data.coins || []).map(({ item }) => ({
+      id: item.id,
+      symbol: item.symbol,
+      name: item.name,
+      marketCapRank: item.market_cap_rank ?? null,
+      score: item.score,
+      priceChange24h: item.data?.price_change_percentage_24h?.['usd'],
+    }));
+
+    const trendingCategories = (data.categories || []).map((c, index) => ({
+      id: String(c.id),
+      name: c.name,
+      slug: c.slug,
+      coinsCount: Number(c.coins_count) || 0,
+      marketCap: c.data?.market_cap,
+      marketCapChange24h: c.data?.market_cap_change_percentage_24h?.['usd'],
+      position: index + 1,
+    }));
+
+    return { trendingCoins, trendingCategories };
+  }
+
+  // Diff the full coin list against every coin seen before. Only listings with
+  // a contract on a tracked platform are returned.
+  private async collectNewListings(): Promise<CoinGeckoListing[]> {
+    const config = getConfig();
+    const trackedPlatforms = new Set(config.collectors.coingeckoDiscovery.trackedPlatforms);
+
+    const data = await this.rateLimiter.execute(async () => {
+      return this.client.get<CoinListResponse[]>('/coins/list', {
+        params: { include_platform: true },
+      });
+    });
+
+    const listings: CoinGeckoListing[] = data.map((coin) => ({
+      id: coin.id,
+      symbol: coin.symbol,
+      name: coin.name,
+      platforms: Object.fromEntries(
+        Object.entries(coin.platforms || {}).filter(
+          (entry): entry is [string, string] => Boolean(entry[0] && entry[1])
+        )
+      ),
+    }));
+
+    // The first poll establishes the listing baseline without alerting
+    const isBaseline = !coinListingRepository.hasListings();
+    const fresh = coinListingRepository.insertNew(listings);
+
+    if (isBaseline) {
+      this.logger.info(`Baseline for coin list: ${fresh.length} coins`);
+      return [];
+    }
+
+    return fresh
+      .map((listing) => ({
+        ...listing,
+        platforms: Object.fromEntries(
+          Object.entries(listing.platforms).filter(([platform]) => trackedPlatforms.has(platform))
+        ),
+      }))
+      .filter((listing) => Object.keys(listing.platforms).length > 0);
+  }
+}
+
+export const coingeckoDiscoveryCollectorPlugin = defineCollector({
+  name: 'coingeckoDiscovery',
+  configSchema: collectorConfigSchemas.coingeckoDiscovery,
+  event: 'collector:discovery',
+  create: () => new CoinGeckoDiscoveryCollector(),
+});
+
+export default CoinGeckoDiscoveryCollector;
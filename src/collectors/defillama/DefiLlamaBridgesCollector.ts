@@ -0,0 +1,155 @@
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { getDefillamaBridgesClient } from '../../services/HttpClient.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { getConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type {
+  RawBridgeFlowData,
+  BridgeChainFlow,
+  BridgeFlow,
+  BridgeNetFlow,
+} from '../../core/types/sources.js';
+
+// DeFiLlama bridges API response types
+interface BridgesResponse {
+  bridges: Array<{
+    id: number;
+    name: string;
+    displayName?: string;
+    weeklyVolume?: number | null;
+    chains?: string[];
+  }>;
+}
+
+// Daily totals, oldest first. Dates are unix seconds at the start of the day.
+type BridgeVolumeResponse = Array<{
+  date: number | string;
+  depositUSD?: number | null;
+  withdrawUSD?: number | null;
+}>;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export class DefiLlamaBridgesCollector extends BaseCollector {
+  readonly name = 'DeFiLlama Bridges';
+  readonly source = AlertSource.DEFILLAMA;
+
+  private client;
+  // Shares the DeFiLlama request budget with the TVL collector
+  private rateLimiter = getRateLimiter('defillama');
+
+  constructor() {
+    const config = getConfig();
+    super(collectorSchedule(config.collectors.defillamaBridges.pollingIntervalMs, config.collectors.defillamaBridges));
+    this.client = getDefillamaBridgesClient(config.collectors.defillamaBridges.baseUrl);
+  }
+
+  protected async doCollect(): Promise<void> {
+    const config = getConfig();
+    const { chains: trackedChains, maxBridges } = config.collectors.defillamaBridges;
+
+    // Net flow per chain, across all bridges
+    const chains: BridgeChainFlow[] = [];
+    let failures = 0;
+
+    for (const chain of trackedChains) {
+      try {
+        chains.push({ chain, ...this.summarize(await this.fetchVolume(chain)) });
+      } catch (error) {
+        failures++;
+        this.logger.error(`Failed to fetch bridge flows for ${chain}:`, error);
+      }
+    }
+
+    if (trackedChains.length > 0 && failures === trackedChains.length) {
+      throw new Error('Failed to fetch bridge flows for every chain');
+    }
+
+    // The same for the largest bridges, to tell which ones carry the flow
+    const bridges: BridgeFlow[] = [];
+
+    if (maxBridges > 0) {
+      const response = await this.fetchBridges();
+      const largest = response.bridges
+        .sort((a, b) => (b.weeklyVolume ?? 0) - (a.weeklyVolume ?? 0))
+        .slice(0, maxBridges);
+
+      for (const bridge of largest) {
+        const bridgeName = bridge.displayName || bridge.name;
+
+        for (const chain of (bridge.chains ?? []).filter((c) => trackedChains.includes(c))) {
+          try {
+            const series = await this.fetchVolume(chain, bridge.id);
+            bridges.push({ bridgeId: bridge.id, bridgeName, chain, ...this.summarize(series) });
+          } catch (error) {
+            this.logger.warn(`Failed to fetch ${bridgeName} flows for ${chain}: ${error}`);
+          }
+        }
+      }
+    }
+
+    // Emit raw data event
+    const rawData: RawBridgeFlowData = {
+      source: 'DEFILLAMA',
+      timestamp: new Date(),
+      chains,
+      bridges,
+    };
+
+    eventBus.emit('collector:bridges', rawData);
+
+    this.logger.info(`Collected bridge flows for ${chains.length} chains, ${bridges.length} bridge routes`);
+  }
+
+  // Net flow over the last full day and the last 7 full days. Today's entry
+  // is still filling up and is left out.
+  private summarize(series: BridgeVolumeResponse): { flow24h: BridgeNetFlow; flow7d: BridgeNetFlow } {
+    const today = Math.floor(Date.now() / 1000 / DAY_SECONDS) * DAY_SECONDS;
+    const days = series
+      .filter((d) => Number(d.date) < today)
+      .sort((a, b) => Number(a.date) - Number(b.date));
+
+    return {
+      flow24h: this.netFlow(days.slice(-1)),
+      flow7d: this.netFlow(days.slice(-7)),
+    };
+  }
+
+  private netFlow(days: BridgeVolumeResponse): BridgeNetFlow {
+    const depositUsd = days.reduce((sum, d) => sum + (d.depositUSD ?? 0), 0);
+    const withdrawUsd = days.reduce((sum, d) => sum + (d.withdrawUSD ?? 0), 0);
+
+    return { depositUsd, withdrawUsd, netFlowUsd: withdrawUsd - depositUsd };
+  }
+
+  private async fetchBridges(): Promise<BridgesResponse> {
+    return this.rateLimiter.execute(async () => {
+      const data = await this.client.get<BridgesResponse>('/bridges', {
+        params: { includeChains: true },
+      });
+      return data;
+    });
+  }
+
+  private async fetchVolume(chain: string, bridgeId?: number): Promise<BridgeVolumeResponse> {
+    return this.rateLimiter.execute(async () => {
+      const data = await this.client.get<BridgeVolumeResponse>(
+        `/bridgevolume/${encodeURIComponent(chain)}`,
+        { params: bridgeId !== undefined ? { id: bridgeId } : undefined }
+      );
+      return data;
+    });
+  }
+}
+
+export const defillamaBridgesCollectorPlugin = defineCollector({
+  name: 'defillamaBridges',
+  configSchema: collectorConfigSchemas.defillamaBridges,
+  event: 'collector:bridges',
+  create: () => new DefiLlamaBridgesCollector(),
+});
+
+export default DefiLlamaBridgesCollector;
@@ -1,15 +1,26 @@
-import { BaseCollector } from '../BaseCollector.js';
-import { getDefillamaClient } from '../../services/HttpClient.js';
+import { createHash } from 'crypto';
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { getDefillamaClient, type CacheValidators } from '../../services/HttpClient.js';
 import { getRateLimiter } from '../../services/RateLimiter.js';
 import { eventBus } from '../../core/events/EventBus.js';
 import { protocolRepository } from '../../storage/repositories/ProtocolRepository.js';
+import { chainRepository } from '../../storage/repositories/ChainRepository.js';
+import { tvlBackfill } from './TvlBackfill.js';
 import { getConfig } from '../../config/index.js';
-import { AlertSource } from '../../core/types/alerts.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertCategory, AlertSource } from '../../core/types/alerts.js';
 import type {
   RawTVLData,
   DefiLlamaProtocol,
+  DefiLlamaProtocolChange,
   DefiLlamaChain,
 } from '../../core/types/sources.js';
+import type {
+  ProtocolMetadata,
+  ProtocolSyncState,
+  ProtocolTokenMapping,
+} from '../../core/types/protocols.js';
 
 // DeFiLlama API response types
 interface ProtocolsResponse {
@@ -52,103 +63,299 @@ interface ChainsResponse {
   chainId?: number;
 }
 
+// What the last stored response of an endpoint looked like
+interface EndpointCache {
+  validators: CacheValidators;
+  hash: string;
+}
+
 export class DefiLlamaCollector extends BaseCollector {
   readonly name = 'DeFiLlama';
   readonly source = AlertSource.DEFILLAMA;
 
   private client = getDefillamaClient();
   private rateLimiter = getRateLimiter('defillama');
+  private endpointCache: Map<string, EndpointCache> = new Map();
 
   constructor() {
     const config = getConfig();
-    super(config.collectors.defillama.pollingIntervalMs);
+    super(collectorSchedule(config.collectors.defillama.pollingIntervalMs, config.collectors.defillama));
   }
 
   protected async doCollect(): Promise<void> {
     const config = getConfig();
 
     // Fetch protocols and chains in parallel
-    const [protocols, chains] = await Promise.all([
+    const [protocolsResult, chainsResult] = await Promise.all([
       config.collectors.defillama.endpoints.protocols
-        ? this.fetchProtocols()
-        : Promise.resolve([]),
+        ? this.fetchIfChanged<ProtocolsResponse[]>('/protocols')
+        : Promise.resolve(null),
       config.collectors.defillama.endpoints.chains
-        ? this.fetchChains()
-        : Promise.resolve([]),
+        ? this.fetchIfChanged<ChainsResponse[]>('/v2/chains')
+        : Promise.resolve(null),
     ]);
 
-    // Transform to internal types
-    const transformedProtocols: DefiLlamaProtocol[] = protocols.map((p) => ({
-      id: p.id || p.slug,
-      name: p.name,
-      slug: p.slug,
-      tvl: p.tvl || 0,
-      chainTvls: p.chainTvls || {},
-      change_1h: p.change_1h,
-      change_1d: p.change_1d,
-      change_7d: p.change_7d,
-      category: p.category,
-      chains: p.chains,
-      twitter: p.twitter,
-      url: p.url,
-    }));
-
-    const transformedChains: DefiLlamaChain[] = chains.map((c) => ({
-      name: c.name,
-      tvl: c.tvl || 0,
-      tokenSymbol: c.tokenSymbol,
-    }));
+    if (!protocolsResult && !chainsResult) {
+      this.logger.info('Protocols and chains unchanged since the last poll');
+      return;
+    }
 
-    // Store protocol states for TVL tracking
-    const watchlist = config.collectors.defillama.watchlist;
+    const { changed: changedProtocols, protocolChanges } = protocolsResult
+      ? this.storeProtocols(protocolsResult.data)
+      : { changed: [], protocolChanges: [] };
+    const trackedChains = chainsResult ? this.storeChains(chainsResult.data) : [];
 
-    for (const protocol of transformedProtocols) {
-      // Skip if watchlist is set and protocol is not in it
-      if (watchlist.length > 0 && !watchlist.includes(protocol.slug)) {
-        continue;
-      }
-
-      // Skip protocols with very low TVL
-      if (protocol.tvl < 100000) {
-        continue;
+    // Only remember the payloads once they're stored, so a failed cycle retries
+    for (const result of [protocolsResult, chainsResult]) {
+      if (result) {
+        this.endpointCache.set(result.path, result.cache);
       }
+    }
 
-      protocolRepository.upsert(
-        protocol.slug,
-        protocol.name,
-        protocol.tvl,
-        protocol.chainTvls
-      );
+    if (changedProtocols.length === 0 && trackedChains.length === 0 && protocolChanges.length === 0) {
+      this.logger.info('No tracked protocol or chain changed');
+      return;
     }
 
     // Emit raw data event
     const rawData: RawTVLData = {
       source: 'DEFILLAMA',
       timestamp: new Date(),
-      protocols: transformedProtocols,
-      chains: transformedChains,
+      protocols: changedProtocols,
+      chains: trackedChains,
+      protocolChanges,
     };
 
     eventBus.emit('collector:tvl', rawData);
 
     this.logger.info(
-      `Collected ${protocols.length} protocols, ${chains.length} chains`
+      `Collected ${changedProtocols.length} changed protocols, ${trackedChains.length} chains, ${protocolChanges.length} listing changes`
     );
   }
 
-  private async fetchProtocols(): Promise<ProtocolsResponse[]> {
-    return this.rateLimiter.execute(async () => {
-      const data = await this.client.get<ProtocolsResponse[]>('/protocols');
-      return data;
-    });
+  // Store tracked protocols whose TVL or metadata changed. Returns the ones
+  // whose TVL changed, and the structural changes found in the metadata.
+  private storeProtocols(protocols: ProtocolsResponse[]): {
+    changed: DefiLlamaProtocol[];
+    protocolChanges: DefiLlamaProtocolChange[];
+  } {
+    const config = getConfig();
+    const watchlist = config.collectors.defillama.watchlist;
+    const stored = protocolRepository.getSyncStates();
+    // Nothing stored yet: take the first snapshot without alerting
+    const isBaseline = stored.size === 0;
+
+    const changed: DefiLlamaProtocol[] = [];
+    const tokenMappings: ProtocolTokenMapping[] = [];
+    const metadata: ProtocolMetadata[] = [];
+    const protocolChanges: DefiLlamaProtocolChange[] = [];
+
+    for (const p of protocols) {
+      // Skip if watchlist is set and protocol is not in it
+      if (watchlist.length > 0 && !watchlist.includes(p.slug)) {
+        continue;
+      }
+
+      // Skip protocols with very low TVL
+      if ((p.tvl || 0) < 100000) {
+        continue;
+      }
+
+      const protocol = this.toProtocol(p);
+      const state = stored.get(protocol.slug);
+
+      if (
+        !state ||
+        state.lastTvl !== protocol.tvl ||
+        state.lastTvlByChain !== JSON.stringify(protocol.chainTvls)
+      ) {
+        changed.push(protocol);
+      }
+
+      const chains = [...new Set(protocol.chains ?? [])].sort();
+      if (
+        !state?.chains ||
+        state.category !== protocol.category ||
+        JSON.stringify(state.chains) !== JSON.stringify(chains)
+      ) {
+        const changes = isBaseline ? [] : this.diffMetadata(protocol, chains, state);
+
+        // Changes worth an alert leave the snapshot alone; it moves on as
+        // each alert goes out, so one held back is detected again next poll
+        if (changes.length > 0) {
+          protocolChanges.push(...changes);
+        } else {
+          metadata.push({
+            slug: protocol.slug,
+            category: protocol.category,
+            chains,
+            listedAt: protocol.listedAt ? new Date(protocol.listedAt * 1000) : undefined,
+          });
+        }
+      }
+
+      if (
+        (protocol.gecko_id && protocol.gecko_id !== state?.coingeckoId) ||
+        (protocol.symbol && protocol.symbol !== state?.tokenSymbol) ||
+        (protocol.address && protocol.address !== state?.tokenAddress)
+      ) {
+        tokenMappings.push({
+          slug: protocol.slug,
+          coingeckoId: protocol.gecko_id,
+          tokenSymbol: protocol.symbol,
+          tokenAddress: protocol.address,
+        });
+      }
+    }
+
+    protocolRepository.upsertMany(changed);
+
+    if (config.collectors.defillama.backfillHistory) {
+      this.backfillNewProtocols(changed.filter((p) => !stored.has(p.slug)));
+    }
+
+    if (tokenMappings.length > 0) {
+      protocolRepository.updateTokenMappings(tokenMappings);
+    }
+
+    if (metadata.length > 0) {
+      protocolRepository.updateMetadata(metadata);
+    }
+
+    return { changed, protocolChanges };
+  }
+
+  // Queue history backfill for first-seen protocols large enough to get TVL
+  // change alerts, largest first
+  private backfillNewProtocols(protocols: DefiLlamaProtocol[]): void {
+    const config = getConfig();
+    const minTvlUsd =
+      config.alerts.categories[AlertCategory.TVL_CHANGE].thresholds['minTvlUsd'] || 1000000;
+
+    const slugs = protocols
+      .filter((p) => p.tvl >= minTvlUsd)
+      .sort((a, b) => b.tvl - a.tvl)
+      .map((p) => p.slug);
+
+    if (slugs.length > 0) {
+      tvlBackfill.enqueue(slugs);
+    }
+  }
+
+  // Compare a protocol's listing with its stored snapshot. A protocol without
+  // a snapshot is a listing candidate; the analyzer only alerts on recently
+  // listed ones, so protocols stored before snapshots were kept just get
+  // their first one taken.
+  private diffMetadata(
+    protocol: DefiLlamaProtocol,
+    chains: string[],
+    state: ProtocolSyncState | undefined
+  ): DefiLlamaProtocolChange[] {
+    const previousChains = state?.chains;
+    if (!state || !previousChains) {
+      return [{ type: 'NEW_LISTING', protocol }];
+    }
+
+    const changes: DefiLlamaProtocolChange[] = [];
+
+    const newChains = chains.filter((chain) => !previousChains.includes(chain));
+    if (newChains.length > 0) {
+      changes.push({ type: 'NEW_CHAINS', protocol, newChains });
+    }
+
+    // A category appearing where there was none isn't a pivot
+    if (state.category && protocol.category && state.category !== protocol.category) {
+      changes.push({ type: 'CATEGORY_CHANGE', protocol, previousCategory: state.category });
+    }
+
+    return changes;
+  }
+
+  // Store tracked chains and return them
+  private storeChains(chains: ChainsResponse[]): DefiLlamaChain[] {
+    const config = getConfig();
+    const chainWatchlist = config.collectors.defillama.chainWatchlist;
+
+    const trackedChains: DefiLlamaChain[] = chains
+      .map((c) => ({
+        name: c.name,
+        tvl: c.tvl || 0,
+        tokenSymbol: c.tokenSymbol,
+      }))
+      .filter(
+        (chain) =>
+          (chainWatchlist.length === 0 || chainWatchlist.includes(chain.name)) &&
+          chain.tvl >= 100000
+      );
+
+    chainRepository.upsertMany(trackedChains);
+
+    return trackedChains;
   }
 
-  private async fetchChains(): Promise<ChainsResponse[]> {
-    return this.rateLimiter.execute(async () => {
-      const data = await this.client.get<ChainsResponse[]>('/v2/chains');
-      return data;
+  private toProtocol(p: ProtocolsResponse): DefiLlamaProtocol {
+    return {
+      id: p.id || p.slug,
+      name: p.name,
+      slug: p.slug,
+      tvl: p.tvl || 0,
+      chainTvls: p.chainTvls || {},
+      change_1h: p.change_1h,
+      change_1d: p.change_1d,
+      change_7d: p.change_7d,
+      category: p.category,
+      chains: p.chains,
+      twitter: p.twitter,
+      url: p.url,
+      gecko_id: p.gecko_id || undefined,
+      // DeFiLlama uses '-' for protocols without a token
+      symbol: p.symbol && p.symbol !== '-' ? p.symbol : undefined,
+      address: p.address || undefined,
+      listedAt: p.listedAt,
+    };
+  }
+
+  // Fetch an endpoint unless it is unchanged since the last stored poll, going
+  // by the server's ETag/Last-Modified where supported and a hash of the body
+  // otherwise. The cache entry is returned for the caller to commit.
+  private async fetchIfChanged<T>(
+    path: string
+  ): Promise<{ path: string; data: T; cache: EndpointCache } | null> {
+    const cached = this.endpointCache.get(path);
+
+    const response = await this.rateLimiter.execute(async () => {
+      return this.client.getConditional<string>(path, cached?.validators, {
+        responseType: 'text',
+      });
     });
+
+    if (response.notModified || response.data === undefined) {
+      this.logger.debug(`${path} not modified`);
+      return null;
+    }
+
+    const hash = createHash('sha256').update(response.data).digest('hex');
+
+    if (cached?.hash === hash) {
+      // Keep the fresh validators so the next request can be conditional
+      this.endpointCache.set(path, { ...cached, validators: response.validators });
+      this.logger.debug(`${path} unchanged`);
+      return null;
+    }
+
+    return {
+      path,
+      data: JSON.parse(response.data) as T,
+      cache: { validators: response.validators, hash },
+    };
   }
 }
 
+export const defillamaCollectorPlugin = defineCollector({
+  name: 'defillama',
+  configSchema: collectorConfigSchemas.defillama,
+  event: 'collector:tvl',
+  create: () => new DefiLlamaCollector(),
+});
+
 export default DefiLlamaCollector;
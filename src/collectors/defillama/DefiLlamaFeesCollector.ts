@@ -0,0 +1,107 @@
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { getDefillamaClient } from '../../services/HttpClient.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { feesRepository } from '../../storage/repositories/FeesRepository.js';
+import { getConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type { RawFeesData, DefiLlamaProtocolFees } from '../../core/types/sources.js';
+
+// DeFiLlama fees overview response. The same shape is returned for fees and
+// revenue, depending on the requested data type.
+interface FeesOverviewResponse {
+  protocols: Array<{
+    name: string;
+    displayName?: string;
+    slug: string;
+    category?: string;
+    chains?: string[];
+    total24h?: number | null;
+  }>;
+}
+
+export class DefiLlamaFeesCollector extends BaseCollector {
+  readonly name = 'DeFiLlama Fees';
+  readonly source = AlertSource.DEFILLAMA;
+
+  private client = getDefillamaClient();
+  // Shares the DeFiLlama request budget with the TVL collector
+  private rateLimiter = getRateLimiter('defillama');
+
+  constructor() {
+    const config = getConfig();
+    super(collectorSchedule(config.collectors.defillamaFees.pollingIntervalMs, config.collectors.defillamaFees));
+  }
+
+  protected async doCollect(): Promise<void> {
+    const config = getConfig();
+    const { minFeesUsd, watchlist } = config.collectors.defillamaFees;
+
+    const [fees, revenue] = await Promise.all([
+      this.fetchOverview('dailyFees'),
+      this.fetchOverview('dailyRevenue'),
+    ]);
+
+    const revenueBySlug = new Map(
+      revenue.protocols
+        .filter((p) => typeof p.total24h === 'number')
+        .map((p) => [p.slug, p.total24h as number])
+    );
+
+    // Rank across everything DeFiLlama lists, before any filtering
+    const ranked = fees.protocols
+      .filter((p) => typeof p.total24h === 'number' && p.total24h > 0)
+      .sort((a, b) => (b.total24h ?? 0) - (a.total24h ?? 0));
+
+    const protocols: DefiLlamaProtocolFees[] = ranked
+      .map((p, index) => ({
+        slug: p.slug,
+        name: p.displayName || p.name,
+        category: p.category,
+        chains: p.chains ?? [],
+        fees24h: p.total24h ?? 0,
+        revenue24h: revenueBySlug.get(p.slug),
+        feesRank: index + 1,
+      }))
+      .filter((p) => watchlist.length === 0 || watchlist.includes(p.slug))
+      .filter((p) => p.fees24h >= minFeesUsd);
+
+    // Store daily figures for trailing averages and rank changes
+    feesRepository.upsertMany(protocols);
+
+    // Emit raw data event
+    const rawData: RawFeesData = {
+      source: 'DEFILLAMA',
+      timestamp: new Date(),
+      protocols,
+    };
+
+    eventBus.emit('collector:fees', rawData);
+
+    this.logger.info(`Collected fees for ${protocols.length} protocols`);
+  }
+
+  private async fetchOverview(dataType: 'dailyFees' | 'dailyRevenue'): Promise<FeesOverviewResponse> {
+    return this.rateLimiter.execute(async () => {
+      const data = await this.client.get<FeesOverviewResponse>('/overview/fees', {
+        params: {
+          excludeTotalDataChart: true,
+          excludeTotalDataChartBreakdown: true,
+          dataType,
+        },
+      });
+      return data;
+    });
+  }
+}
+
+export const defillamaFeesCollectorPlugin = defineCollector({
+  name: 'defillamaFees',
+  configSchema: collectorConfigSchemas.defillamaFees,
+  event: 'collector:fees',
+  create: () => new DefiLlamaFeesCollector(),
+});
+
+export default DefiLlamaFeesCollector;
@@ -0,0 +1,111 @@
+import { createHash } from 'crypto';
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { getDefillamaClient } from '../../services/HttpClient.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { protocolRepository } from '../../storage/repositories/ProtocolRepository.js';
+import { securityIncidentRepository } from '../../storage/repositories/SecurityIncidentRepository.js';
+import { getConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type { RawHackData, DefiLlamaHack } from '../../core/types/sources.js';
+
+// DeFiLlama hacks API response types
+interface HacksResponse {
+  date: number; // Unix seconds
+  name: string;
+  classification?: string;
+  technique?: string;
+  amount?: number | null;
+  chain?: string[] | null;
+  bridgeHack?: boolean;
+  targetType?: string;
+  source?: string;
+  returnedFunds?: number | null;
+  defillamaId?: number | string | null;
+  parentProtocolId?: string | null;
+}
+
+export class DefiLlamaHacksCollector extends BaseCollector {
+  readonly name = 'DeFiLlama Hacks';
+  readonly source = AlertSource.DEFILLAMA;
+
+  private client = getDefillamaClient();
+  private rateLimiter = getRateLimiter('defillama');
+
+  constructor() {
+    const config = getConfig();
+    super(collectorSchedule(config.collectors.defillamaHacks.pollingIntervalMs, config.collectors.defillamaHacks));
+  }
+
+  protected async doCollect(): Promise<void> {
+    const hacks = await this.fetchHacks();
+
+    // Transform to internal types
+    const incidents: DefiLlamaHack[] = hacks.map((h) => ({
+      id: this.incidentId(h),
+      name: h.name,
+      date: new Date(h.date * 1000),
+      amount: h.amount ?? null,
+      chains: h.chain || [],
+      classification: h.classification,
+      technique: h.technique,
+      targetType: h.targetType,
+      bridgeHack: h.bridgeHack || false,
+      sourceUrl: h.source,
+      defillamaId: h.defillamaId != null ? String(h.defillamaId) : undefined,
+      returnedFunds: h.returnedFunds,
+    }));
+
+    // Link incidents to tracked protocols, by DeFiLlama id first, then by name
+    const withProtocols = incidents.map((incident) => {
+      const protocol =
+        (incident.defillamaId && protocolRepository.getByDefillamaId(incident.defillamaId)) ||
+        protocolRepository.getByName(incident.name);
+
+      return { ...incident, protocolSlug: protocol?.slug };
+    });
+
+    // First load establishes the baseline without alerting on historic incidents
+    const isBaseline = securityIncidentRepository.getCount() === 0;
+    const inserted = securityIncidentRepository.insertNew(withProtocols, isBaseline);
+
+    // Emit raw data event
+    const rawData: RawHackData = {
+      source: 'DEFILLAMA',
+      timestamp: new Date(),
+      incidents,
+    };
+
+    eventBus.emit('collector:hacks', rawData);
+
+    this.logger.info(
+      `Collected ${incidents.length} incidents (${inserted} new)${isBaseline ? ' - baseline stored' : ''}`
+    );
+  }
+
+  // The dataset has no stable id, so derive one from name and date
+  private incidentId(hack: HacksResponse): string {
+    return createHash('sha256')
+      .update(`${hack.name}:${hack.date}`)
+      .digest('hex')
+      .substring(0, 32);
+  }
+
+  private async fetchHacks(): Promise<HacksResponse[]> {
+    return this.rateLimiter.execute(async () => {
+      const data = await this.client.get<HacksResponse[]>('/hacks');
+      return data;
+    });
+  }
+}
+
+export const defillamaHacksCollectorPlugin = defineCollector({
+  name: 'defillamaHacks',
+  configSchema: collectorConfigSchemas.defillamaHacks,
+  event: 'collector:hacks',
+  create: () => new DefiLlamaHacksCollector(),
+});
+
+export default DefiLlamaHacksCollector;
@@ -0,0 +1,117 @@
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { getDefillamaStablecoinsClient } from '../../services/HttpClient.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { stablecoinRepository } from '../../storage/repositories/StablecoinRepository.js';
+import { getConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type { RawStablecoinData, DefiLlamaStablecoin } from '../../core/types/sources.js';
+
+// DeFiLlama stablecoins API response types. Amounts are keyed by peg type,
+// e.g. { peggedUSD: 1000000 }
+type PeggedAmount = Record<string, number>;
+
+interface StablecoinsResponse {
+  peggedAssets: Array<{
+    id: string;
+    name: string;
+    symbol: string;
+    gecko_id?: string | null;
+    pegType: string;
+    pegMechanism?: string;
+    price?: number | null;
+    circulating: PeggedAmount;
+    circulatingPrevDay?: PeggedAmount;
+    circulatingPrevWeek?: PeggedAmount;
+    chainCirculating: Record<
+      string,
+      {
+        current: PeggedAmount;
+        circulatingPrevDay?: PeggedAmount;
+      }
+    >;
+    chains: string[];
+  }>;
+}
+
+export class DefiLlamaStablecoinsCollector extends BaseCollector {
+  readonly name = 'DeFiLlama Stablecoins';
+  readonly source = AlertSource.DEFILLAMA;
+
+  private client;
+  // Shares the DeFiLlama request budget with the TVL collector
+  private rateLimiter = getRateLimiter('defillama');
+
+  constructor() {
+    const config = getConfig();
+    super(collectorSchedule(config.collectors.defillamaStablecoins.pollingIntervalMs, config.collectors.defillamaStablecoins));
+    this.client = getDefillamaStablecoinsClient(config.collectors.defillamaStablecoins.baseUrl);
+  }
+
+  protected async doCollect(): Promise<void> {
+    const config = getConfig();
+    const { minCirculatingUsd, watchlist } = config.collectors.defillamaStablecoins;
+    const watchlistLower = watchlist.map((s) => s.toLowerCase());
+
+    const response = await this.fetchStablecoins();
+
+    // Transform to internal types
+    const stablecoins: DefiLlamaStablecoin[] = response.peggedAssets
+      .map((asset) => {
+        const circulatingByChain: Record<string, number> = {};
+        for (const [chain, amounts] of Object.entries(asset.chainCirculating || {})) {
+          circulatingByChain[chain] = amounts.current?.[asset.pegType] ?? 0;
+        }
+
+        return {
+          id: asset.id,
+          name: asset.name,
+          symbol: asset.symbol,
+          pegType: asset.pegType,
+          pegMechanism: asset.pegMechanism,
+          price: asset.price ?? null,
+          circulating: asset.circulating?.[asset.pegType] ?? 0,
+          circulatingByChain,
+        };
+      })
+      .filter(
+        (s) =>
+          watchlistLower.length === 0 || watchlistLower.includes(s.symbol.toLowerCase())
+      )
+      .filter((s) => s.circulating >= minCirculatingUsd);
+
+    // Store supply snapshots for mint/burn and migration tracking
+    stablecoinRepository.upsertMany(stablecoins);
+
+    // Emit raw data event
+    const rawData: RawStablecoinData = {
+      source: 'DEFILLAMA',
+      timestamp: new Date(),
+      stablecoins,
+    };
+
+    eventBus.emit('collector:stablecoins', rawData);
+
+    this.logger.info(`Collected ${stablecoins.length} stablecoins`);
+  }
+
+  private async fetchStablecoins(): Promise<StablecoinsResponse> {
+    return this.rateLimiter.execute(async () => {
+      const data = await this.client.get<StablecoinsResponse>('/stablecoins', {
+        params: { includePrices: true },
+      });
+      return data;
+    });
+  }
+}
+
+export const defillamaStablecoinsCollectorPlugin = defineCollector({
+  name: 'defillamaStablecoins',
+  configSchema: collectorConfigSchemas.defillamaStablecoins,
+  event: 'collector:stablecoins',
+  create: () => new DefiLlamaStablecoinsCollector(),
+});
+
+export default DefiLlamaStablecoinsCollector;
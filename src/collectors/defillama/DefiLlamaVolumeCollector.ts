@@ -0,0 +1,163 @@
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { getDefillamaClient } from '../../services/HttpClient.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { volumeRepository } from '../../storage/repositories/VolumeRepository.js';
+import { getConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type { RawVolumeData, DefiLlamaVolume, VolumeMarket } from '../../core/types/sources.js';
+
+// DeFiLlama volume overview response, shared by the dexs and derivatives
+// endpoints. breakdown24h is keyed by chain id, then by protocol version.
+interface VolumeOverviewResponse {
+  allChains?: string[];
+  protocols: Array<{
+    name: string;
+    displayName?: string;
+    slug: string;
+    category?: string;
+    chains?: string[];
+    total24h?: number | null;
+    breakdown24h?: Record<string, Record<string, number>> | null;
+  }>;
+}
+
+const MARKET_ENDPOINTS: Record<VolumeMarket, string> = {
+  DEX: '/overview/dexs',
+  DERIVATIVES: '/overview/derivatives',
+};
+
+export class DefiLlamaVolumeCollector extends BaseCollector {
+  readonly name = 'DeFiLlama Volumes';
+  readonly source = AlertSource.DEFILLAMA;
+
+  private client = getDefillamaClient();
+  // Shares the DeFiLlama request budget with the TVL collector
+  private rateLimiter = getRateLimiter('defillama');
+
+  constructor() {
+    const config = getConfig();
+    super(collectorSchedule(config.collectors.defillamaVolumes.pollingIntervalMs, config.collectors.defillamaVolumes));
+  }
+
+  protected async doCollect(): Promise<void> {
+    const config = getConfig();
+    const { markets } = config.collectors.defillamaVolumes;
+
+    const enabledMarkets = (Object.keys(MARKET_ENDPOINTS) as VolumeMarket[]).filter((market) =>
+      market === 'DEX' ? markets.dexs : markets.derivatives
+    );
+
+    const volumes: DefiLlamaVolume[] = [];
+    let failures = 0;
+
+    for (const market of enabledMarkets) {
+      try {
+        const overview = await this.fetchOverview(market);
+        volumes.push(...this.transform(market, overview));
+      } catch (error) {
+        failures++;
+        this.logger.error(`Failed to fetch ${market} volumes:`, error);
+      }
+    }
+
+    if (enabledMarkets.length > 0 && failures === enabledMarkets.length) {
+      throw new Error('Failed to fetch volumes from every market');
+    }
+
+    // Store daily volumes as the baseline for surge detection
+    volumeRepository.upsertMany(volumes);
+
+    // Emit raw data event
+    const rawData: RawVolumeData = {
+      source: 'DEFILLAMA',
+      timestamp: new Date(),
+      volumes,
+    };
+
+    eventBus.emit('collector:volume', rawData);
+
+    this.logger.info(`Collected ${volumes.length} protocol and chain volumes`);
+  }
+
+  // Tracked protocols, plus every tracked chain's volume summed over all
+  // protocols in the market
+  private transform(market: VolumeMarket, overview: VolumeOverviewResponse): DefiLlamaVolume[] {
+    const config = getConfig();
+    const { minVolumeUsd, watchlist, chainWatchlist } = config.collectors.defillamaVolumes;
+
+    // breakdown24h uses chain ids; map them back to display names
+    const chainNames = new Map(
+      (overview.allChains ?? []).map((name) => [name.toLowerCase().replace(/\s+/g, ''), name])
+    );
+
+    const protocols: DefiLlamaVolume[] = [];
+    const chainTotals = new Map<string, number>();
+
+    for (const p of overview.protocols) {
+      const volume24h = p.total24h ?? 0;
+
+      for (const [chainId, versions] of Object.entries(p.breakdown24h ?? {})) {
+        const chain = chainNames.get(chainId) ?? chainId;
+        const chainVolume = Object.values(versions).reduce((sum, v) => sum + (v || 0), 0);
+        chainTotals.set(chain, (chainTotals.get(chain) ?? 0) + chainVolume);
+      }
+
+      if (volume24h < minVolumeUsd || (watchlist.length > 0 && !watchlist.includes(p.slug))) {
+        continue;
+      }
+
+      protocols.push({
+        key: `${market}:PROTOCOL:${p.slug}`,
+        market,
+        scope: 'PROTOCOL',
+        name: p.displayName || p.name,
+        slug: p.slug,
+        category: p.category,
+        chains: p.chains ?? [],
+        volume24h,
+      });
+    }
+
+    const chains: DefiLlamaVolume[] = Array.from(chainTotals.entries())
+      .filter(
+        ([chain, volume24h]) =>
+          volume24h >= minVolumeUsd &&
+          (chainWatchlist.length === 0 || chainWatchlist.includes(chain))
+      )
+      .map(([chain, volume24h]) => ({
+        key: `${market}:CHAIN:${chain}`,
+        market,
+        scope: 'CHAIN',
+        name: chain,
+        chains: [chain],
+        volume24h,
+      }));
+
+    return [...protocols, ...chains];
+  }
+
+  private async fetchOverview(market: VolumeMarket): Promise<VolumeOverviewResponse> {
+    return this.rateLimiter.execute(async () => {
+      const data = await this.client.get<VolumeOverviewResponse>(MARKET_ENDPOINTS[market], {
+        params: {
+          excludeTotalDataChart: true,
+          excludeTotalDataChartBreakdown: true,
+          dataType: 'dailyVolume',
+        },
+      });
+      return data;
+    });
+  }
+}
+
+export const defillamaVolumesCollectorPlugin = defineCollector({
+  name: 'defillamaVolumes',
+  configSchema: collectorConfigSchemas.defillamaVolumes,
+  event: 'collector:volume',
+  create: () => new DefiLlamaVolumeCollector(),
+});
+
+export default DefiLlamaVolumeCollector;
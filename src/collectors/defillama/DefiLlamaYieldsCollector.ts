@@ -0,0 +1,107 @@
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { getDefillamaYieldsClient } from '../../services/HttpClient.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { yieldRepository } from '../../storage/repositories/YieldRepository.js';
+import { getConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type { RawYieldData, DefiLlamaPool } from '../../core/types/sources.js';
+
+// DeFiLlama yields API response types
+interface PoolsResponse {
+  status: string;
+  data: Array<{
+    pool: string;
+    chain: string;
+    project: string;
+    symbol: string;
+    tvlUsd: number;
+    apyBase: number | null;
+    apyReward: number | null;
+    apy: number | null;
+    rewardTokens: string[] | null;
+    stablecoin?: boolean;
+    ilRisk?: string;
+    exposure?: string;
+    poolMeta?: string | null;
+    apyPct1D?: number | null;
+    apyPct7D?: number | null;
+    apyPct30D?: number | null;
+  }>;
+}
+
+export class DefiLlamaYieldsCollector extends BaseCollector {
+  readonly name = 'DeFiLlama Yields';
+  readonly source = AlertSource.DEFILLAMA;
+
+  private client;
+  // Shares the DeFiLlama request budget with the TVL collector
+  private rateLimiter = getRateLimiter('defillama');
+
+  constructor() {
+    const config = getConfig();
+    super(collectorSchedule(config.collectors.defillamaYields.pollingIntervalMs, config.collectors.defillamaYields));
+    this.client = getDefillamaYieldsClient(config.collectors.defillamaYields.baseUrl);
+  }
+
+  protected async doCollect(): Promise<void> {
+    const config = getConfig();
+    const { minPoolTvlUsd, projects, chains } = config.collectors.defillamaYields;
+
+    const response = await this.fetchPools();
+
+    // Transform to internal types, dropping pools we don't track
+    const pools: DefiLlamaPool[] = response.data
+      .filter((p) => (p.tvlUsd || 0) >= minPoolTvlUsd)
+      .filter((p) => projects.length === 0 || projects.includes(p.project))
+      .filter((p) => chains.length === 0 || chains.includes(p.chain))
+      .map((p) => ({
+        pool: p.pool,
+        project: p.project,
+        chain: p.chain,
+        symbol: p.symbol,
+        tvlUsd: p.tvlUsd || 0,
+        apy: p.apy ?? 0,
+        apyBase: p.apyBase,
+        apyReward: p.apyReward,
+        rewardTokens: p.rewardTokens || [],
+        stablecoin: p.stablecoin,
+        poolMeta: p.poolMeta,
+      }));
+
+    // First load establishes the baseline without flagging pools as new
+    const isBaseline = yieldRepository.getCount() === 0;
+    yieldRepository.upsertMany(pools, isBaseline);
+
+    // Emit raw data event
+    const rawData: RawYieldData = {
+      source: 'DEFILLAMA',
+      timestamp: new Date(),
+      pools,
+    };
+
+    eventBus.emit('collector:yields', rawData);
+
+    this.logger.info(
+      `Collected ${pools.length} pools (${response.data.length} total)${isBaseline ? ' - baseline stored' : ''}`
+    );
+  }
+
+  private async fetchPools(): Promise<PoolsResponse> {
+    return this.rateLimiter.execute(async () => {
+      const data = await this.client.get<PoolsResponse>('/pools');
+      return data;
+    });
+  }
+}
+
+export const defillamaYieldsCollectorPlugin = defineCollector({
+  name: 'defillamaYields',
+  configSchema: collectorConfigSchemas.defillamaYields,
+  event: 'collector:yields',
+  create: () => new DefiLlamaYieldsCollector(),
+});
+
+export default DefiLlamaYieldsCollector;
@@ -0,0 +1,135 @@
+import { createLogger } from '../../utils/logger.js';
+import { getDefillamaClient } from '../../services/HttpClient.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
+import { protocolRepository } from '../../storage/repositories/ProtocolRepository.js';
+import type { TVLSnapshot } from '../../core/types/protocols.js';
+
+const logger = createLogger('TvlBackfill');
+
+// Longest window TVL changes are calculated over
+const BACKFILL_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// DeFiLlama per-protocol history. Points are daily, plus one for the current
+// hour; dates are unix seconds.
+interface TvlPoint {
+  date: number;
+  totalLiquidityUSD: number;
+}
+
+interface ProtocolHistoryResponse {
+  tvl?: TvlPoint[];
+  chainTvls?: Record<string, { tvl?: TvlPoint[] }>;
+}
+
+export interface TvlBackfillStatus {
+  queued: number;
+  current?: string;
+  completed: number;
+  failed: number;
+}
+
+// Fills the TVL history of protocols from DeFiLlama's per-protocol history,
+// so change alerts don't have to wait out their window. Protocols are fetched
+// one at a time in the background, so the regular polls sharing the DeFiLlama
+// rate limit are never queued behind a long backfill.
+export class TvlBackfill {
+  private client = getDefillamaClient();
+  private rateLimiter = getRateLimiter('defillama');
+
+  private queue: string[] = [];
+  private current?: string;
+  private completed = 0;
+  private failed = 0;
+
+  // Queue protocols for backfill, skipping ones already waiting. Returns how
+  // many were added.
+  enqueue(slugs: string[]): number {
+    const added = slugs.filter((slug) => slug !== this.current && !this.queue.includes(slug));
+
+    if (added.length === 0) {
+      return 0;
+    }
+
+    this.queue.push(...added);
+    logger.info(`Queued ${added.length} protocols for TVL backfill (${this.queue.length} waiting)`);
+
+    if (!this.current) {
+      void this.drain();
+    }
+
+    return added.length;
+  }
+
+  getStatus(): TvlBackfillStatus {
+    return {
+      queued: this.queue.length,
+      current: this.current,
+      completed: this.completed,
+      failed: this.failed,
+    };
+  }
+
+  // Fetch and store the last 7 days of a protocol's TVL. Returns how many
+  // snapshots were added.
+  async backfill(slug: string): Promise<number> {
+    const history = await this.rateLimiter.execute(async () => {
+      return this.client.get<ProtocolHistoryResponse>(`/protocol/${encodeURIComponent(slug)}`);
+    });
+
+    const snapshots = this.toSnapshots(history);
+    const added = protocolRepository.mergeHistory(slug, snapshots);
+
+    logger.debug(`Backfilled ${added} TVL snapshots for ${slug}`);
+    return added;
+  }
+
+  private async drain(): Promise<void> {
+    while (this.queue.length > 0) {
+      const slug = this.queue.shift()!;
+      this.current = slug;
+
+      try {
+        await this.backfill(slug);
+        this.completed++;
+      } catch (error) {
+        this.failed++;
+        logger.warn(`TVL backfill failed for ${slug}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    this.current = undefined;
+    logger.info(`TVL backfill finished (${this.completed} done, ${this.failed} failed)`);
+  }
+
+  // Snapshots within the backfill window, with the same per-chain breakdown
+  // the /protocols listing gives
+  private toSnapshots(history: ProtocolHistoryResponse): TVLSnapshot[] {
+    const cutoff = (Date.now() - BACKFILL_WINDOW_MS) / 1000;
+    const inWindow = (points: TvlPoint[] | undefined) => (points ?? []).filter((p) => p.date > cutoff);
+
+    const chainPoints = Object.entries(history.chainTvls ?? {}).map(
+      ([chain, data]) =>
+        [chain, new Map(inWindow(data.tvl).map((p) => [p.date, p.totalLiquidityUSD]))] as const
+    );
+
+    return inWindow(history.tvl).map((point) => {
+      const tvlByChain: Record<string, number> = {};
+      for (const [chain, points] of chainPoints) {
+        const value = points.get(point.date);
+        if (value !== undefined) {
+          tvlByChain[chain] = value;
+        }
+      }
+
+      return {
+        timestamp: new Date(point.date * 1000),
+        tvl: point.totalLiquidityUSD,
+        tvlByChain,
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const tvlBackfill = new TvlBackfill();
+export default tvlBackfill;
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EvmLogCollector } from './EvmLogCollector.js';
+import { database } from '../../storage/Database.js';
+import { systemStateRepository } from '../../storage/repositories/SystemStateRepository.js';
+import { contractEventRepository } from '../../storage/repositories/ContractEventRepository.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { getConfig } from '../../config/index.js';
+import type { RawContractEventData } from '../../core/types/sources.js';
+
+// JSON-RPC stand-in: the collector's client posts here instead of to a node
+const rpc = vi.hoisted(() => ({ post: vi.fn() }));
+
+vi.mock('../../services/HttpClient.js', () => ({
+  getRpcClient: () => rpc,
+}));
+
+vi.mock('../../services/RateLimiter.js', () => ({
+  getRateLimiter: () => ({ execute: <T>(fn: () => Promise<T>) => fn() }),
+}));
+
+const CURSOR_KEY = 'evm_logs:cursor:ethereum';
+const POOL = '0x87870bca3f3fd6335c3f4ce8392d69350b4fa4e2';
+const PAUSED_TOPIC = '0x62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a258';
+const GUARDIAN_WORD = `0x${'0'.repeat(24)}${'ab'.repeat(20)}`;
+
+interface LogRequest {
+  fromBlock: string;
+  toBlock: string;
+}
+
+function pausedLog(block: number, logIndex = 0) {
+  return {
+    address: POOL,
+    topics: [PAUSED_TOPIC],
+    data: GUARDIAN_WORD,
+    blockNumber: `0x${block.toString(16)}`,
+    transactionHash: `0x${block.toString(16).padStart(64, '0')}`,
+    logIndex: `0x${logIndex.toString(16)}`,
+  };
+}
+
+// Answer eth_blockNumber with the head and eth_getLogs with the logs inside
+// the requested range. A handler may override the response for a range.
+function serveChain(
+  head: number,
+  logs: ReturnType<typeof pausedLog>[],
+  onGetLogs?: (range: LogRequest) => object | undefined
+) {
+  rpc.post.mockImplementation(async (_url: string, body: { method: string; params: unknown[] }) => {
+    if (body.method === 'eth_blockNumber') {
+      return { result: `0x${head.toString(16)}` };
+    }
+
+    const range = body.params[0] as LogRequest;
+    const override = onGetLogs?.(range);
+    if (override) {
+      return override;
+    }
+
+    const from = parseInt(range.fromBlock, 16);
+    const to = parseInt(range.toBlock, 16);
+    return {
+      result: logs.filter((log) => {
+        const block = parseInt(log.blockNumber, 16);
+        return block >= from && block <= to;
+      }),
+    };
+  });
+}
+
+function requestedRanges(): Array<[number, number]> {
+  return rpc.post.mock.calls
+    .filter(([, body]) => body.method === 'eth_getLogs')
+    .map(([, body]) => {
+      const range = body.params[0] as LogRequest;
+      return [parseInt(range.fromBlock, 16), parseInt(range.toBlock, 16)];
+    });
+}
+
+describe('EvmLogCollector', () => {
+  let collector: EvmLogCollector;
+  let emitted: RawContractEventData[];
+  const onEvents = (data: RawContractEventData) => emitted.push(data);
+
+  beforeEach(() => {
+    database.initialize();
+
+    const evmLogs = getConfig().collectors.evmLogs;
+    evmLogs.confirmations = 2;
+    evmLogs.maxBlockRange = 10;
+    evmLogs.chains = [
+      {
+        name: 'Ethereum',
+        rpcUrl: 'http://rpc.test',
+        contracts: [{ address: POOL, protocol: 'aave', label: 'Pool' }],
+      },
+    ];
+
+    rpc.post.mockReset();
+    emitted = [];
+    eventBus.on('collector:contractEvents', onEvents);
+    collector = new EvmLogCollector();
+  });
+
+  afterEach(() => {
+    eventBus.off('collector:contractEvents', onEvents);
+    database.close();
+  });
+
+  it('starts the cursor at the confirmed head on first run', async () => {
+    serveChain(500, [pausedLog(490)]);
+
+    await collector['doCollect']();
+
+    expect(systemStateRepository.get(CURSOR_KEY)).toBe('498');
+    expect(requestedRanges()).toEqual([]);
+    expect(emitted[0]?.events).toEqual([]);
+  });
+
+  it('starts from startBlock when configured', async () => {
+    getConfig().collectors.evmLogs.chains[0]!.startBlock = 480;
+    serveChain(500, [pausedLog(490)]);
+
+    await collector['doCollect']();
+
+    expect(requestedRanges()).toEqual([
+      [480, 489],
+      [490, 498],
+    ]);
+    expect(systemStateRepository.get(CURSOR_KEY)).toBe('498');
+    expect(emitted[0]?.events.map((e) => e.blockNumber)).toEqual([490]);
+  });
+
+  it('advances the cursor in maxBlockRange steps up to the confirmed head', async () => {
+    systemStateRepository.set(CURSOR_KEY, '100');
+    serveChain(127, [pausedLog(115), pausedLog(126)]);
+
+    await collector['doCollect']();
+
+    expect(requestedRanges()).toEqual([
+      [101, 110],
+      [111, 120],
+      [121, 125],
+    ]);
+    expect(systemStateRepository.get(CURSOR_KEY)).toBe('125');
+
+    // The log at 126 isn't confirmed yet and is left for the next run
+    const events = emitted[0]?.events ?? [];
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      id: `ethereum:${pausedLog(115).transactionHash}:0`,
+      protocol: 'aave',
+      eventName: 'Paused',
+      args: { account: `0x${'ab'.repeat(20)}` },
+      blockNumber: 115,
+    });
+    expect(contractEventRepository.getUnannounced().map((e) => e.id)).toEqual([events[0]!.id]);
+  });
+
+  it('keeps the ranges read before a failure and resumes after them', async () => {
+    systemStateRepository.set(CURSOR_KEY, '100');
+    serveChain(127, [pausedLog(105), pausedLog(115)], (range) =>
+      range.fromBlock === '0x6f' ? { error: { code: -32005, message: 'limit exceeded' } } : undefined
+    );
+
+    await expect(collector['doCollect']()).rejects.toThrow('Ethereum eth_getLogs failed: limit exceeded');
+
+    expect(systemStateRepository.get(CURSOR_KEY)).toBe('110');
+    expect(contractEventRepository.getUnannounced().map((e) => e.blockNumber)).toEqual([105]);
+
+    rpc.post.mockClear();
+    serveChain(127, [pausedLog(105), pausedLog(115)]);
+
+    await collector['doCollect']();
+
+    expect(requestedRanges()).toEqual([
+      [111, 120],
+      [121, 125],
+    ]);
+    expect(systemStateRepository.get(CURSOR_KEY)).toBe('125');
+    expect(contractEventRepository.getUnannounced().map((e) => e.blockNumber)).toEqual([105, 115]);
+  });
+
+  it('does not move the cursor when a call returns no result', async () => {
+    systemStateRepository.set(CURSOR_KEY, '100');
+    serveChain(127, [pausedLog(115)], () => ({ result: null }));
+
+    await expect(collector['doCollect']()).rejects.toThrow('Ethereum eth_getLogs returned no result');
+
+    expect(systemStateRepository.get(CURSOR_KEY)).toBe('100');
+  });
+
+  it('rejects an invalid head instead of reading logs', async () => {
+    rpc.post.mockResolvedValue({ result: 'latest' });
+
+    await expect(collector['doCollect']()).rejects.toThrow('invalid block number');
+
+    expect(requestedRanges()).toEqual([]);
+  });
+});
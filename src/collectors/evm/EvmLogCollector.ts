@@ -0,0 +1,276 @@
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { getRpcClient } from '../../services/HttpClient.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { systemStateRepository } from '../../storage/repositories/SystemStateRepository.js';
+import { contractEventRepository } from '../../storage/repositories/ContractEventRepository.js';
+import { getConfig, type AppConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type {
+  RawContractEventData,
+  ContractEvent,
+  ContractEventName,
+} from '../../core/types/sources.js';
+
+type ChainConfig = AppConfig['collectors']['evmLogs']['chains'][number];
+
+// JSON-RPC log object
+interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+  logIndex: string;
+  removed?: boolean;
+}
+
+interface RpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+// topic0 (keccak256 of the event signature) for each watched event
+const EVENT_TOPICS: Record<string, ContractEventName> = {
+  // Paused(address)
+  '0x62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a258': 'Paused',
+  // Unpaused(address)
+  '0x5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa': 'Unpaused',
+  // Upgraded(address indexed implementation)
+  '0xbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b': 'Upgraded',
+  // AdminChanged(address previousAdmin, address newAdmin)
+  '0x7e644d79422f17c01e4894b5f4f588d331ebfa28653d42ae832dc59e38c9798f': 'AdminChanged',
+  // OwnershipTransferred(address indexed previousOwner, address indexed newOwner)
+  '0x8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0': 'OwnershipTransferred',
+  // RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)
+  '0x2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d': 'RoleGranted',
+  // RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)
+  '0xf6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b': 'RoleRevoked',
+};
+
+export class EvmLogCollector extends BaseCollector {
+  readonly name = 'EVM Logs';
+  readonly source = AlertSource.ONCHAIN;
+
+  private client = getRpcClient();
+  private rateLimiter = getRateLimiter('rpc');
+  private requestId = 0;
+
+  constructor() {
+    const config = getConfig();
+    super(collectorSchedule(config.collectors.evmLogs.pollingIntervalMs, config.collectors.evmLogs));
+  }
+
+  protected async doCollect(): Promise<void> {
+    const config = getConfig();
+    const chains = config.collectors.evmLogs.chains.filter((c) => c.contracts.length > 0);
+
+    if (chains.length === 0) {
+      this.logger.warn('No EVM chains with watched contracts configured');
+      return;
+    }
+
+    const events: ContractEvent[] = [];
+    let lastError: unknown;
+    let failures = 0;
+
+    // One unreachable RPC shouldn't hold back the other chains
+    for (const chain of chains) {
+      try {
+        events.push(...(await this.collectChain(chain)));
+      } catch (error) {
+        failures++;
+        lastError = error;
+        this.logger.error(`Log collection for ${chain.name} failed:`, error);
+      }
+    }
+
+    if (failures === chains.length) {
+      throw lastError;
+    }
+
+    // Emitted every run, so events a cooldown held back are raised again
+    const rawData: RawContractEventData = {
+      source: 'ONCHAIN',
+      timestamp: new Date(),
+      events,
+    };
+
+    eventBus.emit('collector:contractEvents', rawData);
+
+    this.logger.info(
+      `Collected ${events.length} contract events from ${chains.length - failures} chains`
+    );
+  }
+
+  // Read logs from the stored cursor up to the confirmed head. Each range's
+  // events are stored before the cursor moves past it, so progress survives
+  // a failure mid-way without losing events; they stay pending until their
+  // alert is sent.
+  private async collectChain(chain: ChainConfig): Promise<ContractEvent[]> {
+    const config = getConfig();
+    const { confirmations, maxBlockRange } = config.collectors.evmLogs;
+    const cursorKey = `evm_logs:cursor:${chain.name.toLowerCase()}`;
+
+    const head = parseInt(await this.rpc<string>(chain, 'eth_blockNumber', []), 16);
+    if (Number.isNaN(head)) {
+      throw new Error(`${chain.name} eth_blockNumber returned an invalid block number`);
+    }
+    const safeHead = head - confirmations;
+
+    const stored = systemStateRepository.get(cursorKey);
+
+    // First run starts at startBlock if configured, otherwise at the head
+    if (stored === null && chain.startBlock === undefined) {
+      systemStateRepository.set(cursorKey, String(safeHead));
+      this.logger.info(`Initialized ${chain.name} cursor at block ${safeHead}`);
+      return [];
+    }
+
+    let fromBlock = stored !== null ? parseInt(stored, 10) + 1 : (chain.startBlock as number);
+    const events: ContractEvent[] = [];
+    const addresses = chain.contracts.map((c) => c.address.toLowerCase());
+
+    while (fromBlock <= safeHead) {
+      const toBlock = Math.min(fromBlock + maxBlockRange - 1, safeHead);
+
+      const logs = await this.rpc<RpcLog[]>(chain, 'eth_getLogs', [
+        {
+          fromBlock: `0x${fromBlock.toString(16)}`,
+          toBlock: `0x${toBlock.toString(16)}`,
+          address: addresses,
+          topics: [Object.keys(EVENT_TOPICS)],
+        },
+      ]);
+
+      const rangeEvents: ContractEvent[] = [];
+      for (const log of logs) {
+        const event = this.decodeLog(chain, log);
+        if (event) {
+          rangeEvents.push(event);
+        }
+      }
+
+      contractEventRepository.insertNew(rangeEvents);
+      events.push(...rangeEvents);
+
+      systemStateRepository.set(cursorKey, String(toBlock));
+      fromBlock = toBlock + 1;
+    }
+
+    return events;
+  }
+
+  private decodeLog(chain: ChainConfig, log: RpcLog): ContractEvent | null {
+    const eventName = log.topics[0] ? EVENT_TOPICS[log.topics[0].toLowerCase()] : undefined;
+
+    if (!eventName || log.removed) {
+      return null;
+    }
+
+    const contract = chain.contracts.find(
+      (c) => c.address.toLowerCase() === log.address.toLowerCase()
+    );
+
+    if (!contract) {
+      return null;
+    }
+
+    const words = this.dataWords(log.data);
+    let args: Record<string, string>;
+
+    switch (eventName) {
+      case 'Paused':
+      case 'Unpaused':
+        args = { account: this.toAddress(words[0]) };
+        break;
+      case 'Upgraded':
+        args = { implementation: this.toAddress(log.topics[1]) };
+        break;
+      case 'AdminChanged':
+        args = { previousAdmin: this.toAddress(words[0]), newAdmin: this.toAddress(words[1]) };
+        break;
+      case 'OwnershipTransferred':
+        args = {
+          previousOwner: this.toAddress(log.topics[1]),
+          newOwner: this.toAddress(log.topics[2]),
+        };
+        break;
+      case 'RoleGranted':
+      case 'RoleRevoked':
+        args = {
+          role: log.topics[1] ?? '',
+          account: this.toAddress(log.topics[2]),
+          sender: this.toAddress(log.topics[3]),
+        };
+        break;
+    }
+
+    const logIndex = parseInt(log.logIndex, 16);
+
+    return {
+      id: `${chain.name.toLowerCase()}:${log.transactionHash}:${logIndex}`,
+      chain: chain.name,
+      address: contract.address,
+      protocol: contract.protocol,
+      label: contract.label,
+      eventName,
+      args,
+      blockNumber: parseInt(log.blockNumber, 16),
+      txHash: log.transactionHash,
+      logIndex,
+      explorerUrl: chain.explorerUrl,
+    };
+  }
+
+  // Split ABI-encoded data into 32-byte words
+  private dataWords(data: string): string[] {
+    const hex = data.startsWith('0x') ? data.slice(2) : data;
+    const words: string[] = [];
+    for (let i = 0; i + 64 <= hex.length; i += 64) {
+      words.push(hex.slice(i, i + 64));
+    }
+    return words;
+  }
+
+  // An address is the low 20 bytes of a 32-byte word or topic
+  private toAddress(word?: string): string {
+    if (!word) {
+      return '';
+    }
+    const hex = word.startsWith('0x') ? word.slice(2) : word;
+    return `0x${hex.slice(-40)}`;
+  }
+
+  private async rpc<T>(chain: ChainConfig, method: string, params: unknown[]): Promise<T> {
+    const response = await this.rateLimiter.execute(async () => {
+      return this.client.post<RpcResponse<T>>(chain.rpcUrl, {
+        jsonrpc: '2.0',
+        id: ++this.requestId,
+        method,
+        params,
+      });
+    });
+
+    if (response.error) {
+      throw new Error(`${chain.name} ${method} failed: ${response.error.message}`);
+    }
+
+    if (response.result === undefined || response.result === null) {
+      throw new Error(`${chain.name} ${method} returned no result`);
+    }
+
+    return response.result;
+  }
+}
+
+export const evmLogsCollectorPlugin = defineCollector({
+  name: 'evmLogs',
+  configSchema: collectorConfigSchemas.evmLogs,
+  event: 'collector:contractEvents',
+  create: () => new EvmLogCollector(),
+});
+
+export default EvmLogCollector;
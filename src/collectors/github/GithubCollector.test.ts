@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GithubCollector } from './GithubCollector.js';
+import { database } from '../../storage/Database.js';
+import { githubItemRepository } from '../../storage/repositories/GithubItemRepository.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { getConfig } from '../../config/index.js';
+import type { RawRepoActivityData } from '../../core/types/sources.js';
+
+// GitHub API stand-in, keyed by request path
+const github = vi.hoisted(() => ({
+  responses: new Map<string, unknown>(),
+  client: { get: vi.fn() },
+  getGithubClient: vi.fn(),
+}));
+
+vi.mock('../../services/HttpClient.js', () => ({
+  getGithubClient: github.getGithubClient,
+}));
+
+vi.mock('../../services/RateLimiter.js', () => ({
+  getRateLimiter: () => ({ execute: <T>(fn: () => Promise<T>) => fn() }),
+}));
+
+const REPO = 'aave/aave-v3-core';
+
+function release(id: number, tag: string) {
+  return {
+    id,
+    tag_name: tag,
+    name: `Release ${tag}`,
+    html_url: `https://github.com/${REPO}/releases/tag/${tag}`,
+    draft: false,
+    prerelease: false,
+    body: null,
+    published_at: '2026-10-01T00:00:00Z',
+  };
+}
+
+function tag(name: string) {
+  return { name, commit: { sha: name.padEnd(40, '0') } };
+}
+
+function advisory(ghsaId: string) {
+  return {
+    ghsa_id: ghsaId,
+    cve_id: null,
+    html_url: `https://github.com/${REPO}/security/advisories/${ghsaId}`,
+    summary: `Advisory ${ghsaId}`,
+    description: null,
+    severity: 'high',
+    state: 'published',
+    published_at: '2026-10-01T00:00:00Z',
+  };
+}
+
+function serve(data: { releases?: unknown[]; tags?: unknown[]; advisories?: unknown[] }) {
+  github.responses.set(`/repos/${REPO}/releases`, data.releases ?? []);
+  github.responses.set(`/repos/${REPO}/tags`, data.tags ?? []);
+  github.responses.set(`/repos/${REPO}/security-advisories`, data.advisories ?? []);
+}
+
+describe('GithubCollector', () => {
+  let collector: GithubCollector;
+  let emitted: RawRepoActivityData[];
+  const onActivity = (data: RawRepoActivityData) => emitted.push(data);
+
+  // Ids of the events the last run emitted
+  const lastEventIds = () => emitted[emitted.length - 1]?.events.map((e) => e.id);
+
+  beforeEach(() => {
+    database.initialize();
+
+    const config = getConfig().collectors.github;
+    config.baseUrl = 'http://github.test/api/v3';
+    config.token = 'test-token';
+    config.repositories = [
+      { repo: REPO, protocol: 'aave', releases: true, tags: true, advisories: true, audits: false },
+    ];
+
+    github.responses.clear();
+    github.client.get.mockReset();
+    github.client.get.mockImplementation(async (path: string) => {
+      if (!github.responses.has(path)) {
+        throw new Error(`Unexpected request: ${path}`);
+      }
+      return github.responses.get(path);
+    });
+    github.getGithubClient.mockReset();
+    github.getGithubClient.mockReturnValue(github.client);
+
+    emitted = [];
+    eventBus.on('collector:repoActivity', onActivity);
+    collector = new GithubCollector();
+  });
+
+  afterEach(() => {
+    eventBus.off('collector:repoActivity', onActivity);
+    database.close();
+  });
+
+  it('builds its client from the configured base URL and token', () => {
+    expect(github.getGithubClient).toHaveBeenCalledWith('http://github.test/api/v3', 'test-token');
+  });
+
+  it('records the first fetch as a baseline without reporting it', async () => {
+    serve({ releases: [release(1, 'v1.0.0')], advisories: [advisory('GHSA-aaaa')] });
+
+    await collector['doCollect']();
+
+    expect(lastEventIds()).toEqual([]);
+    expect(githubItemRepository.hasItems(REPO, 'RELEASE')).toBe(true);
+    expect(githubItemRepository.hasItems(REPO, 'ADVISORY')).toBe(true);
+  });
+
+  it('reports items added after the baseline', async () => {
+    serve({ releases: [release(1, 'v1.0.0')] });
+    await collector['doCollect']();
+
+    serve({ releases: [release(2, 'v1.1.0'), release(1, 'v1.0.0')] });
+    await collector['doCollect']();
+
+    expect(lastEventIds()).toEqual([`${REPO}:release:2`]);
+  });
+
+  it('reports an item again until it is recorded as seen', async () => {
+    serve({ releases: [release(1, 'v1.0.0')] });
+    await collector['doCollect']();
+
+    serve({ releases: [release(2, 'v1.1.0'), release(1, 'v1.0.0')] });
+    await collector['doCollect']();
+    await collector['doCollect']();
+
+    // Held back, e.g. by a cooldown, so still unseen
+    expect(lastEventIds()).toEqual([`${REPO}:release:2`]);
+
+    githubItemRepository.insertNew(emitted[emitted.length - 1]!.events);
+    await collector['doCollect']();
+
+    expect(lastEventIds()).toEqual([]);
+  });
+
+  it('reports the first item of a kind that had none at baseline', async () => {
+    serve({ releases: [release(1, 'v1.0.0')] });
+    await collector['doCollect']();
+
+    serve({ releases: [release(1, 'v1.0.0')], advisories: [advisory('GHSA-aaaa')] });
+    await collector['doCollect']();
+
+    expect(lastEventIds()).toEqual([`${REPO}:advisory:GHSA-aaaa`]);
+  });
+
+  it('reports tags cut as releases only as releases', async () => {
+    serve({ releases: [release(1, 'v1.0.0')], tags: [tag('v1.0.0')] });
+    await collector['doCollect']();
+
+    serve({
+      releases: [release(2, 'v1.1.0'), release(1, 'v1.0.0')],
+      tags: [tag('v1.1.0'), tag('v1.1.0-rc.1'), tag('v1.0.0')],
+    });
+    await collector['doCollect']();
+
+    expect(lastEventIds()).toEqual([`${REPO}:release:2`, `${REPO}:tag:v1.1.0-rc.1`]);
+
+    // Only the unsent events come back; the release's tag was recorded straight away
+    await collector['doCollect']();
+    expect(lastEventIds()).toEqual([`${REPO}:release:2`, `${REPO}:tag:v1.1.0-rc.1`]);
+  });
+});
@@ -0,0 +1,327 @@
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { getGithubClient } from '../../services/HttpClient.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { githubItemRepository } from '../../storage/repositories/GithubItemRepository.js';
+import { getConfig, type AppConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type { RawRepoActivityData, RepoEvent, RepoEventKind } from '../../core/types/sources.js';
+
+type RepoConfig = AppConfig['collectors']['github']['repositories'][number];
+
+// GitHub REST API response types
+interface ReleaseResponse {
+  id: number;
+  tag_name: string;
+  name: string | null;
+  html_url: string;
+  draft: boolean;
+  prerelease: boolean;
+  body: string | null;
+  published_at: string | null;
+}
+
+interface TagResponse {
+  name: string;
+  commit: { sha: string };
+}
+
+interface AdvisoryResponse {
+  ghsa_id: string;
+  cve_id: string | null;
+  html_url: string;
+  summary: string;
+  description: string | null;
+  severity: string | null;
+  state: string;
+  published_at: string | null;
+}
+
+interface TreeResponse {
+  tree: Array<{ path: string; type: string; sha: string }>;
+  truncated: boolean;
+}
+
+// Links to tags and files are built against the web UI rather than the API
+const GITHUB_WEB_URL = 'https://github.com';
+
+const PAGE_SIZE = 30;
+const MAX_BODY_LENGTH = 1000;
+
+const AUDIT_REPORT_PATTERN = /(^|\/)audits?\/.*\.pdf$/i;
+
+// Audit firms and the spellings they show up under in report file names
+const AUDIT_FIRMS: Array<{ name: string; patterns: string[] }> = [
+  { name: 'Trail of Bits', patterns: ['trailofbits', 'tob'] },
+  { name: 'OpenZeppelin', patterns: ['openzeppelin', 'oz'] },
+  { name: 'ConsenSys Diligence', patterns: ['consensys', 'diligence'] },
+  { name: 'Certora', patterns: ['certora'] },
+  { name: 'Spearbit', patterns: ['spearbit'] },
+  { name: 'Cantina', patterns: ['cantina'] },
+  { name: 'Code4rena', patterns: ['code4rena', 'c4'] },
+  { name: 'Sherlock', patterns: ['sherlock'] },
+  { name: 'ChainSecurity', patterns: ['chainsecurity'] },
+  { name: 'Quantstamp', patterns: ['quantstamp'] },
+  { name: 'PeckShield', patterns: ['peckshield'] },
+  { name: 'Sigma Prime', patterns: ['sigmaprime'] },
+  { name: 'Zellic', patterns: ['zellic'] },
+  { name: 'Halborn', patterns: ['halborn'] },
+  { name: 'CertiK', patterns: ['certik'] },
+  { name: 'Cyfrin', patterns: ['cyfrin'] },
+  { name: 'MixBytes', patterns: ['mixbytes'] },
+  { name: 'Dedaub', patterns: ['dedaub'] },
+  { name: 'Runtime Verification', patterns: ['runtimeverification'] },
+  { name: 'Least Authority', patterns: ['leastauthority'] },
+  { name: 'ABDK', patterns: ['abdk'] },
+  { name: 'Hacken', patterns: ['hacken'] },
+  { name: 'Ackee', patterns: ['ackee'] },
+  { name: 'Pashov', patterns: ['pashov'] },
+  { name: 'Statemind', patterns: ['statemind'] },
+  { name: 'Veridise', patterns: ['veridise'] },
+  { name: 'OtterSec', patterns: ['ottersec', 'osec'] },
+];
+
+export class GithubCollector extends BaseCollector {
+  readonly name = 'GitHub';
+  readonly source = AlertSource.GITHUB;
+
+  private client;
+  private rateLimiter = getRateLimiter('github');
+
+  constructor() {
+    const config = getConfig();
+    super(collectorSchedule(config.collectors.github.pollingIntervalMs, config.collectors.github));
+    this.client = getGithubClient(config.collectors.github.baseUrl, config.collectors.github.token);
+  }
+
+  protected async doCollect(): Promise<void> {
+    const config = getConfig();
+    const { repositories } = config.collectors.github;
+
+    if (repositories.length === 0) {
+      this.logger.warn('No GitHub repositories configured');
+      return;
+    }
+
+    const events: RepoEvent[] = [];
+    let lastError: unknown;
+    let failures = 0;
+
+    // One broken repository shouldn't hold back the others
+    for (const repo of repositories) {
+      try {
+        events.push(...(await this.collectRepo(repo)));
+      } catch (error) {
+        failures++;
+        lastError = error;
+        this.logger.error(`Repository ${repo.repo} failed:`, error);
+      }
+    }
+
+    if (failures === repositories.length) {
+      throw lastError;
+    }
+
+    // Emit raw data event
+    const rawData: RawRepoActivityData = {
+      source: 'GITHUB',
+      timestamp: new Date(),
+      events,
+    };
+
+    eventBus.emit('collector:repoActivity', rawData);
+
+    this.logger.info(
+      `Collected ${events.length} new repository events from ${repositories.length - failures} repositories`
+    );
+  }
+
+  private async collectRepo(repo: RepoConfig): Promise<RepoEvent[]> {
+    const events: RepoEvent[] = [];
+
+    // Releases are fetched for tags too, so tags cut as releases aren't reported twice
+    let releases: RepoEvent[] = [];
+    if (repo.releases || repo.tags) {
+      releases = await this.fetchReleases(repo);
+    }
+
+    if (repo.releases) {
+      events.push(...this.filterNew(repo.repo, 'RELEASE', releases));
+    }
+
+    if (repo.tags) {
+      const releaseTags = new Set(releases.map((r) => r.tagName));
+      const newTags = this.filterNew(repo.repo, 'TAG', await this.fetchTags(repo));
+
+      // Tags cut as releases are reported as releases
+      githubItemRepository.insertNew(newTags.filter((t) => releaseTags.has(t.tagName)));
+      events.push(...newTags.filter((t) => !releaseTags.has(t.tagName)));
+    }
+
+    if (repo.advisories) {
+      events.push(...this.filterNew(repo.repo, 'ADVISORY', await this.fetchAdvisories(repo)));
+    }
+
+    if (repo.audits) {
+      events.push(...this.filterNew(repo.repo, 'AUDIT', await this.fetchAuditReports(repo)));
+    }
+
+    return events;
+  }
+
+  // Return the unseen items. They are recorded as seen once their alert is
+  // sent, so one a cooldown held back comes up again next poll. The first
+  // fetch of a kind for a repository records everything as its baseline
+  // without alerting.
+  private filterNew(repo: string, kind: RepoEventKind, items: RepoEvent[]): RepoEvent[] {
+    if (githubItemRepository.hasItems(repo, kind)) {
+      return githubItemRepository.getUnseen(items);
+    }
+
+    // Mark the baseline as taken even when there was nothing to store, so a
+    // repository's first advisory isn't swallowed as baseline later
+    const stored = githubItemRepository.insertNew(items);
+    githubItemRepository.insertNew([{ id: `${repo}:${kind.toLowerCase()}:baseline`, repo, kind }]);
+    this.logger.info(`Baseline for ${repo} ${kind.toLowerCase()} items: ${stored.length}`);
+    return [];
+  }
+
+  private async fetchReleases(repo: RepoConfig): Promise<RepoEvent[]> {
+    const data = await this.rateLimiter.execute(async () => {
+      return this.client.get<ReleaseResponse[]>(`/repos/${repo.repo}/releases`, {
+        params: { per_page: PAGE_SIZE },
+      });
+    });
+
+    return data
+      .filter((release) => !release.draft)
+      .map((release) => ({
+        id: `${repo.repo}:release:${release.id}`,
+        kind: 'RELEASE' as const,
+        repo: repo.repo,
+        protocol: repo.protocol,
+        title: release.name || release.tag_name,
+        url: release.html_url,
+        tagName: release.tag_name,
+        prerelease: release.prerelease,
+        body: this.truncate(release.body),
+        publishedAt: release.published_at ? new Date(release.published_at) : undefined,
+      }));
+  }
+
+  private async fetchTags(repo: RepoConfig): Promise<RepoEvent[]> {
+    const data = await this.rateLimiter.execute(async () => {
+      return this.client.get<TagResponse[]>(`/repos/${repo.repo}/tags`, {
+        params: { per_page: PAGE_SIZE },
+      });
+    });
+
+    return data.map((tag) => ({
+      id: `${repo.repo}:tag:${tag.name}`,
+      kind: 'TAG' as const,
+      repo: repo.repo,
+      protocol: repo.protocol,
+      title: tag.name,
+      url: `${GITHUB_WEB_URL}/${repo.repo}/tree/${encodeURIComponent(tag.name)}`,
+      tagName: tag.name,
+    }));
+  }
+
+  private async fetchAdvisories(repo: RepoConfig): Promise<RepoEvent[]> {
+    const data = await this.rateLimiter.execute(async () => {
+      return this.client.get<AdvisoryResponse[]>(`/repos/${repo.repo}/security-advisories`, {
+        params: { state: 'published', per_page: PAGE_SIZE },
+      });
+    });
+
+    return data
+      .filter((advisory) => advisory.state === 'published')
+      .map((advisory) => ({
+        id: `${repo.repo}:advisory:${advisory.ghsa_id}`,
+        kind: 'ADVISORY' as const,
+        repo: repo.repo,
+        protocol: repo.protocol,
+        title: advisory.summary,
+        url: advisory.html_url,
+        body: this.truncate(advisory.description),
+        severity: advisory.severity ?? undefined,
+        ghsaId: advisory.ghsa_id,
+        cveId: advisory.cve_id ?? undefined,
+        publishedAt: advisory.published_at ? new Date(advisory.published_at) : undefined,
+      }));
+  }
+
+  // Audit reports are PDFs anywhere under an audit/ or audits/ folder on the
+  // default branch. Reports are keyed by path, so re-uploads don't re-alert.
+  private async fetchAuditReports(repo: RepoConfig): Promise<RepoEvent[]> {
+    const data = await this.rateLimiter.execute(async () => {
+      return this.client.get<TreeResponse>(`/repos/${repo.repo}/git/trees/HEAD`, {
+        params: { recursive: 1 },
+      });
+    });
+
+    if (data.truncated) {
+      this.logger.warn(`File tree of ${repo.repo} is truncated, some audit reports may be missed`);
+    }
+
+    return data.tree
+      .filter((entry) => entry.type === 'blob' && AUDIT_REPORT_PATTERN.test(entry.path))
+      .map((entry) => ({
+        id: `${repo.repo}:audit:${entry.path}`,
+        kind: 'AUDIT' as const,
+        repo: repo.repo,
+        protocol: repo.protocol,
+        title: entry.path.split('/').pop() || entry.path,
+        url: `${GITHUB_WEB_URL}/${repo.repo}/blob/HEAD/${entry.path.split('/').map(encodeURIComponent).join('/')}`,
+        path: entry.path,
+        auditFirm: this.detectAuditFirm(entry.path),
+      }));
+  }
+
+  // Match known firms against the report path, falling back to the folder the
+  // report sits in under audits/ (e.g. audits/spearbit/v3.pdf)
+  private detectAuditFirm(path: string): string | undefined {
+    const segments = path
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+    const normalized = segments.join('');
+
+    for (const firm of AUDIT_FIRMS) {
+      const found = firm.patterns.some((pattern) =>
+        // Short abbreviations only count as whole words
+        pattern.length <= 4 ? segments.includes(pattern) : normalized.includes(pattern)
+      );
+      if (found) {
+        return firm.name;
+      }
+    }
+
+    const parts = path.split('/');
+    const auditsIndex = parts.findIndex((p) => /^audits?$/i.test(p));
+    // Only a folder between audits/ and the file itself names a firm
+    if (auditsIndex !== -1 && auditsIndex < parts.length - 2) {
+      return parts[auditsIndex + 1];
+    }
+
+    return undefined;
+  }
+
+  private truncate(text: string | null): string | undefined {
+    if (!text) {
+      return undefined;
+    }
+    return text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH)}...` : text;
+  }
+}
+
+export const githubCollectorPlugin = defineCollector({
+  name: 'github',
+  configSchema: collectorConfigSchemas.github,
+  event: 'collector:repoActivity',
+  create: () => new GithubCollector(),
+});
+
+export default GithubCollector;
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GovernanceCollector } from './GovernanceCollector.js';
+import { database } from '../../storage/Database.js';
+import { governanceRepository } from '../../storage/repositories/GovernanceRepository.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { getConfig } from '../../config/index.js';
+import type { GovernanceProvider } from './providers/GovernanceProvider.js';
+import type {
+  GovernanceProposal,
+  GovernanceProposalState,
+  RawGovernanceData,
+} from '../../core/types/sources.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stand-in for a GraphQL-backed provider: serves whatever proposals the test sets
+class StubProvider implements GovernanceProvider {
+  proposals: GovernanceProposal[] = [];
+
+  constructor(readonly name: string) {}
+
+  async fetchProposals(): Promise<GovernanceProposal[]> {
+    return this.proposals;
+  }
+}
+
+function proposal(
+  provider: string,
+  space: string,
+  id: string,
+  state: GovernanceProposalState
+): GovernanceProposal {
+  const now = Date.now();
+  return {
+    id: `${provider}:${id}`,
+    provider,
+    space,
+    title: `Proposal ${id}`,
+    state,
+    startAt: new Date(now - DAY_MS),
+    endAt: new Date(state === 'active' ? now + DAY_MS : now - DAY_MS / 2),
+    url: `https://example.com/${space}/${id}`,
+  };
+}
+
+function notified(id: string) {
+  const record = governanceRepository.get(id);
+  return record && {
+    new: record.notifiedNew,
+    closing: record.notifiedClosing,
+    final: record.notifiedFinal,
+  };
+}
+
+describe('GovernanceCollector', () => {
+  let collector: GovernanceCollector;
+  let snapshot: StubProvider;
+  let emitted: RawGovernanceData[];
+  const onGovernance = (data: RawGovernanceData) => emitted.push(data);
+
+  beforeEach(() => {
+    database.initialize();
+
+    // Only the stub providers registered below
+    const governance = getConfig().collectors.governance;
+    governance.snapshot.enabled = false;
+    governance.tally.enabled = false;
+
+    emitted = [];
+    eventBus.on('collector:governance', onGovernance);
+
+    collector = new GovernanceCollector();
+    snapshot = new StubProvider('snapshot');
+    collector.registerProvider(snapshot);
+  });
+
+  afterEach(() => {
+    eventBus.off('collector:governance', onGovernance);
+    database.close();
+  });
+
+  it('stores the first proposals of a space as its baseline', async () => {
+    snapshot.proposals = [
+      proposal('snapshot', 'aave.eth', 'closed', 'closed'),
+      proposal('snapshot', 'aave.eth', 'active', 'active'),
+    ];
+
+    await collector['doCollect']();
+
+    expect(notified('snapshot:closed')).toEqual({ new: true, closing: true, final: true });
+    // A vote still running can raise its closing reminder and outcome
+    expect(notified('snapshot:active')).toEqual({ new: true, closing: false, final: false });
+    expect(emitted[0]?.proposals).toHaveLength(2);
+  });
+
+  it('leaves proposals after the baseline to be notified', async () => {
+    snapshot.proposals = [proposal('snapshot', 'aave.eth', '1', 'closed')];
+    await collector['doCollect']();
+
+    snapshot.proposals = [
+      proposal('snapshot', 'aave.eth', '1', 'closed'),
+      proposal('snapshot', 'aave.eth', '2', 'active'),
+    ];
+    await collector['doCollect']();
+
+    expect(notified('snapshot:1')).toEqual({ new: true, closing: true, final: true });
+    expect(notified('snapshot:2')).toEqual({ new: false, closing: false, final: false });
+  });
+
+  it('takes a baseline for a space added later', async () => {
+    snapshot.proposals = [proposal('snapshot', 'aave.eth', '1', 'closed')];
+    await collector['doCollect']();
+
+    snapshot.proposals = [
+      proposal('snapshot', 'aave.eth', '2', 'closed'),
+      proposal('snapshot', 'uniswap', '3', 'closed'),
+    ];
+    await collector['doCollect']();
+
+    expect(notified('snapshot:2')).toEqual({ new: false, closing: false, final: false });
+    expect(notified('snapshot:3')).toEqual({ new: true, closing: true, final: true });
+  });
+
+  it('keeps baselines separate per provider', async () => {
+    snapshot.proposals = [proposal('snapshot', 'uniswap', '1', 'closed')];
+    await collector['doCollect']();
+
+    const tally = new StubProvider('tally');
+    collector.registerProvider(tally);
+    tally.proposals = [proposal('tally', 'uniswap', '1', 'executed')];
+    await collector['doCollect']();
+
+    expect(notified('tally:1')).toEqual({ new: true, closing: true, final: true });
+  });
+
+  it('still stores the other providers when one fails', async () => {
+    const failing = new StubProvider('tally');
+    failing.fetchProposals = async () => {
+      throw new Error('GraphQL error');
+    };
+    collector.registerProvider(failing);
+    snapshot.proposals = [proposal('snapshot', 'aave.eth', '1', 'active')];
+
+    await collector['doCollect']();
+
+    expect(notified('snapshot:1')).not.toBeNull();
+    expect(emitted[0]?.proposals.map((p) => p.id)).toEqual(['snapshot:1']);
+  });
+});
@@ -0,0 +1,106 @@
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { governanceRepository } from '../../storage/repositories/GovernanceRepository.js';
+import { getConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import { SnapshotProvider } from './providers/SnapshotProvider.js';
+import { TallyProvider } from './providers/TallyProvider.js';
+import type { GovernanceProvider } from './providers/GovernanceProvider.js';
+import type { RawGovernanceData, GovernanceProposal } from '../../core/types/sources.js';
+
+export class GovernanceCollector extends BaseCollector {
+  readonly name = 'Governance';
+  readonly source = AlertSource.SNAPSHOT;
+
+  private providers: GovernanceProvider[] = [];
+
+  constructor() {
+    const config = getConfig();
+    super(collectorSchedule(config.collectors.governance.pollingIntervalMs, config.collectors.governance));
+
+    const { snapshot, tally } = config.collectors.governance;
+
+    if (snapshot.enabled && snapshot.spaces.length > 0) {
+      this.registerProvider(new SnapshotProvider(snapshot.graphqlUrl, snapshot.spaces));
+    }
+
+    if (tally.enabled && tally.governors.length > 0) {
+      this.registerProvider(new TallyProvider(tally.graphqlUrl, tally.governors, tally.apiKey));
+    }
+  }
+
+  // Add a proposal source, e.g. a custom on-chain governor
+  registerProvider(provider: GovernanceProvider): void {
+    this.providers.push(provider);
+    this.logger.info(`Registered governance provider: ${provider.name}`);
+  }
+
+  protected async doCollect(): Promise<void> {
+    if (this.providers.length === 0) {
+      this.logger.warn('No governance providers configured');
+      return;
+    }
+
+    const proposals: GovernanceProposal[] = [];
+    let lastError: unknown;
+    let failures = 0;
+
+    // One failing provider shouldn't hold back the others
+    for (const provider of this.providers) {
+      try {
+        const fetched = await provider.fetchProposals();
+        this.storeProposals(provider.name, fetched);
+        proposals.push(...fetched);
+      } catch (error) {
+        failures++;
+        lastError = error;
+        this.logger.error(`Governance provider ${provider.name} failed:`, error);
+      }
+    }
+
+    if (failures === this.providers.length) {
+      throw lastError;
+    }
+
+    // Emit raw data event
+    const rawData: RawGovernanceData = {
+      source: 'GOVERNANCE',
+      timestamp: new Date(),
+      proposals,
+    };
+
+    eventBus.emit('collector:governance', rawData);
+
+    this.logger.info(
+      `Collected ${proposals.length} proposals from ${this.providers.length - failures} providers`
+    );
+  }
+
+  // The first proposals seen for a space establish its baseline, so adding a
+  // space to the config doesn't replay its history
+  private storeProposals(providerName: string, proposals: GovernanceProposal[]): void {
+    const bySpace = new Map<string, GovernanceProposal[]>();
+
+    for (const proposal of proposals) {
+      const list = bySpace.get(proposal.space) || [];
+      list.push(proposal);
+      bySpace.set(proposal.space, list);
+    }
+
+    for (const [space, spaceProposals] of bySpace) {
+      const isBaseline = !governanceRepository.hasSpace(providerName, space);
+      governanceRepository.upsertMany(spaceProposals, isBaseline);
+    }
+  }
+}
+
+export const governanceCollectorPlugin = defineCollector({
+  name: 'governance',
+  configSchema: collectorConfigSchemas.governance,
+  event: 'collector:governance',
+  create: () => new GovernanceCollector(),
+});
+
+export default GovernanceCollector;
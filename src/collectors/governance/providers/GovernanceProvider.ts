@@ -0,0 +1,14 @@
+import type { GovernanceProposal } from '../../../core/types/sources.js';
+
+// A source of governance proposals. Snapshot and Tally ship with the bot;
+// other on-chain governors can be added by implementing this interface and
+// registering the provider with the GovernanceCollector.
+export interface GovernanceProvider {
+  // Stable identifier, used as the proposal id prefix and in logs
+  readonly name: string;
+
+  // Fetch recent proposals for every space/governor this provider tracks
+  fetchProposals(): Promise<GovernanceProposal[]>;
+}
+
+export default GovernanceProvider;
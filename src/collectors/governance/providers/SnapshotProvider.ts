@@ -0,0 +1,102 @@
+import { getSnapshotClient } from '../../../services/HttpClient.js';
+import { getRateLimiter } from '../../../services/RateLimiter.js';
+import type { GovernanceProposal } from '../../../core/types/sources.js';
+import type { GovernanceProvider } from './GovernanceProvider.js';
+
+const PROPOSALS_QUERY = `
+  query Proposals($spaces: [String], $first: Int!) {
+    proposals(
+      first: $first
+      skip: 0
+      where: { space_in: $spaces }
+      orderBy: "created"
+      orderDirection: desc
+    ) {
+      id
+      title
+      body
+      choices
+      start
+      end
+      state
+      author
+      scores
+      link
+      space {
+        id
+        name
+      }
+    }
+  }
+`;
+
+// Snapshot GraphQL response types
+interface ProposalsResponse {
+  data?: {
+    proposals: Array<{
+      id: string;
+      title: string;
+      body?: string;
+      choices: string[];
+      start: number; // Unix seconds
+      end: number; // Unix seconds
+      state: 'pending' | 'active' | 'closed';
+      author?: string;
+      scores?: number[];
+      link?: string;
+      space: { id: string; name?: string };
+    }>;
+  };
+  errors?: Array<{ message: string }>;
+}
+
+export class SnapshotProvider implements GovernanceProvider {
+  readonly name = 'snapshot';
+
+  private client = getSnapshotClient();
+  private rateLimiter = getRateLimiter('snapshot');
+  private graphqlUrl: string;
+  private spaces: string[];
+  private pageSize: number;
+
+  constructor(graphqlUrl: string, spaces: string[], pageSize = 50) {
+    this.graphqlUrl = graphqlUrl;
+    this.spaces = spaces;
+    this.pageSize = pageSize;
+  }
+
+  async fetchProposals(): Promise<GovernanceProposal[]> {
+    if (this.spaces.length === 0) {
+      return [];
+    }
+
+    const response = await this.rateLimiter.execute(async () => {
+      return this.client.post<ProposalsResponse>(this.graphqlUrl, {
+        query: PROPOSALS_QUERY,
+        variables: { spaces: this.spaces, first: this.pageSize },
+      });
+    });
+
+    if (response.errors && response.errors.length > 0) {
+      throw new Error(`Snapshot query failed: ${response.errors.map((e) => e.message).join('; ')}`);
+    }
+
+    return (response.data?.proposals || []).map((p) => ({
+      id: `${this.name}:${p.id}`,
+      provider: this.name,
+      space: p.space.id,
+      spaceName: p.space.name,
+      title: p.title,
+      body: p.body,
+      state: p.state,
+      startAt: new Date(p.start * 1000),
+      endAt: new Date(p.end * 1000),
+      url: p.link || `https://snapshot.org/#/${p.space.id}/proposal/${p.id}`,
+      author: p.author,
+      choices: p.choices,
+      scores: p.scores,
+    }));
+  }
+}
+
+export default SnapshotProvider;
@@ -0,0 +1,142 @@
+import { getTallyClient } from '../../../services/HttpClient.js';
+import { getRateLimiter } from '../../../services/RateLimiter.js';
+import type {
+  GovernanceProposal,
+  GovernanceProposalState,
+} from '../../../core/types/sources.js';
+import type { GovernanceProvider } from './GovernanceProvider.js';
+
+const PROPOSALS_QUERY = `
+  query Proposals($input: ProposalsInput!) {
+    proposals(input: $input) {
+      nodes {
+        ... on Proposal {
+          id
+          onchainId
+          status
+          metadata {
+            title
+            description
+          }
+          start {
+            ... on Block { timestamp }
+            ... on BlocklessTimestamp { timestamp }
+          }
+          end {
+            ... on Block { timestamp }
+            ... on BlocklessTimestamp { timestamp }
+          }
+          events {
+            type
+            createdAt
+          }
+          governor {
+            id
+            name
+            organization {
+              slug
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Tally GraphQL response types
+interface ProposalsResponse {
+  data?: {
+    proposals: {
+      nodes: Array<{
+        id: string;
+        onchainId?: string;
+        status: string;
+        metadata: { title: string; description?: string };
+        start: { timestamp: string };
+        end: { timestamp: string };
+        events?: Array<{ type: string; createdAt: string }>;
+        governor: { id: string; name?: string; organization?: { slug: string } };
+      }>;
+    };
+  };
+  errors?: Array<{ message: string }>;
+}
+
+// Tally statuses that map onto our lifecycle; anything else is treated as closed
+const STATUS_MAP: Record<string, GovernanceProposalState> = {
+  pending: 'pending',
+  active: 'active',
+  succeeded: 'succeeded',
+  queued: 'queued',
+  executed: 'executed',
+  defeated: 'defeated',
+  canceled: 'canceled',
+  expired: 'defeated',
+  vetoed: 'defeated',
+};
+
+export class TallyProvider implements GovernanceProvider {
+  readonly name = 'tally';
+
+  private client;
+  private rateLimiter = getRateLimiter('tally');
+  private graphqlUrl: string;
+  private governors: string[];
+  private pageSize: number;
+
+  constructor(graphqlUrl: string, governors: string[], apiKey?: string, pageSize = 20) {
+    this.client = getTallyClient(apiKey);
+    this.graphqlUrl = graphqlUrl;
+    this.governors = governors;
+    this.pageSize = pageSize;
+  }
+
+  async fetchProposals(): Promise<GovernanceProposal[]> {
+    const proposals: GovernanceProposal[] = [];
+
+    // Tally filters by a single governor per query
+    for (const governorId of this.governors) {
+      const response = await this.rateLimiter.execute(async () => {
+        return this.client.post<ProposalsResponse>(this.graphqlUrl, {
+          query: PROPOSALS_QUERY,
+          variables: {
+            input: {
+              filters: { governorId },
+              sort: { sortBy: 'id', isDescending: true },
+              page: { limit: this.pageSize },
+            },
+          },
+        });
+      });
+
+      if (response.errors && response.errors.length > 0) {
+        throw new Error(`Tally query failed: ${response.errors.map((e) => e.message).join('; ')}`);
+      }
+
+      for (const p of response.data?.proposals.nodes || []) {
+        const executedEvent = p.events?.find((e) => e.type.toLowerCase() === 'executed');
+        const orgSlug = p.governor.organization?.slug;
+
+        proposals.push({
+          id: `${this.name}:${p.id}`,
+          provider: this.name,
+          space: governorId,
+          spaceName: p.governor.name,
+          title: p.metadata.title,
+          body: p.metadata.description,
+          state: STATUS_MAP[p.status.toLowerCase()] ?? 'closed',
+          startAt: new Date(p.start.timestamp),
+          endAt: new Date(p.end.timestamp),
+          executedAt: executedEvent ? new Date(executedEvent.createdAt) : undefined,
+          url: orgSlug
+            ? `https://www.tally.xyz/gov/${orgSlug}/proposal/${p.onchainId ?? p.id}`
+            : 'https://www.tally.xyz',
+        });
+      }
+    }
+
+    return proposals;
+  }
+}
+
+export default TallyProvider;
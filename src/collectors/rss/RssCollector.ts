@@ -0,0 +1,248 @@
+import { createHash } from 'crypto';
+import { XMLParser } from 'fast-xml-parser';
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { getRssClient } from '../../services/HttpClient.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { rssEntryRepository } from '../../storage/repositories/RssEntryRepository.js';
+import { getConfig, type AppConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type { RawArticle } from '../../core/types/sources.js';
+
+type FeedConfig = AppConfig['collectors']['rss']['feeds'][number];
+
+// Parsed entry before seen-tracking
+interface FeedEntry {
+  id: string;
+  title: string;
+  link: string;
+  author?: string;
+  summary: string;
+  categories: string[];
+  publishedAt?: Date;
+}
+
+const MAX_SUMMARY_LENGTH = 1000;
+
+// Seen entries are kept well past any feed's retention so they don't resurface
+const SEEN_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+export class RssCollector extends BaseCollector {
+  readonly name = 'RSS';
+  readonly source = AlertSource.RSS;
+
+  private client = getRssClient();
+  private rateLimiter = getRateLimiter('rss');
+  private parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    textNodeName: '#text',
+    // Keep ids, titles and dates as strings
+    parseTagValue: false,
+    isArray: (name) => ['item', 'entry', 'link', 'category'].includes(name),
+  });
+
+  constructor() {
+    const config = getConfig();
+    super(collectorSchedule(config.collectors.rss.pollingIntervalMs, config.collectors.rss));
+  }
+
+  protected async doCollect(): Promise<void> {
+    const config = getConfig();
+    const { feeds, maxEntryAgeHours } = config.collectors.rss;
+    const activeFeeds = feeds.filter((f) => f.enabled);
+
+    if (activeFeeds.length === 0) {
+      this.logger.warn('No RSS feeds configured');
+      return;
+    }
+
+    const minPublishedAt = Date.now() - maxEntryAgeHours * 60 * 60 * 1000;
+    let lastError: unknown;
+    let failures = 0;
+    let emitted = 0;
+
+    // One broken feed shouldn't hold back the others
+    for (const feed of activeFeeds) {
+      try {
+        const entries = await this.fetchFeed(feed);
+
+        const refs = entries.map((e) => ({ ...e, feedUrl: feed.url }));
+
+        // The first fetch of a feed establishes its baseline without alerting
+        if (!rssEntryRepository.hasFeed(feed.url)) {
+          const baseline = rssEntryRepository.insertNew(refs);
+          this.logger.info(`Baseline for feed ${feed.name}: ${baseline.length} entries`);
+          continue;
+        }
+
+        // Entries are recorded once their article is handled, so ones held
+        // back by a cooldown come round again on the next poll
+        for (const entry of rssEntryRepository.getUnseen(refs)) {
+          if (entry.publishedAt && entry.publishedAt.getTime() < minPublishedAt) {
+            this.logger.debug(`Entry too old, skipped: ${entry.title}`);
+            rssEntryRepository.insertNew([entry]);
+            continue;
+          }
+
+          const article: RawArticle = {
+            source: 'RSS',
+            timestamp: new Date(),
+            entryId: entry.id,
+            feedName: feed.name,
+            feedUrl: feed.url,
+            title: entry.title,
+            link: entry.link,
+            author: entry.author,
+            summary: entry.summary,
+            categories: entry.categories,
+            publishedAt: entry.publishedAt,
+            trustedCategories: feed.trustedCategories,
+          };
+
+          eventBus.emit('collector:article', article);
+          emitted++;
+        }
+      } catch (error) {
+        failures++;
+        lastError = error;
+        this.logger.error(`Feed ${feed.name} failed:`, error);
+      }
+    }
+
+    if (failures === activeFeeds.length) {
+      throw lastError;
+    }
+
+    rssEntryRepository.pruneSeenBefore(new Date(Date.now() - SEEN_RETENTION_MS));
+
+    this.logger.info(
+      `Collected ${emitted} new articles from ${activeFeeds.length - failures} feeds`
+    );
+  }
+
+  private async fetchFeed(feed: FeedConfig): Promise<FeedEntry[]> {
+    const xml = await this.rateLimiter.execute(async () => {
+      return this.client.get<string>(feed.url, { responseType: 'text' });
+    });
+
+    const doc = this.parser.parse(xml);
+
+    // RSS 2.0
+    if (doc.rss?.channel) {
+      return (doc.rss.channel.item || []).map((item: any) =>
+        this.toEntry(feed, {
+          guid: this.text(item.guid),
+          title: this.text(item.title),
+          link: this.text(item.link?.[0]),
+          author: this.text(item['dc:creator'] ?? item.author),
+          content: this.text(item['content:encoded'] ?? item.description),
+          categories: (item.category || []).map((c: unknown) => this.text(c)),
+          published: this.text(item.pubDate ?? item['dc:date']),
+        })
+      );
+    }
+
+    // Atom
+    if (doc.feed) {
+      return (doc.feed.entry || []).map((entry: any) => {
+        const links: any[] = entry.link || [];
+        const link = links.find((l) => !l['@_rel'] || l['@_rel'] === 'alternate') ?? links[0];
+
+        return this.toEntry(feed, {
+          guid: this.text(entry.id),
+          title: this.text(entry.title),
+          link: link?.['@_href'] ?? '',
+          author: this.text(entry.author?.name),
+          content: this.text(entry.summary ?? entry.content),
+          categories: (entry.category || []).map((c: any) => c['@_term'] ?? this.text(c)),
+          published: this.text(entry.published ?? entry.updated),
+        });
+      });
+    }
+
+    // RSS 1.0 (RDF)
+    if (doc['rdf:RDF']) {
+      return (doc['rdf:RDF'].item || []).map((item: any) =>
+        this.toEntry(feed, {
+          guid: item['@_rdf:about'],
+          title: this.text(item.title),
+          link: this.text(item.link?.[0]),
+          author: this.text(item['dc:creator']),
+          content: this.text(item.description),
+          categories: [],
+          published: this.text(item['dc:date']),
+        })
+      );
+    }
+
+    throw new Error(`Unrecognized feed format: ${feed.url}`);
+  }
+
+  private toEntry(
+    feed: FeedConfig,
+    raw: {
+      guid?: string;
+      title?: string;
+      link?: string;
+      author?: string;
+      content?: string;
+      categories: Array<string | undefined>;
+      published?: string;
+    }
+  ): FeedEntry {
+    const title = this.stripHtml(raw.title || '');
+    const link = raw.link || '';
+    const published = raw.published ? new Date(raw.published) : undefined;
+
+    return {
+      id: this.entryId(feed.url, raw.guid || link || title),
+      title,
+      link,
+      author: raw.author || undefined,
+      summary: this.stripHtml(raw.content || '').substring(0, MAX_SUMMARY_LENGTH),
+      categories: raw.categories.filter((c): c is string => !!c),
+      publishedAt: published && !isNaN(published.getTime()) ? published : undefined,
+    };
+  }
+
+  private entryId(feedUrl: string, key: string): string {
+    return createHash('sha256').update(`${feedUrl}:${key}`).digest('hex').substring(0, 32);
+  }
+
+  // Parsed nodes are either plain text or objects with attributes and a text node
+  private text(node: unknown): string | undefined {
+    if (node === undefined || node === null) {
+      return undefined;
+    }
+    if (typeof node === 'object') {
+      const value = (node as Record<string, unknown>)['#text'];
+      return value !== undefined ? String(value).trim() : undefined;
+    }
+    return String(node).trim();
+  }
+
+  private stripHtml(html: string): string {
+    return html
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
+
+export const rssCollectorPlugin = defineCollector({
+  name: 'rss',
+  configSchema: collectorConfigSchemas.rss,
+  event: 'collector:article',
+  create: () => new RssCollector(),
+});
+
+export default RssCollector;
@@ -0,0 +1,136 @@
+import type { Context } from 'telegraf';
+import type { Message, MessageEntity } from 'telegraf/types';
+import { BaseCollector } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { getTelegramBot } from '../../telegram/TelegramBot.js';
+import { getConfig, type AppConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type { RawChannelPost } from '../../core/types/sources.js';
+
+type ChannelConfig = AppConfig['collectors']['telegramChannels']['channels'][number];
+
+export class TelegramChannelCollector extends BaseCollector {
+  readonly name = 'Telegram Channels';
+  readonly source = AlertSource.TELEGRAM;
+
+  private handlerRegistered = false;
+
+  constructor() {
+    // Posts are pushed through the bot's update loop, nothing is polled
+    super(60000);
+  }
+
+  override async start(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Telegram channel collector is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    this.logger.info('Starting Telegram channel collector');
+
+    // Telegraf handlers can't be removed, so stop() just makes this one a no-op
+    if (!this.handlerRegistered) {
+      getTelegramBot()
+        .getBot()
+        .on('channel_post', (ctx) => this.handleChannelPost(ctx));
+      this.handlerRegistered = true;
+    }
+
+    eventBus.emit('collector:started', { name: this.name });
+  }
+
+  protected async doCollect(): Promise<void> {
+    // Updates are pushed by Telegram; nothing to poll
+  }
+
+  private handleChannelPost(ctx: Context): void {
+    const post = ctx.channelPost as Message | undefined;
+
+    if (!this.isRunning || !post || post.chat.type !== 'channel') {
+      return;
+    }
+
+    const text = 'text' in post ? post.text : 'caption' in post ? post.caption : undefined;
+    const entities =
+      ('entities' in post ? post.entities : 'caption_entities' in post ? post.caption_entities : undefined) || [];
+
+    if (!text) {
+      return;
+    }
+
+    const chatId = post.chat.id.toString();
+    const username = post.chat.username;
+    const channel = this.findChannel(chatId, username);
+
+    if (channel?.muted) {
+      return;
+    }
+
+    if (!channel && !getConfig().collectors.telegramChannels.acceptUnlisted) {
+      this.logger.debug(`Ignoring post from unlisted channel ${username ?? chatId}`);
+      return;
+    }
+
+    const rawPost: RawChannelPost = {
+      source: 'TELEGRAM',
+      timestamp: new Date(),
+      chatId,
+      messageId: post.message_id,
+      channelTitle: post.chat.title,
+      channelUsername: username,
+      text,
+      hashtags: this.entityValues(text, entities, 'hashtag').map((h) => h.replace(/^#/, '')),
+      urls: [
+        ...this.entityValues(text, entities, 'url'),
+        ...entities
+          .filter((e): e is MessageEntity.TextLinkMessageEntity => e.type === 'text_link')
+          .map((e) => e.url),
+      ],
+      link: this.messageLink(chatId, post.message_id, username),
+      postedAt: new Date(post.date * 1000),
+      trustedCategories: channel?.trustedCategories ?? [],
+    };
+
+    this.lastCollectionAt = new Date();
+    this.totalCollections++;
+
+    eventBus.emit('collector:channelPost', rawPost);
+  }
+
+  private findChannel(chatId: string, username?: string): ChannelConfig | undefined {
+    const { channels } = getConfig().collectors.telegramChannels;
+    const usernameLower = username?.toLowerCase();
+
+    return channels.find(
+      (c) =>
+        c.chatId === chatId ||
+        (usernameLower !== undefined && c.username?.replace(/^@/, '').toLowerCase() === usernameLower)
+    );
+  }
+
+  private entityValues(text: string, entities: MessageEntity[], type: MessageEntity['type']): string[] {
+    return entities
+      .filter((e) => e.type === type)
+      .map((e) => text.substring(e.offset, e.offset + e.length));
+  }
+
+  // Public channels link by username; private ones by internal id without the -100 prefix
+  private messageLink(chatId: string, messageId: number, username?: string): string {
+    if (username) {
+      return `https://t.me/${username}/${messageId}`;
+    }
+    return `https://t.me/c/${chatId.replace(/^-100/, '')}/${messageId}`;
+  }
+}
+
+export const telegramChannelsCollectorPlugin = defineCollector({
+  name: 'telegramChannels',
+  configSchema: collectorConfigSchemas.telegramChannels,
+  event: 'collector:channelPost',
+  create: () => new TelegramChannelCollector(),
+});
+
+export default TelegramChannelCollector;
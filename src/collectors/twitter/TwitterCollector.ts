@@ -1,46 +1,82 @@
-import { TwitterApi, ETwitterStreamEvent, TweetV2SingleStreamResult } from 'twitter-api-v2';
-import { BaseCollector } from '../BaseCollector.js';
+import { createHash } from 'crypto';
+import {
+  TwitterApi,
+  ETwitterStreamEvent,
+  TweetV2SingleStreamResult,
+  type ApiV2Includes,
+  type TweetV2,
+  type Tweetv2FieldsParams,
+} from 'twitter-api-v2';
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import {
+  buildTwitterQueries,
+  planStreamRules,
+  type StreamRulePlan,
+  type TwitterQuery,
+} from './queries.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
 import { eventBus } from '../../core/events/EventBus.js';
-import { getConfig, getKeywords } from '../../config/index.js';
-import { AlertSource, AlertCategory } from '../../core/types/alerts.js';
-import type { RawTweet, TwitterRule } from '../../core/types/sources.js';
+import { systemStateRepository } from '../../storage/repositories/SystemStateRepository.js';
+import { getConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type { RawTweet, ReferencedTweet, TwitterRule } from '../../core/types/sources.js';
+
+export interface RuleSyncResult {
+  plan: StreamRulePlan;
+  added: number;
+  deleted: number;
+  unchanged: number;
+  syncedAt: Date;
+}
+
+const TWEET_FIELDS: Partial<Tweetv2FieldsParams> = {
+  'tweet.fields': ['created_at', 'author_id', 'public_metrics', 'entities', 'referenced_tweets'],
+  'user.fields': ['username', 'name'],
+  expansions: ['author_id', 'referenced_tweets.id', 'referenced_tweets.id.author_id'],
+};
 
 export class TwitterCollector extends BaseCollector {
   readonly name = 'Twitter';
   readonly source = AlertSource.TWITTER;
 
   private client: TwitterApi;
+  private rateLimiter = getRateLimiter('twitter');
   private stream: ReturnType<TwitterApi['v2']['searchStream']> | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts: number;
+  private lastRuleSync: RuleSyncResult | null = null;
 
   constructor() {
     const config = getConfig();
-    // Twitter uses streaming, so we set a long interval for health checks
-    super(60000);
+    // Only used in polling mode; the stream pushes tweets as they arrive
+    super(collectorSchedule(config.collectors.twitter.pollIntervalMs, config.collectors.twitter));
 
     this.client = new TwitterApi(config.collectors.twitter.bearerToken);
     this.maxReconnectAttempts = config.collectors.twitter.maxReconnectAttempts;
   }
 
   async start(): Promise<void> {
+    const config = getConfig();
+
+    // Polling runs on the base collector's interval loop
+    if (!config.collectors.twitter.useFilteredStream) {
+      await super.start();
+      return;
+    }
+
     if (this.isRunning) {
       this.logger.warn('Twitter collector is already running');
       return;
     }
 
     this.isRunning = true;
+    this.reconnectAttempts = 0;
     this.logger.info('Starting Twitter collector');
 
-    const config = getConfig();
-
-    if (config.collectors.twitter.useFilteredStream) {
-      await this.setupStreamRules();
-      await this.startStream();
-    } else {
-      // Fallback to polling (not recommended for production)
-      await super.start();
-    }
+    await this.syncStreamRules();
+    await this.startStream();
 
     eventBus.emit('collector:started', { name: this.name });
   }
@@ -58,11 +94,7 @@ export class TwitterCollector extends BaseCollector {
     this.logger.info('Connecting to Twitter filtered stream...');
 
     try {
-      this.stream = await this.client.v2.searchStream({
-        'tweet.fields': ['created_at', 'author_id', 'public_metrics', 'entities', 'referenced_tweets'],
-        'user.fields': ['username', 'name'],
-        expansions: ['author_id', 'referenced_tweets.id'],
-      });
+      this.stream = await this.client.v2.searchStream({ ...TWEET_FIELDS });
 
       this.stream.autoReconnect = true;
       this.stream.autoReconnectRetries = this.maxReconnectAttempts;
@@ -100,10 +132,11 @@ export class TwitterCollector extends BaseCollector {
     this.reconnectAttempts++;
 
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      this.logger.error(
-        `Max reconnect attempts (${this.maxReconnectAttempts}) reached. Stopping collector.`
+      // The supervisor restarts the collector with a longer backoff
+      const message = error instanceof Error ? error.message : String(error);
+      this.fail(
+        new Error(`Max reconnect attempts (${this.maxReconnectAttempts}) reached: ${message}`)
       );
-      this.stop();
       return;
     }
 
@@ -111,94 +144,100 @@ export class TwitterCollector extends BaseCollector {
     const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
     this.logger.info(`Reconnecting in ${delay / 1000}s (attempt ${this.reconnectAttempts})`);
 
+    const stream = this.stream;
     await new Promise((resolve) => setTimeout(resolve, delay));
 
-    if (this.isRunning) {
+    // A restart while waiting has already replaced the stream
+    if (this.isRunning && this.stream === stream) {
       await this.startStream();
     }
   }
 
-  // Set up stream rules based on keywords config
-  private async setupStreamRules(): Promise<void> {
-    this.logger.info('Setting up Twitter stream rules...');
-
-    const keywords = getKeywords();
+  // Bring the stream's rules in line with the planned rules, adding and
+  // deleting only the ones that changed
+  private async syncStreamRules(): Promise<RuleSyncResult> {
     const config = getConfig();
+    const { maxStreamRules, maxRuleLength } = config.collectors.twitter;
+    const plan = planStreamRules(maxStreamRules, maxRuleLength);
 
-    // Get existing rules
-    const existingRules = await this.client.v2.streamRules();
-    const existingIds = existingRules.data?.map((r) => r.id) || [];
-
-    // Delete existing rules
-    if (existingIds.length > 0) {
-      await this.client.v2.updateStreamRules({
-        delete: { ids: existingIds },
-      });
-      this.logger.debug(`Deleted ${existingIds.length} existing rules`);
+    if (plan.dropped.length > 0 || plan.skipped.length > 0) {
+      this.logger.warn(
+        `Stream rule budget exceeded: ${plan.dropped.length} rules dropped, ${plan.skipped.length} terms too long`,
+        { dropped: plan.dropped.map((r) => r.tag), skipped: plan.skipped }
+      );
     }
 
-    // Build new rules
-    const rules: Array<{ value: string; tag: string }> = [];
+    const existingRules = await this.client.v2.streamRules();
+    const existing = existingRules.data || [];
 
-    // Add rules for each category
-    for (const [category, categoryKeywords] of Object.entries(keywords.categories)) {
-      const primaryKeywords = categoryKeywords.primary.slice(0, 5); // Limit to avoid rule length limits
+    const ruleKey = (rule: { value: string; tag?: string }) => `${rule.tag ?? ''}\n${rule.value}`;
+    const desiredKeys = new Set(plan.rules.map(ruleKey));
+    const existingKeys = new Set(existing.map(ruleKey));
 
-      if (primaryKeywords.length > 0) {
-        // Create OR query for keywords
-        const keywordQuery = primaryKeywords
-          .map((k) => `"${k}"`)
-          .join(' OR ');
+    const toDelete = existing.filter((r) => !desiredKeys.has(ruleKey(r)));
+    const toAdd = plan.rules.filter((r) => !existingKeys.has(ruleKey(r)));
 
-        rules.push({
-          value: `(${keywordQuery}) lang:en -is:retweet`,
-          tag: category,
-        });
-      }
+    // Delete first so the additions never exceed the rule cap
+    if (toDelete.length > 0) {
+      await this.client.v2.updateStreamRules({
+        delete: { ids: toDelete.map((r) => r.id) },
+      });
     }
 
-    // Add rules for priority accounts
-    const priorityAccounts = config.collectors.twitter.priorityAccounts;
-    if (priorityAccounts.length > 0) {
-      const accountsChunks = this.chunkArray(priorityAccounts, 10);
-
-      for (let i = 0; i < accountsChunks.length; i++) {
-        const chunk = accountsChunks[i];
-        const accountsQuery = chunk?.map((a) => `from:${a}`).join(' OR ') || '';
-
-        if (accountsQuery) {
-          rules.push({
-            value: `(${accountsQuery}) -is:retweet`,
-            tag: `priority_accounts_${i + 1}`,
-          });
-        }
-      }
+    if (toAdd.length > 0) {
+      await this.client.v2.updateStreamRules({
+        add: toAdd.map((r) => ({ value: r.value, tag: r.tag })),
+      });
     }
 
-    // Add rules (Twitter limits to 25 rules for free tier)
-    const rulesToAdd = rules.slice(0, 25);
+    this.lastRuleSync = {
+      plan,
+      added: toAdd.length,
+      deleted: toDelete.length,
+      unchanged: plan.rules.length - toAdd.length,
+      syncedAt: new Date(),
+    };
 
-    if (rulesToAdd.length > 0) {
-      const result = await this.client.v2.updateStreamRules({
-        add: rulesToAdd,
-      });
+    this.logger.info(
+      `Stream rules synced: ${toAdd.length} added, ${toDelete.length} deleted, ${this.lastRuleSync.unchanged} unchanged`
+    );
 
-      this.logger.info(`Added ${rulesToAdd.length} stream rules`);
-      this.logger.debug('Rules:', rulesToAdd.map((r) => r.tag));
-    }
+    return this.lastRuleSync;
+  }
+
+  // Result of the last stream rule sync, if the stream has been started
+  getRuleSyncStatus(): RuleSyncResult | null {
+    return this.lastRuleSync;
   }
 
   // Process incoming tweet
   private processTweet(streamResult: TweetV2SingleStreamResult): void {
-    const tweet = streamResult.data;
-    const includes = streamResult.includes;
     const matchingRules = streamResult.matching_rules || [];
 
+    const rawTweet = this.toRawTweet(
+      streamResult.data,
+      streamResult.includes,
+      matchingRules.map((r) => ({
+        id: r.id,
+        tag: r.tag || '',
+        value: '',
+      }))
+    );
+
+    // Emit the tweet
+    eventBus.emit('collector:tweet', rawTweet);
+
+    this.totalCollections++;
+    this.lastCollectionAt = new Date();
+
+    this.logger.debug(`Tweet from @${rawTweet.authorUsername}: ${rawTweet.text.substring(0, 50)}...`);
+  }
+
+  private toRawTweet(tweet: TweetV2, includes: ApiV2Includes | undefined, matchedRules: TwitterRule[]): RawTweet {
     // Get author info
     const author = includes?.users?.find((u) => u.id === tweet.author_id);
 
-    // Build raw tweet object
-    const rawTweet: RawTweet = {
+    return {
       source: 'TWITTER',
       timestamp: new Date(tweet.created_at || Date.now()),
       tweetId: tweet.id,
@@ -215,79 +254,148 @@ export class TwitterCollector extends BaseCollector {
       hashtags: tweet.entities?.hashtags?.map((h) => h.tag) || [],
       mentions: tweet.entities?.mentions?.map((m) => m.username) || [],
       urls: tweet.entities?.urls?.map((u) => u.expanded_url || u.url) || [],
-      matchedRules: matchingRules.map((r) => ({
-        id: r.id,
-        tag: r.tag || '',
-        value: '',
-      })),
+      matchedRules,
+      referencedTweets: this.resolveReferencedTweets(tweet, includes),
     };
+  }
 
-    // Emit the tweet
-    eventBus.emit('collector:tweet', rawTweet);
+  // Quoted and replied-to tweets come back as expansions; retweets are skipped
+  // downstream so their originals aren't resolved
+  private resolveReferencedTweets(tweet: TweetV2, includes: ApiV2Includes | undefined): ReferencedTweet[] {
+    const resolved: ReferencedTweet[] = [];
 
-    this.totalCollections++;
-    this.lastCollectionAt = new Date();
+    for (const ref of tweet.referenced_tweets || []) {
+      if (ref.type !== 'quoted' && ref.type !== 'replied_to') {
+        continue;
+      }
 
-    this.logger.debug(`Tweet from @${rawTweet.authorUsername}: ${rawTweet.text.substring(0, 50)}...`);
+      // Missing when the referenced tweet is deleted or protected
+      const referenced = includes?.tweets?.find((t) => t.id === ref.id);
+      if (!referenced) {
+        continue;
+      }
+
+      const author = includes?.users?.find((u) => u.id === referenced.author_id);
+
+      resolved.push({
+        type: ref.type,
+        tweetId: referenced.id,
+        authorId: referenced.author_id || '',
+        authorUsername: author?.username,
+        text: referenced.text,
+        hashtags: referenced.entities?.hashtags?.map((h) => h.tag) || [],
+      });
+    }
+
+    return resolved;
   }
 
-  // Fallback polling implementation (used if stream is disabled)
+  // Polling mode: recent search over every category and the priority
+  // accounts, resuming each query from its stored since_id
   protected async doCollect(): Promise<void> {
-    // This is a fallback - streaming is preferred
-    this.logger.warn('Using polling mode - filtered stream is recommended');
-
     const config = getConfig();
-    const keywords = getKeywords();
+    const { queries, skipped } = buildTwitterQueries(config.collectors.twitter.maxQueryLength);
 
-    // Search for recent tweets with keywords
-    const query = keywords.categories[AlertCategory.SECURITY]?.primary.slice(0, 3).join(' OR ') || '';
+    if (skipped.length > 0) {
+      this.logger.warn(`Skipped ${skipped.length} search terms longer than the query limit`, { skipped });
+    }
 
-    if (!query) {
+    if (queries.length === 0) {
+      this.logger.warn('No Twitter search queries configured');
       return;
     }
 
-    const result = await this.client.v2.search(query, {
-      'tweet.fields': ['created_at', 'author_id', 'public_metrics', 'entities'],
-      'user.fields': ['username', 'name'],
-      expansions: ['author_id'],
-      max_results: 10,
-    });
-
-    for (const tweet of result.data?.data || []) {
-      const author = result.includes?.users?.find((u) => u.id === tweet.author_id);
-
-      const rawTweet: RawTweet = {
-        source: 'TWITTER',
-        timestamp: new Date(tweet.created_at || Date.now()),
-        tweetId: tweet.id,
-        authorId: tweet.author_id || '',
-        authorUsername: author?.username || '',
-        authorDisplayName: author?.name || '',
-        text: tweet.text,
-        isRetweet: false,
-        isQuote: false,
-        isReply: false,
-        replyCount: tweet.public_metrics?.reply_count || 0,
-        retweetCount: tweet.public_metrics?.retweet_count || 0,
-        likeCount: tweet.public_metrics?.like_count || 0,
-        hashtags: tweet.entities?.hashtags?.map((h) => h.tag) || [],
-        mentions: tweet.entities?.mentions?.map((m) => m.username) || [],
-        urls: tweet.entities?.urls?.map((u) => u.expanded_url || u.url) || [],
-        matchedRules: [],
-      };
+    // A tweet can match several queries; emit it once per poll
+    const seen = new Set<string>();
+    let lastError: unknown;
+    let failures = 0;
+
+    for (const query of queries) {
+      try {
+        await this.pollQuery(query, seen);
+      } catch (error) {
+        failures++;
+        lastError = error;
+        this.logger.error(`Search for ${query.tag} failed:`, error);
+      }
+    }
 
-      eventBus.emit('collector:tweet', rawTweet);
+    if (failures === queries.length) {
+      throw lastError;
     }
+
+    this.logger.info(`Polled ${queries.length - failures} search queries, ${seen.size} new tweets`);
   }
 
-  // Utility to chunk array
-  private chunkArray<T>(array: T[], size: number): T[][] {
-    const chunks: T[][] = [];
-    for (let i = 0; i < array.length; i += size) {
-      chunks.push(array.slice(i, i + size));
+  private async pollQuery(query: TwitterQuery, seen: Set<string>): Promise<void> {
+    const config = getConfig();
+    const cursorKey = `twitter:since_id:${createHash('sha256').update(query.value).digest('hex').slice(0, 16)}`;
+    const sinceId = systemStateRepository.get(cursorKey);
+
+    // A new query starts from the latest tweet instead of replaying the last 7 days
+    if (sinceId === null) {
+      const page = await this.search(query.value, { max_results: 10 });
+      if (page.meta?.newest_id) {
+        systemStateRepository.set(cursorKey, page.meta.newest_id);
+        this.logger.info(`Initialized cursor for ${query.tag} at ${page.meta.newest_id}`);
+      }
+      return;
+    }
+
+    const tweets: RawTweet[] = [];
+    const matchedRule: TwitterRule = { id: cursorKey, tag: query.tag, value: query.value };
+    let newestId: string | undefined;
+    let nextToken: string | undefined;
+    let pages = 0;
+
+    // Results come newest first; page back until reaching since_id
+    do {
+      const page = await this.search(query.value, {
+        since_id: sinceId,
+        max_results: 100,
+        next_token: nextToken,
+      });
+      pages++;
+
+      newestId ??= page.meta?.newest_id;
+      nextToken = page.meta?.next_token;
+
+      for (const tweet of page.data || []) {
+        tweets.push(this.toRawTweet(tweet, page.includes, [matchedRule]));
+      }
+    } while (nextToken && pages < config.collectors.twitter.maxPagesPerQuery);
+
+    if (nextToken) {
+      this.logger.warn(`${query.tag} has more than ${pages} pages of new tweets; older ones were skipped`);
+    }
+
+    // Emit in chronological order
+    for (const rawTweet of tweets.reverse()) {
+      if (seen.has(rawTweet.tweetId)) {
+        continue;
+      }
+      seen.add(rawTweet.tweetId);
+      eventBus.emit('collector:tweet', rawTweet);
+    }
+
+    if (newestId) {
+      systemStateRepository.set(cursorKey, newestId);
     }
-    return chunks;
+  }
+
+  private async search(query: string, params: { since_id?: string; max_results: number; next_token?: string }) {
+    const paginator = await this.rateLimiter.execute(() =>
+      this.client.v2.search(query, { ...TWEET_FIELDS, ...params })
+    );
+    return paginator.data;
   }
 }
 
+export const twitterCollectorPlugin = defineCollector({
+  name: 'twitter',
+  configSchema: collectorConfigSchemas.twitter,
+  event: 'collector:tweet',
+  create: () => new TwitterCollector(),
+});
+
 export default TwitterCollector;
@@ -0,0 +1,135 @@
+import { getConfig, getKeywords } from '../../config/index.js';
+import type { AlertCategory } from '../../core/types/alerts.js';
+
+// A search query or stream rule, tagged with what it covers
+export interface TwitterQuery {
+  tag: string;
+  value: string;
+  clauses: string[];
+}
+
+export interface PackedQueries {
+  queries: TwitterQuery[];
+  // Clauses too long to fit into a query on their own
+  skipped: string[];
+}
+
+const KEYWORD_SUFFIX = 'lang:en -is:retweet';
+const ACCOUNT_SUFFIX = '-is:retweet';
+
+// Greedily pack OR-ed clauses into as few queries as fit within maxLength
+export function packClauses(
+  tagPrefix: string,
+  clauses: string[],
+  suffix: string,
+  maxLength: number
+): PackedQueries {
+  const queries: TwitterQuery[] = [];
+  const skipped: string[] = [];
+  let current: string[] = [];
+
+  const render = (parts: string[]) => `(${parts.join(' OR ')}) ${suffix}`;
+
+  const flush = () => {
+    if (current.length > 0) {
+      queries.push({ tag: `${tagPrefix}_${queries.length + 1}`, value: render(current), clauses: current });
+      current = [];
+    }
+  };
+
+  for (const clause of clauses) {
+    if (render([clause]).length > maxLength) {
+      skipped.push(clause);
+      continue;
+    }
+
+    if (render([...current, clause]).length > maxLength) {
+      flush();
+    }
+
+    current.push(clause);
+  }
+
+  flush();
+
+  return { queries, skipped };
+}
+
+// Primary keywords of every category, followed by the priority and category
+// accounts, split so that no query exceeds maxLength
+export function buildTwitterQueries(maxLength: number): PackedQueries {
+  const keywords = getKeywords();
+  const config = getConfig();
+
+  const queries: TwitterQuery[] = [];
+  const skipped: string[] = [];
+
+  for (const [category, categoryKeywords] of Object.entries(keywords.categories)) {
+    const clauses = [...new Set(categoryKeywords.primary.map((k) => `"${k}"`))];
+    const packed = packClauses(category, clauses, KEYWORD_SUFFIX, maxLength);
+
+    queries.push(...packed.queries);
+    skipped.push(...packed.skipped);
+  }
+
+  // Usernames are case-insensitive; keep the first spelling seen
+  const accounts = new Map<string, string>();
+  for (const account of [
+    ...config.collectors.twitter.priorityAccounts,
+    ...Object.values(keywords.categories).flatMap((c) => c.accounts),
+  ]) {
+    const username = account.replace(/^@/, '');
+    if (!accounts.has(username.toLowerCase())) {
+      accounts.set(username.toLowerCase(), username);
+    }
+  }
+
+  const packed = packClauses(
+    'priority_accounts',
+    [...accounts.values()].map((a) => `from:${a}`),
+    ACCOUNT_SUFFIX,
+    maxLength
+  );
+
+  queries.push(...packed.queries);
+  skipped.push(...packed.skipped);
+
+  return { queries, skipped };
+}
+
+export interface StreamRulePlan {
+  rules: TwitterQuery[];
+  // Rules that didn't fit in the rule count budget
+  dropped: TwitterQuery[];
+  // Clauses too long to fit into any rule
+  skipped: string[];
+  maxRules: number;
+  maxRuleLength: number;
+}
+
+// Fit the queries into the stream's rule budget. Priority accounts go first,
+// then categories by configured alert priority, so the least important
+// keywords are the ones dropped when the budget runs out.
+export function planStreamRules(maxRules: number, maxRuleLength: number): StreamRulePlan {
+  const config = getConfig();
+  const { queries, skipped } = buildTwitterQueries(maxRuleLength);
+
+  const rank = (query: TwitterQuery): number => {
+    if (query.tag.startsWith('priority_accounts')) {
+      return Number.MAX_SAFE_INTEGER;
+    }
+    const category = query.tag.replace(/_\d+$/, '') as AlertCategory;
+    return config.alerts.categories[category]?.priority ?? 0;
+  };
+
+  // Array.prototype.sort is stable, so packing order is kept within a rank
+  const ordered = [...queries].sort((a, b) => rank(b) - rank(a));
+
+  return {
+    rules: ordered.slice(0, maxRules),
+    dropped: ordered.slice(maxRules),
+    skipped,
+    maxRules,
+    maxRuleLength,
+  };
+}
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+import { BaseCollector, collectorSchedule } from '../BaseCollector.js';
+import { defineCollector } from '../CollectorRegistry.js';
+import { getDefillamaClient } from '../../services/HttpClient.js';
+import { getRateLimiter } from '../../services/RateLimiter.js';
+import { eventBus } from '../../core/events/EventBus.js';
+import { tokenUnlockRepository } from '../../storage/repositories/TokenUnlockRepository.js';
+import { getConfig } from '../../config/index.js';
+import { collectorConfigSchemas } from '../../config/schema.js';
+import { AlertSource } from '../../core/types/alerts.js';
+import type { RawUnlockData, TokenUnlock } from '../../core/types/sources.js';
+
+// DeFiLlama emissions response types. A custom feed must return the same shape.
+interface EmissionsResponse {
+  name: string;
+  token?: string; // e.g. "coingecko:arbitrum"
+  gecko_id?: string | null;
+  symbol?: string;
+  circSupply?: number;
+  maxSupply?: number;
+  totalLocked?: number;
+  events?: Array<{
+    description?: string;
+    timestamp: number; // Unix seconds
+    noOfTokens: number[];
+    category?: string;
+    unlockType?: 'cliff' | 'linear';
+  }>;
+}
+
+export class TokenUnlockCollector extends BaseCollector {
+  readonly name = 'Token Unlocks';
+  readonly source = AlertSource.DEFILLAMA;
+
+  // Absolute feed URLs bypass the client's base URL
+  private client = getDefillamaClient();
+  private rateLimiter = getRateLimiter('defillama');
+
+  constructor() {
+    const config = getConfig();
+    super(collectorSchedule(config.collectors.unlocks.pollingIntervalMs, config.collectors.unlocks));
+  }
+
+  protected async doCollect(): Promise<void> {
+    const config = getConfig();
+    const { lookaheadDays } = config.collectors.unlocks;
+
+    const emissions = await this.fetchEmissions();
+
+    const now = Date.now();
+    const horizon = now + lookaheadDays * 24 * 60 * 60 * 1000;
+
+    // Flatten schedules into individual upcoming unlock events
+    const unlocks: TokenUnlock[] = [];
+
+    for (const protocol of emissions) {
+      const coingeckoId =
+        protocol.gecko_id ||
+        (protocol.token?.startsWith('coingecko:') ? protocol.token.slice('coingecko:'.length) : undefined);
+
+      for (const event of protocol.events || []) {
+        const unlockTime = event.timestamp * 1000;
+
+        if (unlockTime <= now || unlockTime > horizon) {
+          continue;
+        }
+
+        const amount = (event.noOfTokens || []).reduce((sum, n) => sum + n, 0);
+
+        if (amount <= 0) {
+          continue;
+        }
+
+        unlocks.push({
+          id: this.unlockId(protocol.name, event.timestamp, event.category),
+          protocolName: protocol.name,
+          coingeckoId,
+          symbol: protocol.symbol,
+          unlockDate: new Date(unlockTime),
+          amount,
+          category: event.category,
+          unlockType: event.unlockType,
+          description: event.description,
+          circulatingSupply: protocol.circSupply,
+          maxSupply: protocol.maxSupply,
+          totalLocked: protocol.totalLocked,
+        });
+      }
+    }
+
+    tokenUnlockRepository.upsertMany(unlocks);
+    const pruned = tokenUnlockRepository.pruneBefore(new Date(now));
+
+    // Emit raw data event
+    const rawData: RawUnlockData = {
+      source: 'DEFILLAMA',
+      timestamp: new Date(),
+      unlocks,
+    };
+
+    eventBus.emit('collector:unlocks', rawData);
+
+    this.logger.info(
+      `Collected ${unlocks.length} upcoming unlocks from ${emissions.length} schedules (${pruned} past unlocks pruned)`
+    );
+  }
+
+  private unlockId(protocolName: string, timestamp: number, category?: string): string {
+    return createHash('sha256')
+      .update(`${protocolName}:${timestamp}:${category ?? ''}`)
+      .digest('hex')
+      .substring(0, 32);
+  }
+
+  private async fetchEmissions(): Promise<EmissionsResponse[]> {
+    const config = getConfig();
+
+    return this.rateLimiter.execute(async () => {
+      const data = await this.client.get<EmissionsResponse[]>(config.collectors.unlocks.feedUrl);
+      return data;
+    });
+  }
+}
+
+export const unlocksCollectorPlugin = defineCollector({
+  name: 'unlocks',
+  configSchema: collectorConfigSchemas.unlocks,
+  event: 'collector:unlocks',
+  create: () => new TokenUnlockCollector(),
+});
+
+export default TokenUnlockCollector;
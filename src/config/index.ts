@@ -54,6 +54,11 @@ function mergeConfigs(yamlConfig: Record<string, unknown>): Record<string, unkno
       coingecko: {
         apiKey: process.env['COINGECKO_API_KEY'],
       },
+      governance: {
+        tally: {
+          apiKey: process.env['TALLY_API_KEY'],
+        },
+      },
     },
     app: {
       environment: process.env['NODE_ENV'] as 'development' | 'production' | undefined,
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import cron from 'node-cron';
 import { AlertCategory, AlertPriority } from '../core/types/alerts.js';
 
 // Category configuration schema
@@ -9,6 +10,308 @@ const categoryConfigSchema = z.object({
   thresholds: z.record(z.string(), z.number()).default({}),
 });
 
+// Scheduling options shared by the polling collectors
+const scheduleFields = {
+  // node-cron expression; collections run on it instead of the polling interval
+  cron: z
+    .string()
+    .refine((expression) => cron.validate(expression), 'Invalid cron expression')
+    .optional(),
+  cronTimezone: z.string().optional(),
+  // Up to this much random delay before each scheduled run
+  jitterMs: z.number().min(0).default(0),
+  // Defaults to the polling interval
+  timeoutMs: z.number().min(1000).optional(),
+};
+
+// Config blocks of the built-in collectors, keyed by collector name. Plugin
+// collectors declare their own schema and are validated when they load.
+export const collectorConfigSchemas = {
+  defillama: z.object({
+    enabled: z.boolean().default(true),
+    baseUrl: z.string().url().default('https://api.llama.fi'),
+    pollingIntervalMs: z.number().min(60000).default(300000),
+    ...scheduleFields,
+    endpoints: z.object({
+      protocols: z.boolean().default(true),
+      chains: z.boolean().default(true),
+      tvl: z.boolean().default(true),
+    }),
+    watchlist: z.array(z.string()).default([]),
+    chainWatchlist: z.array(z.string()).default([]),
+    // Fill the TVL history of newly seen protocols from DeFiLlama
+    backfillHistory: z.boolean().default(true),
+  }),
+
+  defillamaYields: z
+    .object({
+      enabled: z.boolean().default(false),
+      baseUrl: z.string().url().default('https://yields.llama.fi'),
+      pollingIntervalMs: z.number().min(60000).default(900000),
+      ...scheduleFields,
+      minPoolTvlUsd: z.number().min(0).default(100000),
+      projects: z.array(z.string()).default([]),
+      chains: z.array(z.string()).default([]),
+    })
+    .default({}),
+
+  defillamaStablecoins: z
+    .object({
+      enabled: z.boolean().default(false),
+      baseUrl: z.string().url().default('https://stablecoins.llama.fi'),
+      pollingIntervalMs: z.number().min(60000).default(300000),
+      ...scheduleFields,
+      minCirculatingUsd: z.number().min(0).default(10000000),
+      watchlist: z.array(z.string()).default([]),
+    })
+    .default({}),
+
+  defillamaFees: z
+    .object({
+      enabled: z.boolean().default(false),
+      pollingIntervalMs: z.number().min(60000).default(3600000),
+      ...scheduleFields,
+      minFeesUsd: z.number().min(0).default(10000),
+      watchlist: z.array(z.string()).default([]),
+    })
+    .default({}),
+
+  defillamaVolumes: z
+    .object({
+      enabled: z.boolean().default(false),
+      pollingIntervalMs: z.number().min(60000).default(3600000),
+      ...scheduleFields,
+      markets: z
+        .object({
+          dexs: z.boolean().default(true),
+          derivatives: z.boolean().default(true),
+        })
+        .default({}),
+      minVolumeUsd: z.number().min(0).default(100000),
+      watchlist: z.array(z.string()).default([]),
+      chainWatchlist: z.array(z.string()).default([]),
+    })
+    .default({}),
+
+  defillamaBridges: z
+    .object({
+      enabled: z.boolean().default(false),
+      baseUrl: z.string().url().default('https://bridges.llama.fi'),
+      pollingIntervalMs: z.number().min(60000).default(3600000),
+      ...scheduleFields,
+      chains: z
+        .array(z.string())
+        .default(['Ethereum', 'Arbitrum', 'Base', 'Optimism', 'Solana', 'BSC', 'Polygon', 'Avalanche']),
+      // Largest bridges by weekly volume to track per chain
+      maxBridges: z.number().int().min(0).default(5),
+    })
+    .default({}),
+
+  defillamaHacks: z
+    .object({
+      enabled: z.boolean().default(false),
+      pollingIntervalMs: z.number().min(60000).default(600000),
+      ...scheduleFields,
+      maxIncidentAgeDays: z.number().min(1).default(7),
+    })
+    .default({}),
+
+  unlocks: z
+    .object({
+      enabled: z.boolean().default(false),
+      feedUrl: z.string().url().default('https://api.llama.fi/emissions'),
+      pollingIntervalMs: z.number().min(60000).default(3600000),
+      ...scheduleFields,
+      lookaheadDays: z.number().min(1).default(30),
+    })
+    .default({}),
+
+  governance: z
+    .object({
+      enabled: z.boolean().default(false),
+      pollingIntervalMs: z.number().min(60000).default(300000),
+      ...scheduleFields,
+      closingWindowHours: z.number().min(1).default(24),
+      snapshot: z
+        .object({
+          enabled: z.boolean().default(true),
+          graphqlUrl: z.string().url().default('https://hub.snapshot.org/graphql'),
+          spaces: z.array(z.string()).default([]),
+        })
+        .default({}),
+      tally: z
+        .object({
+          enabled: z.boolean().default(false),
+          graphqlUrl: z.string().url().default('https://api.tally.xyz/query'),
+          apiKey: z.string().optional(),
+          governors: z.array(z.string()).default([]),
+        })
+        .default({}),
+    })
+    .default({}),
+
+  rss: z
+    .object({
+      enabled: z.boolean().default(false),
+      pollingIntervalMs: z.number().min(60000).default(600000),
+      ...scheduleFields,
+      maxEntryAgeHours: z.number().min(1).default(48),
+      feeds: z
+        .array(
+          z.object({
+            name: z.string(),
+            url: z.string().url(),
+            enabled: z.boolean().default(true),
+            // Categories this feed is authoritative for, like priority accounts
+            trustedCategories: z.array(z.nativeEnum(AlertCategory)).default([]),
+          })
+        )
+        .default([]),
+    })
+    .default({}),
+
+  telegramChannels: z
+    .object({
+      enabled: z.boolean().default(false),
+      // Accept posts from channels the bot was added to but that aren't listed below
+      acceptUnlisted: z.boolean().default(true),
+      channels: z
+        .array(
+          z
+            .object({
+              username: z.string().optional(),
+              chatId: z.string().optional(),
+              // Categories this channel is authoritative for, like priority accounts
+              trustedCategories: z.array(z.nativeEnum(AlertCategory)).default([]),
+              muted: z.boolean().default(false),
+            })
+            .refine((c) => c.username || c.chatId, {
+              message: 'Channel needs a username or chatId',
+            })
+        )
+        .default([]),
+    })
+    .default({}),
+
+  evmLogs: z
+    .object({
+      enabled: z.boolean().default(false),
+      pollingIntervalMs: z.number().min(10000).default(60000),
+      ...scheduleFields,
+      // Blocks behind head to wait for, to avoid alerting on reorged logs
+      confirmations: z.number().min(0).default(2),
+      maxBlockRange: z.number().min(1).default(2000),
+      chains: z
+        .array(
+          z.object({
+            name: z.string(),
+            rpcUrl: z.string().url(),
+            explorerUrl: z.string().url().optional(),
+            // Block to start from on first run; defaults to the current head
+            startBlock: z.number().min(0).optional(),
+            contracts: z
+              .array(
+                z.object({
+                  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+                  protocol: z.string(),
+                  label: z.string().optional(),
+                })
+              )
+              .default([]),
+          })
+        )
+        .default([]),
+    })
+    .default({}),
+
+  github: z
+    .object({
+      enabled: z.boolean().default(false),
+      baseUrl: z.string().url().default('https://api.github.com'),
+      token: z.string().optional(),
+      pollingIntervalMs: z.number().min(60000).default(900000),
+      ...scheduleFields,
+      repositories: z
+        .array(
+          z.object({
+            // owner/name
+            repo: z.string().regex(/^[\w.-]+\/[\w.-]+$/),
+            protocol: z.string(),
+            releases: z.boolean().default(true),
+            tags: z.boolean().default(false),
+            advisories: z.boolean().default(true),
+            audits: z.boolean().default(true),
+          })
+        )
+        .default([]),
+    })
+    .default({}),
+
+  twitter: z.object({
+    enabled: z.boolean().default(false),
+    apiKey: z.string().optional(),
+    apiSecret: z.string().optional(),
+    bearerToken: z.string().optional().default(''),
+    useFilteredStream: z.boolean().default(true),
+    pollIntervalMs: z.number().min(60000).default(60000),
+    ...scheduleFields,
+    maxReconnectAttempts: z.number().min(1).default(5),
+    // Recent search limits for polling mode
+    maxQueryLength: z.number().min(1).default(512),
+    maxPagesPerQuery: z.number().min(1).default(10),
+    // Filtered stream rule budget for your API tier
+    maxStreamRules: z.number().min(1).default(25),
+    maxRuleLength: z.number().min(1).default(512),
+    priorityAccounts: z.array(z.string()).default([
+      'DefiLlama',
+      'PeckShieldAlert',
+      'BlockSecTeam',
+      'certikiAlert',
+      'SlowMist_Team',
+    ]),
+  }),
+
+  coingecko: z.object({
+    enabled: z.boolean().default(true),
+    baseUrl: z.string().url().default('https://api.coingecko.com/api/v3'),
+    apiKey: z.string().optional(),
+    pollingIntervalMs: z.number().min(60000).default(120000),
+    ...scheduleFields,
+    watchlistIds: z.array(z.string()).default([
+      'ethereum',
+      'bitcoin',
+      'arbitrum',
+      'optimism',
+    ]),
+    // Also watch the tokens of tracked DeFiLlama protocols above a TVL floor
+    watchlistFromProtocols: z.boolean().default(false),
+    watchlistMinTvlUsd: z.number().min(0).default(100000000),
+    // Per-token overrides for TOKEN_EVENT market thresholds, keyed by CoinGecko id
+    tokenThresholds: z.record(z.string(), z.record(z.string(), z.number())).default({}),
+  }),
+
+  coingeckoDiscovery: z
+    .object({
+      enabled: z.boolean().default(false),
+      pollingIntervalMs: z.number().min(300000).default(900000),
+      ...scheduleFields,
+      // CoinGecko asset platform ids a new listing needs a contract on to alert
+      trackedPlatforms: z
+        .array(z.string())
+        .default([
+          'ethereum',
+          'arbitrum-one',
+          'optimistic-ethereum',
+          'base',
+          'polygon-pos',
+          'binance-smart-chain',
+          'avalanche',
+          'solana',
+        ]),
+    })
+    .default({}),
+};
+
 // Main configuration schema
 export const configSchema = z.object({
   app: z.object({
@@ -24,49 +327,31 @@ export const configSchema = z.object({
     pollingMode: z.boolean().default(true),
   }),
 
-  collectors: z.object({
-    defillama: z.object({
-      enabled: z.boolean().default(true),
-      baseUrl: z.string().url().default('https://api.llama.fi'),
-      pollingIntervalMs: z.number().min(60000).default(300000),
-      endpoints: z.object({
-        protocols: z.boolean().default(true),
-        chains: z.boolean().default(true),
-        tvl: z.boolean().default(true),
-      }),
-      watchlist: z.array(z.string()).default([]),
-    }),
+  // Unknown blocks are kept for plugin collectors to validate
+  collectors: z.object(collectorConfigSchemas).passthrough(),
 
-    twitter: z.object({
-      enabled: z.boolean().default(false),
-      apiKey: z.string().optional(),
-      apiSecret: z.string().optional(),
-      bearerToken: z.string().optional().default(''),
-      useFilteredStream: z.boolean().default(true),
-      pollIntervalMs: z.number().min(60000).default(60000),
-      maxReconnectAttempts: z.number().min(1).default(5),
-      priorityAccounts: z.array(z.string()).default([
-        'DefiLlama',
-        'PeckShieldAlert',
-        'BlockSecTeam',
-        'certikiAlert',
-        'SlowMist_Team',
-      ]),
-    }),
+  plugins: z
+    .object({
+      // Modules exporting collector plugins. Relative paths resolve from the
+      // working directory, anything else is imported as a package.
+      collectors: z.array(z.string()).default([]),
+    })
+    .default({}),
 
-    coingecko: z.object({
+  // Restarts collectors that stopped after an unrecoverable error
+  supervisor: z
+    .object({
       enabled: z.boolean().default(true),
-      baseUrl: z.string().url().default('https://api.coingecko.com/api/v3'),
-      apiKey: z.string().optional(),
-      pollingIntervalMs: z.number().min(60000).default(120000),
-      watchlistIds: z.array(z.string()).default([
-        'ethereum',
-        'bitcoin',
-        'arbitrum',
-        'optimism',
-      ]),
-    }),
-  }),
+      initialBackoffMs: z.number().min(1000).default(30000),
+      maxBackoffMs: z.number().min(1000).default(1800000),
+      // A collector that stayed up this long since its last restart starts
+      // over at the initial backoff when it fails again
+      stableAfterMs: z.number().min(0).default(600000),
+      // Polling collectors whose runs fail this many times in a row are
+      // stopped and restarted like failed ones (0 to keep them polling)
+      maxConsecutiveErrors: z.number().int().min(0).default(5),
+    })
+    .default({}),
 
   alerts: z.object({
     globalCooldownMs: z.number().min(0).default(60000),
@@ -77,7 +362,11 @@ export const configSchema = z.object({
         enabled: true,
         priority: AlertPriority.HIGH,
         cooldownMs: 300000,
-        thresholds: {},
+        thresholds: {
+          minPoolTvlUsd: 1000000,
+          minRewardApy: 5,
+          minApyChangePercent: 50,
+        },
       }),
       [AlertCategory.TVL_CHANGE]: categoryConfigSchema.default({
         enabled: true,
@@ -87,6 +376,21 @@ export const configSchema = z.object({
           minChangePercent: 10,
           minTvlUsd: 1000000,
           timeframeHours: 24,
+          chainMinChangePercent: 5,
+          chainMinTvlUsd: 100000000,
+          stablecoinMinSupplyChangeUsd: 100000000,
+          stablecoinMinChainShiftUsd: 50000000,
+          revenueGrowthPercent: 100,
+          revenueCollapsePercent: 50,
+          minDailyRevenueUsd: 50000,
+          revenueTrailingDays: 7,
+          feesTopN: 20,
+          volumeSurgeMultiple: 3,
+          minSurgeVolumeUsd: 5000000,
+          chainVolumeSurgeMultiple: 2,
+          chainMinSurgeVolumeUsd: 50000000,
+          volumeTrailingDays: 7,
+          bridgeNetFlow24hUsd: 50000000,
         },
       }),
       [AlertCategory.TOKEN_EVENT]: categoryConfigSchema.default({
@@ -96,6 +400,11 @@ export const configSchema = z.object({
         thresholds: {
           minUnlockValueUsd: 1000000,
           daysBeforeUnlock: 7,
+          priceChange1hPercent: 5,
+          priceChange24hPercent: 15,
+          volumeSpikeMultiple: 3,
+          minVolumeUsd: 1000000,
+          minRankJump: 10,
         },
       }),
       [AlertCategory.GOVERNANCE]: categoryConfigSchema.default({
@@ -110,6 +419,7 @@ export const configSchema = z.object({
         cooldownMs: 0,
         thresholds: {
           minLossValueUsd: 100000,
+          depegThresholdBps: 50,
         },
       }),
       [AlertCategory.NARRATIVE]: categoryConfigSchema.default({
@@ -118,6 +428,10 @@ export const configSchema = z.object({
         cooldownMs: 3600000,
         thresholds: {
           minMentions: 5,
+          newListingMinTvlUsd: 1000000,
+          newListingMaxAgeDays: 14,
+          protocolChangeMinTvlUsd: 10000000,
+          bridgeNetFlow7dUsd: 250000000,
         },
       }),
     }),
@@ -143,6 +457,36 @@ export const configSchema = z.object({
       requestsPerMinute: z.number().min(1).default(25),
       monthlyCallLimit: z.number().min(1).default(8000),
     }),
+    snapshot: z
+      .object({
+        requestsPerMinute: z.number().min(1).default(30),
+        burstLimit: z.number().min(1).default(2),
+      })
+      .default({}),
+    tally: z
+      .object({
+        requestsPerMinute: z.number().min(1).default(10),
+        burstLimit: z.number().min(1).default(1),
+      })
+      .default({}),
+    rss: z
+      .object({
+        requestsPerMinute: z.number().min(1).default(30),
+        burstLimit: z.number().min(1).default(2),
+      })
+      .default({}),
+    rpc: z
+      .object({
+        requestsPerMinute: z.number().min(1).default(120),
+        burstLimit: z.number().min(1).default(5),
+      })
+      .default({}),
+    github: z
+      .object({
+        requestsPerMinute: z.number().min(1).default(20),
+        burstLimit: z.number().min(1).default(2),
+      })
+      .default({}),
   }),
 });
 
@@ -1,7 +1,24 @@
 import { EventEmitter } from 'events';
 import { createLogger } from '../../utils/logger.js';
 import type { Alert, AlertCategory } from '../types/alerts.js';
-import type { RawTVLData, RawTweet, RawPriceData } from '../types/sources.js';
+import type {
+  RawTVLData,
+  RawYieldData,
+  RawStablecoinData,
+  RawFeesData,
+  RawVolumeData,
+  RawBridgeFlowData,
+  RawHackData,
+  RawUnlockData,
+  RawGovernanceData,
+  RawArticle,
+  RawChannelPost,
+  RawContractEventData,
+  RawRepoActivityData,
+  RawTweet,
+  RawPriceData,
+  RawMarketDiscoveryData,
+} from '../types/sources.js';
 
 const logger = createLogger('EventBus');
 
@@ -9,8 +26,21 @@ const logger = createLogger('EventBus');
 export interface EventMap {
   // Raw data events from collectors
   'collector:tvl': RawTVLData;
+  'collector:yields': RawYieldData;
+  'collector:stablecoins': RawStablecoinData;
+  'collector:fees': RawFeesData;
+  'collector:volume': RawVolumeData;
+  'collector:bridges': RawBridgeFlowData;
+  'collector:hacks': RawHackData;
+  'collector:unlocks': RawUnlockData;
+  'collector:governance': RawGovernanceData;
+  'collector:article': RawArticle;
+  'collector:channelPost': RawChannelPost;
+  'collector:contractEvents': RawContractEventData;
+  'collector:repoActivity': RawRepoActivityData;
   'collector:tweet': RawTweet;
   'collector:price': RawPriceData;
+  'collector:discovery': RawMarketDiscoveryData;
 
   // Processed signal events
   'signal:alert': Alert;
@@ -19,6 +49,8 @@ export interface EventMap {
   'collector:started': { name: string };
   'collector:stopped': { name: string };
   'collector:error': { name: string; error: Error };
+  // Stopped after an unrecoverable error, as opposed to a failed collection
+  'collector:failed': { name: string; error: Error };
 
   // Alert delivery events
   'alert:sent': { alertId: string; chatId: string; messageId?: number };
@@ -97,9 +129,30 @@ class EventBus extends TypedEventEmitter {
     if ('protocols' in obj && Array.isArray(obj.protocols)) {
       return { ...obj, protocols: `[${obj.protocols.length} protocols]` };
     }
+    if ('pools' in obj && Array.isArray(obj.pools)) {
+      return { ...obj, pools: `[${obj.pools.length} pools]` };
+    }
+    if ('stablecoins' in obj && Array.isArray(obj.stablecoins)) {
+      return { ...obj, stablecoins: `[${obj.stablecoins.length} stablecoins]` };
+    }
+    if ('incidents' in obj && Array.isArray(obj.incidents)) {
+      return { ...obj, incidents: `[${obj.incidents.length} incidents]` };
+    }
+    if ('unlocks' in obj && Array.isArray(obj.unlocks)) {
+      return { ...obj, unlocks: `[${obj.unlocks.length} unlocks]` };
+    }
+    if ('proposals' in obj && Array.isArray(obj.proposals)) {
+      return { ...obj, proposals: `[${obj.proposals.length} proposals]` };
+    }
+    if ('events' in obj && Array.isArray(obj.events)) {
+      return { ...obj, events: `[${obj.events.length} events]` };
+    }
     if ('tokens' in obj && Array.isArray(obj.tokens)) {
       return { ...obj, tokens: `[${obj.tokens.length} tokens]` };
     }
+    if ('newListings' in obj && Array.isArray(obj.newListings)) {
+      return { ...obj, trendingCoins: '[...]', newListings: `[${obj.newListings.length} listings]` };
+    }
 
     return payload;
   }
@@ -20,6 +20,12 @@ export enum AlertSource {
   DEFILLAMA = 'DEFILLAMA',
   TWITTER = 'TWITTER',
   COINGECKO = 'COINGECKO',
+  SNAPSHOT = 'SNAPSHOT',
+  TALLY = 'TALLY',
+  RSS = 'RSS',
+  ONCHAIN = 'ONCHAIN',
+  TELEGRAM = 'TELEGRAM',
+  GITHUB = 'GITHUB',
 }
 
 export interface Alert {
@@ -37,14 +43,28 @@ export interface Alert {
 
 export interface AlertDetails {
   // Incentive-specific
-  incentiveType?: 'AIRDROP' | 'POINTS' | 'SEASON' | 'SNAPSHOT';
+  incentiveType?: 'AIRDROP' | 'POINTS' | 'SEASON' | 'SNAPSHOT' | 'FARM';
   programName?: string;
+  yieldIncentive?: YieldIncentiveDetails;
 
   // TVL-specific
   tvlChange?: TVLChangeDetails;
 
+  // Stablecoin-specific
+  stablecoin?: StablecoinDetails;
+
+  // Fees/revenue-specific
+  fees?: FeesDetails;
+
+  // DEX/derivatives volume-specific
+  volume?: VolumeDetails;
+
+  // Bridge flow-specific
+  bridgeFlow?: BridgeFlowDetails;
+
   // Token-specific
   tokenEvent?: TokenEventDetails;
+  market?: MarketMoveDetails;
 
   // Governance-specific
   governance?: GovernanceDetails;
@@ -58,6 +78,28 @@ export interface AlertDetails {
   // Raw content
   rawContent?: string;
   sourceUrl?: string;
+  quotedContent?: QuotedContent;
+}
+
+// Post that a social signal quotes or replies to
+export interface QuotedContent {
+  relation: 'QUOTE' | 'REPLY';
+  author?: string;
+  text: string;
+  url?: string;
+}
+
+export interface YieldIncentiveDetails {
+  eventType: 'APY_SPIKE' | 'NEW_POOL';
+  poolId: string;
+  project: string;
+  chain: string;
+  symbol: string;
+  tvlUsd: number;
+  apyBase?: number;
+  apyReward: number;
+  previousApyReward?: number;
+  rewardTokens: string[];
 }
 
 export interface TVLChangeDetails {
@@ -70,6 +112,57 @@ export interface TVLChangeDetails {
   timeframeHours: 24 | 48 | 168;
 }
 
+export interface StablecoinDetails {
+  eventType: 'MINT' | 'BURN' | 'CHAIN_MIGRATION' | 'DEPEG';
+  symbol: string;
+  pegType: string;
+  price?: number;
+  deviationBps?: number;
+  previousSupply?: number;
+  currentSupply?: number;
+  changeAbsolute?: number;
+  changePercent?: number;
+  fromChain?: string;
+  toChain?: string;
+}
+
+export interface FeesDetails {
+  eventType: 'REVENUE_GROWTH' | 'REVENUE_COLLAPSE' | 'TOP_FEES';
+  protocol: string;
+  fees24h: number;
+  revenue24h?: number;
+  // Average daily revenue over the trailing window, excluding today
+  trailingRevenue?: number;
+  trailingDays?: number;
+  changePercent?: number;
+  feesRank?: number;
+}
+
+export interface VolumeDetails {
+  eventType: 'VOLUME_SURGE';
+  market: 'DEX' | 'DERIVATIVES';
+  scope: 'PROTOCOL' | 'CHAIN';
+  name: string;
+  volume24h: number;
+  // Average daily volume over the trailing window, excluding today
+  baselineVolume: number;
+  baselineDays: number;
+  multiple: number;
+}
+
+export interface BridgeFlowDetails {
+  chain: string;
+  direction: 'INFLOW' | 'OUTFLOW';
+  netFlowUsd: number;
+  depositUsd: number;
+  withdrawUsd: number;
+  windowHours: 24 | 168;
+  // Tracked chains with the largest flows the other way
+  counterpartChains: string[];
+  // Bridges carrying most of the flow
+  bridges: string[];
+}
+
 export interface TokenEventDetails {
   eventType: 'LAUNCH' | 'EMISSION_START' | 'EMISSION_END' | 'VESTING_CLIFF' | 'VC_UNLOCK';
   tokenSymbol: string;
@@ -81,6 +174,20 @@ export interface TokenEventDetails {
   vestingSchedule?: VestingInfo;
 }
 
+export interface MarketMoveDetails {
+  eventType: 'PRICE_MOVE' | 'VOLUME_SPIKE' | 'RANK_JUMP';
+  coingeckoId: string;
+  tokenSymbol: string;
+  price: number;
+  changePercent?: number;
+  timeframeHours?: 1 | 24;
+  volume24h?: number;
+  baselineVolume?: number;
+  volumeMultiple?: number;
+  previousRank?: number;
+  currentRank?: number;
+}
+
 export interface VestingInfo {
   totalAmount: number;
   unlockedAmount: number;
@@ -90,28 +197,51 @@ export interface VestingInfo {
 }
 
 export interface GovernanceDetails {
-  changeType: 'YIELD_PARAM' | 'COLLATERAL_RULE' | 'REWARD_MULTIPLIER' | 'FEE_CHANGE';
+  changeType: 'YIELD_PARAM' | 'COLLATERAL_RULE' | 'REWARD_MULTIPLIER' | 'FEE_CHANGE' | 'OTHER';
+  proposalStatus?: 'NEW' | 'CLOSING' | 'PASSED' | 'REJECTED' | 'EXECUTED';
   protocol: string;
   parameterName: string;
   oldValue?: string | number;
   newValue?: string | number;
   proposalUrl?: string;
   effectiveDate?: Date;
+  txHash?: string;
+  affectedChains?: string[];
 }
 
 export interface SecurityDetails {
   severityLevel: 'INFO' | 'WARNING' | 'HIGH' | 'CRITICAL';
-  eventType: 'EXPLOIT' | 'PAUSE' | 'AUDIT_ISSUE' | 'ABNORMAL_BEHAVIOR' | 'RUG_WARNING';
+  eventType:
+    | 'EXPLOIT'
+    | 'PAUSE'
+    | 'AUDIT'
+    | 'AUDIT_ISSUE'
+    | 'VULNERABILITY'
+    | 'ABNORMAL_BEHAVIOR'
+    | 'RUG_WARNING'
+    | 'DEPEG';
   protocol?: string;
   estimatedLoss?: number;
   affectedChains?: string[];
   txHash?: string;
   auditFirm?: string;
+  // DeFiLlama hacks dataset entry the alert was raised for
+  incidentId?: string;
 }
 
 export interface NarrativeDetails {
-  narrativeType: 'NEW_SECTOR' | 'FUND_MENTION' | 'PROTOCOL_PIVOT' | 'TREND_EMERGENCE';
+  narrativeType:
+    | 'NEW_SECTOR'
+    | 'FUND_MENTION'
+    | 'PROTOCOL_PIVOT'
+    | 'TREND_EMERGENCE'
+    | 'NEW_PROTOCOL'
+    | 'CHAIN_EXPANSION'
+    | 'CAPITAL_MIGRATION';
   sectorName?: string;
+  // Sector a protocol pivoted away from
+  previousSectorName?: string;
+  chains?: string[];
   relatedProtocols?: string[];
   fundName?: string;
   trendStrength?: number;
@@ -123,6 +253,12 @@ export interface AlertMetadata {
   tokenIds?: string[];
   twitterHandle?: string;
   tweetId?: string;
+  feedName?: string;
+  articleId?: string;
+  channelPostId?: string;
+  txHash?: string;
+  repository?: string;
+  repoEventId?: string;
   defillamaSlug?: string;
   coingeckoId?: string;
   tags: string[];
@@ -60,6 +60,13 @@ export interface MarketData {
 export interface ProtocolState {
   slug: string;
   name: string;
+  defillamaId?: string;
+  coingeckoId?: string;
+  tokenSymbol?: string;
+  tokenAddress?: string;
+  category?: string;
+  chains?: string[];
+  listedAt?: Date;
   lastTvl: number;
   lastTvlByChain: string;
   lastCheckedAt: Date;
@@ -67,6 +74,189 @@ export interface ProtocolState {
   tvlHistory7d: string;
 }
 
+// Stored values fresh DeFiLlama data is compared against
+export interface ProtocolSyncState {
+  lastTvl: number;
+  lastTvlByChain: string;
+  coingeckoId?: string;
+  tokenSymbol?: string;
+  tokenAddress?: string;
+  category?: string;
+  // Undefined until the first metadata snapshot
+  chains?: string[];
+}
+
+export interface ProtocolTokenMapping {
+  slug: string;
+  coingeckoId?: string;
+  tokenSymbol?: string;
+  tokenAddress?: string;
+}
+
+// Listing details DeFiLlama reports for a protocol
+export interface ProtocolMetadata {
+  slug: string;
+  category?: string;
+  chains: string[];
+  listedAt?: Date;
+}
+
+export interface ChainState {
+  name: string;
+  tokenSymbol?: string;
+  lastTvl: number;
+  lastCheckedAt: Date;
+  tvlHistory24h: string;
+  tvlHistory7d: string;
+}
+
+export interface StablecoinState {
+  id: string;
+  name: string;
+  symbol: string;
+  pegType: string;
+  lastPrice: number | null;
+  lastCirculating: number;
+  lastCirculatingByChain: string;
+  lastCheckedAt: Date;
+  supplyHistory24h: string;
+}
+
+export interface ProtocolFeesState {
+  slug: string;
+  name: string;
+  category?: string;
+  fees24h: number;
+  revenue24h?: number;
+  feesRank: number;
+  // Rank as of the previous poll
+  previousFeesRank?: number;
+  dailyHistory: string;
+  lastCheckedAt: Date;
+}
+
+export interface DailyFeesSnapshot {
+  // UTC day, YYYY-MM-DD
+  date: string;
+  fees: number;
+  revenue?: number;
+}
+
+export interface VolumeState {
+  key: string;
+  market: string;
+  scope: string;
+  name: string;
+  lastVolume24h: number;
+  dailyHistory: string;
+  lastCheckedAt: Date;
+}
+
+export interface DailyVolumeSnapshot {
+  // UTC day, YYYY-MM-DD
+  date: string;
+  volume: number;
+}
+
+export interface SupplySnapshot {
+  timestamp: Date;
+  circulating: number;
+  circulatingByChain: Record<string, number>;
+}
+
+export interface YieldPoolState {
+  poolId: string;
+  project: string;
+  chain: string;
+  symbol: string;
+  lastTvlUsd: number;
+  lastApyBase: number | null;
+  lastApyReward: number | null;
+  rewardTokens: string;
+  apyHistory24h: string;
+  firstSeenAt: Date;
+  lastCheckedAt: Date;
+  announced: boolean;
+}
+
+export interface ApySnapshot {
+  timestamp: Date;
+  apyReward: number;
+  tvlUsd: number;
+}
+
+export interface SecurityIncident {
+  id: string;
+  name: string;
+  incidentDate: Date;
+  amountUsd: number | null;
+  chains: string[];
+  classification?: string;
+  technique?: string;
+  sourceUrl?: string;
+  defillamaId?: string;
+  protocolSlug?: string;
+  firstSeenAt: Date;
+  announced: boolean;
+  alerted: boolean;
+}
+
+export interface TokenUnlockRecord {
+  id: string;
+  protocolName: string;
+  coingeckoId?: string;
+  symbol?: string;
+  unlockDate: Date;
+  amount: number;
+  category?: string;
+  unlockType?: 'cliff' | 'linear';
+  description?: string;
+  circulatingSupply?: number;
+  maxSupply?: number;
+  totalLocked?: number;
+  alerted: boolean;
+}
+
+export interface TokenPriceRecord {
+  coingeckoId: string;
+  symbol: string;
+  name: string;
+  currentPrice: number | null;
+  priceChange24h: number | null;
+  marketCap: number | null;
+  priceChange1h: number | null;
+  totalVolume: number | null;
+  marketCapRank: number | null;
+  marketHistory7d: string; // JSON array of MarketSnapshot
+  lastAlerts: string; // JSON object of alert kind -> timestamp
+  lastUpdatedAt: Date;
+}
+
+export interface MarketSnapshot {
+  timestamp: Date;
+  price: number;
+  volume: number;
+  rank: number | null;
+}
+
+export interface GovernanceProposalRecord {
+  id: string;
+  provider: string;
+  space: string;
+  spaceName?: string;
+  title: string;
+  state: string;
+  startAt: Date;
+  endAt: Date;
+  executedAt?: Date;
+  url: string;
+  choices: string[];
+  scores: number[];
+  notifiedNew: boolean;
+  notifiedClosing: boolean;
+  notifiedFinal: boolean;
+}
+
 export interface UserSettings {
   chatId: string;
   subscribedCategories: string;
@@ -4,8 +4,12 @@
 export interface RawTVLData {
   source: 'DEFILLAMA';
   timestamp: Date;
+  // Only the tracked protocols whose TVL changed since the last poll, and the
+  // tracked chains when the chain list changed
   protocols: DefiLlamaProtocol[];
   chains: DefiLlamaChain[];
+  // Listings, chain deployments and category changes seen in this poll
+  protocolChanges: DefiLlamaProtocolChange[];
 }
 
 export interface DefiLlamaProtocol {
@@ -21,6 +25,21 @@ export interface DefiLlamaProtocol {
   chains?: string[];
   twitter?: string;
   url?: string;
+  gecko_id?: string;
+  symbol?: string;
+  address?: string;
+  // Unix seconds
+  listedAt?: number;
+}
+
+export type DefiLlamaProtocolChangeType = 'NEW_LISTING' | 'NEW_CHAINS' | 'CATEGORY_CHANGE';
+
+export interface DefiLlamaProtocolChange {
+  type: DefiLlamaProtocolChangeType;
+  protocol: DefiLlamaProtocol;
+  // Chains the protocol deployed to since the last snapshot
+  newChains?: string[];
+  previousCategory?: string;
 }
 
 export interface DefiLlamaChain {
@@ -29,6 +48,260 @@ export interface DefiLlamaChain {
   tokenSymbol?: string;
 }
 
+// DeFiLlama yields types
+export interface RawYieldData {
+  source: 'DEFILLAMA';
+  timestamp: Date;
+  pools: DefiLlamaPool[];
+}
+
+export interface DefiLlamaPool {
+  pool: string;
+  project: string;
+  chain: string;
+  symbol: string;
+  tvlUsd: number;
+  apy: number;
+  apyBase: number | null;
+  apyReward: number | null;
+  rewardTokens: string[];
+  stablecoin?: boolean;
+  poolMeta?: string | null;
+}
+
+// DeFiLlama stablecoins types
+export interface RawStablecoinData {
+  source: 'DEFILLAMA';
+  timestamp: Date;
+  stablecoins: DefiLlamaStablecoin[];
+}
+
+export interface DefiLlamaStablecoin {
+  id: string;
+  name: string;
+  symbol: string;
+  pegType: string;
+  pegMechanism?: string;
+  price: number | null;
+  circulating: number;
+  circulatingByChain: Record<string, number>;
+}
+
+// DeFiLlama fees and revenue types
+export interface RawFeesData {
+  source: 'DEFILLAMA';
+  timestamp: Date;
+  protocols: DefiLlamaProtocolFees[];
+}
+
+export interface DefiLlamaProtocolFees {
+  slug: string;
+  name: string;
+  category?: string;
+  chains: string[];
+  // USD over the last 24h
+  fees24h: number;
+  // Missing for protocols DeFiLlama has no revenue breakdown for
+  revenue24h?: number;
+  // Position by 24h fees among every protocol DeFiLlama lists
+  feesRank: number;
+}
+
+// DeFiLlama DEX and derivatives volume types
+export interface RawVolumeData {
+  source: 'DEFILLAMA';
+  timestamp: Date;
+  volumes: DefiLlamaVolume[];
+}
+
+export type VolumeMarket = 'DEX' | 'DERIVATIVES';
+
+export interface DefiLlamaVolume {
+  // Unique across markets and scopes, e.g. DEX:PROTOCOL:uniswap
+  key: string;
+  market: VolumeMarket;
+  scope: 'PROTOCOL' | 'CHAIN';
+  name: string;
+  // Protocols only
+  slug?: string;
+  category?: string;
+  chains: string[];
+  // USD over the last 24h
+  volume24h: number;
+}
+
+// DeFiLlama bridges types
+export interface RawBridgeFlowData {
+  source: 'DEFILLAMA';
+  timestamp: Date;
+  chains: BridgeChainFlow[];
+  // Per-bridge flows on each tracked chain, for the largest bridges
+  bridges: BridgeFlow[];
+}
+
+// Bridged USD over a window, seen from one chain. Deposits leave the chain,
+// withdrawals arrive on it.
+export interface BridgeNetFlow {
+  depositUsd: number;
+  withdrawUsd: number;
+  // Positive when more arrived than left
+  netFlowUsd: number;
+}
+
+export interface BridgeChainFlow {
+  chain: string;
+  flow24h: BridgeNetFlow;
+  flow7d: BridgeNetFlow;
+}
+
+export interface BridgeFlow extends BridgeChainFlow {
+  bridgeId: number;
+  bridgeName: string;
+}
+
+// DeFiLlama hacks types
+export interface RawHackData {
+  source: 'DEFILLAMA';
+  timestamp: Date;
+  incidents: DefiLlamaHack[];
+}
+
+export interface DefiLlamaHack {
+  id: string;
+  name: string;
+  date: Date;
+  amount: number | null;
+  chains: string[];
+  classification?: string;
+  technique?: string;
+  targetType?: string;
+  bridgeHack: boolean;
+  sourceUrl?: string;
+  defillamaId?: string;
+  returnedFunds?: number | null;
+}
+
+// Token unlock / emissions types
+export interface RawUnlockData {
+  source: 'DEFILLAMA';
+  timestamp: Date;
+  unlocks: TokenUnlock[];
+}
+
+export interface TokenUnlock {
+  id: string;
+  protocolName: string;
+  coingeckoId?: string;
+  symbol?: string;
+  unlockDate: Date;
+  amount: number;
+  category?: string;
+  unlockType?: 'cliff' | 'linear';
+  description?: string;
+  circulatingSupply?: number;
+  maxSupply?: number;
+  totalLocked?: number;
+}
+
+// Governance types
+export interface RawGovernanceData {
+  source: 'GOVERNANCE';
+  timestamp: Date;
+  proposals: GovernanceProposal[];
+}
+
+export type GovernanceProposalState =
+  | 'pending'
+  | 'active'
+  | 'closed'
+  | 'succeeded'
+  | 'defeated'
+  | 'queued'
+  | 'executed'
+  | 'canceled';
+
+export interface GovernanceProposal {
+  id: string;
+  provider: string;
+  space: string;
+  spaceName?: string;
+  title: string;
+  body?: string;
+  state: GovernanceProposalState;
+  startAt: Date;
+  endAt: Date;
+  executedAt?: Date;
+  url: string;
+  author?: string;
+  choices?: string[];
+  scores?: number[];
+}
+
+// RSS/Atom types
+export interface RawArticle {
+  source: 'RSS';
+  timestamp: Date;
+  entryId: string;
+  feedName: string;
+  feedUrl: string;
+  title: string;
+  link: string;
+  author?: string;
+  summary: string;
+  categories: string[];
+  publishedAt?: Date;
+  // Categories the feed is configured as an authority for
+  trustedCategories: string[];
+}
+
+// Telegram channel types
+export interface RawChannelPost {
+  source: 'TELEGRAM';
+  timestamp: Date;
+  chatId: string;
+  messageId: number;
+  channelTitle: string;
+  channelUsername?: string;
+  text: string;
+  hashtags: string[];
+  urls: string[];
+  link: string;
+  postedAt: Date;
+  // Categories the channel is configured as an authority for
+  trustedCategories: string[];
+}
+
+// EVM contract event types
+export interface RawContractEventData {
+  source: 'ONCHAIN';
+  timestamp: Date;
+  events: ContractEvent[];
+}
+
+export type ContractEventName =
+  | 'Paused'
+  | 'Unpaused'
+  | 'Upgraded'
+  | 'AdminChanged'
+  | 'OwnershipTransferred'
+  | 'RoleGranted'
+  | 'RoleRevoked';
+
+export interface ContractEvent {
+  id: string;
+  chain: string;
+  address: string;
+  protocol: string;
+  label?: string;
+  eventName: ContractEventName;
+  // Decoded event arguments, addresses and hashes as 0x-prefixed hex
+  args: Record<string, string>;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  explorerUrl?: string;
+}
+
 // Twitter types
 export interface RawTweet {
   source: 'TWITTER';
@@ -48,6 +321,17 @@ export interface RawTweet {
   mentions: string[];
   urls: string[];
   matchedRules: TwitterRule[];
+  // Quoted or replied-to tweets, when returned with the tweet
+  referencedTweets: ReferencedTweet[];
+}
+
+export interface ReferencedTweet {
+  type: 'quoted' | 'replied_to';
+  tweetId: string;
+  authorId: string;
+  authorUsername?: string;
+  text: string;
+  hashtags: string[];
 }
 
 export interface TwitterRule {
@@ -56,6 +340,35 @@ export interface TwitterRule {
   value: string;
 }
 
+// GitHub types
+export interface RawRepoActivityData {
+  source: 'GITHUB';
+  timestamp: Date;
+  events: RepoEvent[];
+}
+
+export type RepoEventKind = 'RELEASE' | 'TAG' | 'ADVISORY' | 'AUDIT';
+
+export interface RepoEvent {
+  id: string;
+  kind: RepoEventKind;
+  repo: string;
+  protocol: string;
+  title: string;
+  url: string;
+  tagName?: string;
+  prerelease?: boolean;
+  body?: string;
+  // Advisory fields
+  severity?: string;
+  ghsaId?: string;
+  cveId?: string;
+  // Audit fields
+  path?: string;
+  auditFirm?: string;
+  publishedAt?: Date;
+}
+
 // CoinGecko types
 export interface RawPriceData {
   source: 'COINGECKO';
@@ -69,12 +382,67 @@ export interface CoinGeckoToken {
   name: string;
   current_price: number;
   market_cap: number;
-  market_cap_rank: number;
+  market_cap_rank: number | null;
   price_change_percentage_24h: number;
+  price_change_percentage_1h?: number | null;
   total_volume: number;
   circulating_supply: number;
   total_supply: number | null;
 }
 
+export interface RawMarketDiscoveryData {
+  source: 'COINGECKO';
+  timestamp: Date;
+  trendingCoins: CoinGeckoTrendingCoin[];
+  trendingCategories: CoinGeckoTrendingCategory[];
+  // Categories that were not trending on the previous poll
+  newTrendingCategories: CoinGeckoTrendingCategory[];
+  // Coins listed since the previous poll with a contract on a tracked platform
+  newListings: CoinGeckoListing[];
+}
+
+export interface CoinGeckoTrendingCoin {
+  id: string;
+  symbol: string;
+  name: string;
+  marketCapRank: number | null;
+  score: number;
+  priceChange24h?: number;
+}
+
+export interface CoinGeckoTrendingCategory {
+  id: string;
+  name: string;
+  slug: string;
+  coinsCount: number;
+  marketCap?: number;
+  marketCapChange24h?: number;
+  position: number;
+}
+
+export interface CoinGeckoListing {
+  id: string;
+  symbol: string;
+  name: string;
+  // Asset platform id -> contract address, limited to tracked platforms
+  platforms: Record<string, string>;
+}
+
 // Union type for all raw data
-export type RawData = RawTVLData | RawTweet | RawPriceData;
+export type RawData =
+  | RawTVLData
+  | RawYieldData
+  | RawStablecoinData
+  | RawFeesData
+  | RawVolumeData
+  | RawBridgeFlowData
+  | RawHackData
+  | RawUnlockData
+  | RawGovernanceData
+  | RawArticle
+  | RawChannelPost
+  | RawContractEventData
+  | RawRepoActivityData
+  | RawTweet
+  | RawPriceData
+  | RawMarketDiscoveryData;
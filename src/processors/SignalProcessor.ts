@@ -1,10 +1,25 @@
 import { v4 as uuidv4 } from 'uuid';
 import { createLogger } from '../utils/logger.js';
-import { eventBus } from '../core/events/EventBus.js';
+import { eventBus, type EventMap } from '../core/events/EventBus.js';
 import { getConfig, getKeywords } from '../config/index.js';
 import { alertRepository } from '../storage/repositories/AlertRepository.js';
+import { protocolRepository } from '../storage/repositories/ProtocolRepository.js';
+import { rssEntryRepository } from '../storage/repositories/RssEntryRepository.js';
 import { keywordFilter, type KeywordMatch } from './filters/KeywordFilter.js';
 import { tvlAnalyzer } from './analyzers/TVLAnalyzer.js';
+import { protocolListingAnalyzer } from './analyzers/ProtocolListingAnalyzer.js';
+import { yieldAnalyzer } from './analyzers/YieldAnalyzer.js';
+import { stablecoinAnalyzer } from './analyzers/StablecoinAnalyzer.js';
+import { feesAnalyzer } from './analyzers/FeesAnalyzer.js';
+import { volumeAnalyzer } from './analyzers/VolumeAnalyzer.js';
+import { bridgeFlowAnalyzer } from './analyzers/BridgeFlowAnalyzer.js';
+import { securityIncidentAnalyzer } from './analyzers/SecurityIncidentAnalyzer.js';
+import { tokenUnlockAnalyzer } from './analyzers/TokenUnlockAnalyzer.js';
+import { governanceAnalyzer } from './analyzers/GovernanceAnalyzer.js';
+import { contractEventAnalyzer } from './analyzers/ContractEventAnalyzer.js';
+import { priceAnalyzer } from './analyzers/PriceAnalyzer.js';
+import { marketDiscoveryAnalyzer } from './analyzers/MarketDiscoveryAnalyzer.js';
+import { repoActivityAnalyzer } from './analyzers/RepoActivityAnalyzer.js';
 import {
   Alert,
   AlertCategory,
@@ -13,8 +28,21 @@ import {
 } from '../core/types/alerts.js';
 import type {
   RawTVLData,
+  RawYieldData,
+  RawStablecoinData,
+  RawFeesData,
+  RawVolumeData,
+  RawBridgeFlowData,
+  RawHackData,
+  RawUnlockData,
+  RawGovernanceData,
+  RawArticle,
+  RawChannelPost,
+  RawContractEventData,
+  RawRepoActivityData,
   RawTweet,
   RawPriceData,
+  RawMarketDiscoveryData,
   RawData,
 } from '../core/types/sources.js';
 
@@ -27,24 +55,164 @@ export class SignalProcessor {
   constructor() {
     // Subscribe to raw data events
     eventBus.on('collector:tvl', (data) => this.processTVLData(data));
+    eventBus.on('collector:yields', (data) => this.processYieldData(data));
+    eventBus.on('collector:stablecoins', (data) => this.processStablecoinData(data));
+    eventBus.on('collector:fees', (data) => this.processFeesData(data));
+    eventBus.on('collector:volume', (data) => this.processVolumeData(data));
+    eventBus.on('collector:bridges', (data) => this.processBridgeData(data));
+    eventBus.on('collector:hacks', (data) => this.processHackData(data));
+    eventBus.on('collector:unlocks', (data) => this.processUnlockData(data));
+    eventBus.on('collector:governance', (data) => this.processGovernanceData(data));
+    eventBus.on('collector:article', (data) => this.processArticle(data));
+    eventBus.on('collector:channelPost', (data) => this.processChannelPost(data));
+    eventBus.on('collector:contractEvents', (data) => this.processContractEvents(data));
+    eventBus.on('collector:repoActivity', (data) => this.processRepoActivity(data));
     eventBus.on('collector:tweet', (data) => this.processTweet(data));
     eventBus.on('collector:price', (data) => this.processPriceData(data));
+    eventBus.on('collector:discovery', (data) => this.processDiscoveryData(data));
 
     logger.info('SignalProcessor initialized');
   }
 
+  // Route a plugin collector's raw events through the analyzer it ships with
+  registerAnalyzer<K extends keyof EventMap>(
+    event: K,
+    analyze: (payload: EventMap[K]) => Alert[]
+  ): void {
+    eventBus.on(event, async (payload) => {
+      try {
+        for (const alert of analyze(payload)) {
+          await this.emitAlert(alert);
+        }
+      } catch (error) {
+        logger.error(`Analyzer for ${event} failed:`, error);
+      }
+    });
+  }
+
   // Process TVL data from DeFiLlama
   private async processTVLData(data: RawTVLData): Promise<void> {
     logger.debug(`Processing TVL data: ${data.protocols.length} protocols`);
 
-    // Analyze for significant TVL changes
-    const alerts = tvlAnalyzer.analyze(data);
+    // Analyze for significant protocol and chain TVL changes
+    const alerts = [...tvlAnalyzer.analyze(data), ...tvlAnalyzer.analyzeChains(data)];
+
+    for (const alert of alerts) {
+      await this.emitAlert(alert);
+    }
+
+    // New listings, chain deployments and category changes
+    for (const alert of protocolListingAnalyzer.analyze(data)) {
+      if (await this.emitAlert(alert)) {
+        protocolListingAnalyzer.markAnnounced(alert);
+      }
+    }
+  }
+
+  // Process yield pool data from DeFiLlama
+  private async processYieldData(data: RawYieldData): Promise<void> {
+    logger.debug(`Processing yield data: ${data.pools.length} pools`);
+
+    // Analyze for reward APY spikes and new incentivized pools
+    const alerts = yieldAnalyzer.analyze(data);
+
+    for (const alert of alerts) {
+      if (await this.emitAlert(alert)) {
+        yieldAnalyzer.markAnnounced(alert);
+      }
+    }
+  }
+
+  // Process stablecoin supply and peg data from DeFiLlama
+  private async processStablecoinData(data: RawStablecoinData): Promise<void> {
+    logger.debug(`Processing stablecoin data: ${data.stablecoins.length} stablecoins`);
+
+    // Analyze for depegs, large mints/burns and chain migrations
+    const alerts = stablecoinAnalyzer.analyze(data);
+
+    for (const alert of alerts) {
+      await this.emitAlert(alert);
+    }
+  }
+
+  // Process protocol fees and revenue from DeFiLlama
+  private async processFeesData(data: RawFeesData): Promise<void> {
+    logger.debug(`Processing fees data: ${data.protocols.length} protocols`);
+
+    // Analyze for revenue shifts and protocols entering the top N by fees
+    const alerts = feesAnalyzer.analyze(data);
+
+    for (const alert of alerts) {
+      await this.emitAlert(alert);
+    }
+  }
+
+  // Process DEX and derivatives volumes from DeFiLlama
+  private async processVolumeData(data: RawVolumeData): Promise<void> {
+    logger.debug(`Processing volume data: ${data.volumes.length} protocols and chains`);
+
+    // Analyze for volume breakouts against the trailing average
+    const alerts = volumeAnalyzer.analyze(data);
+
+    for (const alert of alerts) {
+      await this.emitAlert(alert);
+    }
+  }
+
+  // Process net bridge flows per chain from DeFiLlama
+  private async processBridgeData(data: RawBridgeFlowData): Promise<void> {
+    logger.debug(`Processing bridge data: ${data.chains.length} chains`);
+
+    // Analyze for large daily flows and sustained weekly migrations
+    const alerts = bridgeFlowAnalyzer.analyze(data);
 
     for (const alert of alerts) {
       await this.emitAlert(alert);
     }
   }
 
+  // Process security incidents from the DeFiLlama hacks dataset
+  private async processHackData(data: RawHackData): Promise<void> {
+    logger.debug(`Processing hack data: ${data.incidents.length} incidents`);
+
+    // Alert on newly listed incidents above the loss threshold
+    const alerts = securityIncidentAnalyzer.analyze(data);
+
+    for (const alert of alerts) {
+      if (await this.emitAlert(alert)) {
+        securityIncidentAnalyzer.markAnnounced(alert);
+      }
+    }
+  }
+
+  // Process upcoming token unlocks
+  private async processUnlockData(data: RawUnlockData): Promise<void> {
+    logger.debug(`Processing unlock data: ${data.unlocks.length} unlocks`);
+
+    // Alert on unlocks entering the daysBeforeUnlock window
+    const alerts = tokenUnlockAnalyzer.analyze(data);
+
+    for (const alert of alerts) {
+      if (await this.emitAlert(alert)) {
+        tokenUnlockAnalyzer.markAlerted(alert);
+      }
+    }
+  }
+
+  // Process governance proposals
+  private async processGovernanceData(data: RawGovernanceData): Promise<void> {
+    logger.debug(`Processing governance data: ${data.proposals.length} proposals`);
+
+    // Alert on new proposals, closing votes and outcomes
+    const alerts = governanceAnalyzer.analyze(data);
+
+    for (const alert of alerts) {
+      if (await this.emitAlert(alert)) {
+        governanceAnalyzer.markNotified(alert);
+      }
+    }
+  }
+
   // Process tweet from Twitter
   private async processTweet(tweet: RawTweet): Promise<void> {
     // Skip retweets
@@ -73,42 +241,115 @@ export class SignalProcessor {
     }
   }
 
+  // Process decoded on-chain contract events
+  private async processContractEvents(data: RawContractEventData): Promise<void> {
+    logger.debug(`Processing contract events: ${data.events.length} events`);
+
+    // Pauses, upgrades and ownership/role changes on watched contracts
+    const alerts = contractEventAnalyzer.analyze(data);
+
+    for (const alert of alerts) {
+      if (await this.emitAlert(alert)) {
+        contractEventAnalyzer.markAnnounced(alert);
+      }
+    }
+  }
+
+  // Process new releases, tags, advisories and audit reports from GitHub
+  private async processRepoActivity(data: RawRepoActivityData): Promise<void> {
+    logger.debug(`Processing repository activity: ${data.events.length} events`);
+
+    const alerts = repoActivityAnalyzer.analyze(data);
+
+    for (const alert of alerts) {
+      if (await this.emitAlert(alert)) {
+        repoActivityAnalyzer.markSeen(alert);
+      }
+    }
+  }
+
+  // Process article from an RSS/Atom feed
+  private async processArticle(article: RawArticle): Promise<void> {
+    // Match against keywords
+    const matches = keywordFilter.matchArticle(article);
+
+    // Take the highest scoring match
+    const topMatch = matches[0];
+    if (!topMatch) {
+      this.markArticleSeen(article);
+      return;
+    }
+
+    const alert = this.createArticleAlert(article, topMatch);
+    if (await this.emitAlert(alert)) {
+      this.markArticleSeen(article);
+    }
+  }
+
+  // Record a feed entry once handled; the collector re-emits it until then
+  private markArticleSeen(article: RawArticle): void {
+    rssEntryRepository.insertNew([
+      {
+        id: article.entryId,
+        feedUrl: article.feedUrl,
+        title: article.title,
+        link: article.link,
+        publishedAt: article.publishedAt,
+      },
+    ]);
+  }
+
+  // Process post from a Telegram channel
+  private async processChannelPost(post: RawChannelPost): Promise<void> {
+    // Match against keywords
+    const matches = keywordFilter.matchChannelPost(post);
+
+    // Take the highest scoring match
+    const topMatch = matches[0];
+    if (!topMatch) {
+      return;
+    }
+
+    const alert = this.createChannelPostAlert(post, topMatch);
+    await this.emitAlert(alert);
+  }
+
   // Process price data from CoinGecko
   private async processPriceData(data: RawPriceData): Promise<void> {
     logger.debug(`Processing price data: ${data.tokens.length} tokens`);
 
-    // Price data is mainly for enrichment and future alerts
-    // For now, we just store it via the collector
+    // Analyze watchlist tokens for price, volume and rank anomalies
+    const alerts = priceAnalyzer.analyze(data);
+
+    for (const alert of alerts) {
+      if (await this.emitAlert(alert)) {
+        priceAnalyzer.markAlerted(alert);
+      }
+    }
+  }
+
+  // Process trending categories and new listings from CoinGecko
+  private async processDiscoveryData(data: RawMarketDiscoveryData): Promise<void> {
+    logger.debug(
+      `Processing discovery data: ${data.newTrendingCategories.length} new trending categories, ${data.newListings.length} new listings`
+    );
+
+    const alerts = marketDiscoveryAnalyzer.analyze(data);
+
+    for (const alert of alerts) {
+      await this.emitAlert(alert);
+    }
   }
 
   // Create alert from tweet based on matched category
   private createTweetAlert(tweet: RawTweet, match: KeywordMatch): Alert | null {
     const categoryPriority = this.getCategoryPriority(match.category);
 
-    // Build title based on category
-    let title: string;
-    switch (match.category) {
-      case AlertCategory.INCENTIVE:
-        title = `🎁 INCENTIVE SIGNAL - @${tweet.authorUsername}`;
-        break;
-      case AlertCategory.SECURITY:
-        title = `🚨 SECURITY ALERT - @${tweet.authorUsername}`;
-        break;
-      case AlertCategory.TOKEN_EVENT:
-        title = `🪙 TOKEN EVENT - @${tweet.authorUsername}`;
-        break;
-      case AlertCategory.GOVERNANCE:
-        title = `🏛 GOVERNANCE UPDATE - @${tweet.authorUsername}`;
-        break;
-      case AlertCategory.NARRATIVE:
-        title = `📊 NARRATIVE SIGNAL - @${tweet.authorUsername}`;
-        break;
-      case AlertCategory.TVL_CHANGE:
-        title = `📈 TVL UPDATE - @${tweet.authorUsername}`;
-        break;
-      default:
-        title = `📢 DEFI SIGNAL - @${tweet.authorUsername}`;
-    }
+    const title = this.buildSignalTitle(match.category, `@${tweet.authorUsername}`);
+
+    // Classify on the quoted/replied-to tweet as well as the comment
+    const context = keywordFilter.tweetContext(tweet);
+    const referenced = tweet.referencedTweets.find((r) => r.type === 'quoted') ?? tweet.referencedTweets[0];
 
     const alert: Alert = {
       id: uuidv4(),
@@ -118,18 +359,26 @@ export class SignalProcessor {
       title,
       summary: tweet.text.substring(0, 280),
       details: {
-        rawContent: tweet.text,
+        rawContent: context,
         sourceUrl: `https://twitter.com/${tweet.authorUsername}/status/${tweet.tweetId}`,
+        quotedContent: referenced
+          ? {
+              relation: referenced.type === 'quoted' ? 'QUOTE' : 'REPLY',
+              author: referenced.authorUsername,
+              text: referenced.text,
+              url: `https://twitter.com/${referenced.authorUsername || 'i/web'}/status/${referenced.tweetId}`,
+            }
+          : undefined,
         incentiveType:
           match.category === AlertCategory.INCENTIVE
-            ? this.detectIncentiveType(tweet.text)
+            ? this.detectIncentiveType(context)
             : undefined,
         security:
           match.category === AlertCategory.SECURITY
             ? {
-                severityLevel: this.detectSecuritySeverity(tweet.text),
-                eventType: this.detectSecurityEventType(tweet.text),
-                protocol: this.extractProtocolName(tweet.text),
+                severityLevel: this.detectSecuritySeverity(context),
+                eventType: this.detectSecurityEventType(context),
+                protocol: this.extractProtocolName(context),
               }
             : undefined,
       },
@@ -153,21 +402,141 @@ export class SignalProcessor {
     return alert;
   }
 
-  // Emit alert if it passes all checks
-  private async emitAlert(alert: Alert): Promise<void> {
+  // Create alert from feed article based on matched category
+  private createArticleAlert(article: RawArticle, match: KeywordMatch): Alert {
+    const text = `${article.title}\n${article.summary}`;
+
+    const alert: Alert = {
+      id: uuidv4(),
+      category: match.category,
+      priority: this.getCategoryPriority(match.category),
+      source: AlertSource.RSS,
+      title: this.buildSignalTitle(match.category, article.feedName),
+      summary: article.summary ? `${article.title} - ${article.summary.substring(0, 240)}` : article.title,
+      details: {
+        rawContent: text,
+        sourceUrl: article.link || article.feedUrl,
+        incentiveType:
+          match.category === AlertCategory.INCENTIVE
+            ? this.detectIncentiveType(text)
+            : undefined,
+        security:
+          match.category === AlertCategory.SECURITY
+            ? {
+                severityLevel: this.detectSecuritySeverity(text),
+                eventType: this.detectSecurityEventType(text),
+                protocol: this.extractProtocolName(text),
+              }
+            : undefined,
+      },
+      metadata: {
+        feedName: article.feedName,
+        articleId: article.entryId,
+        tags: [
+          match.category.toLowerCase(),
+          'rss',
+          ...article.categories.slice(0, 3).map((c) => c.toLowerCase().replace(/\s+/g, '_')),
+          match.isFromPriorityAccount ? 'priority' : '',
+        ].filter(Boolean),
+      },
+      createdAt: new Date(),
+    };
+
+    // Boost priority for security alerts from trusted feeds
+    if (match.category === AlertCategory.SECURITY && match.isFromPriorityAccount) {
+      alert.priority = AlertPriority.CRITICAL;
+    }
+
+    return alert;
+  }
+
+  // Create alert from Telegram channel post based on matched category
+  private createChannelPostAlert(post: RawChannelPost, match: KeywordMatch): Alert {
+    const origin = post.channelUsername ? `@${post.channelUsername}` : post.channelTitle;
+
+    const alert: Alert = {
+      id: uuidv4(),
+      category: match.category,
+      priority: this.getCategoryPriority(match.category),
+      source: AlertSource.TELEGRAM,
+      title: this.buildSignalTitle(match.category, origin),
+      summary: post.text.substring(0, 280),
+      details: {
+        rawContent: post.text,
+        sourceUrl: post.link,
+        incentiveType:
+          match.category === AlertCategory.INCENTIVE
+            ? this.detectIncentiveType(post.text)
+            : undefined,
+        security:
+          match.category === AlertCategory.SECURITY
+            ? {
+                severityLevel: this.detectSecuritySeverity(post.text),
+                eventType: this.detectSecurityEventType(post.text),
+                protocol: this.extractProtocolName(post.text),
+              }
+            : undefined,
+      },
+      metadata: {
+        channelPostId: `${post.chatId}:${post.messageId}`,
+        tags: [
+          match.category.toLowerCase(),
+          'telegram',
+          ...post.hashtags.slice(0, 3),
+          match.isFromPriorityAccount ? 'priority' : '',
+        ].filter(Boolean),
+      },
+      createdAt: new Date(),
+    };
+
+    // Boost priority for security alerts from trusted channels
+    if (match.category === AlertCategory.SECURITY && match.isFromPriorityAccount) {
+      alert.priority = AlertPriority.CRITICAL;
+    }
+
+    return alert;
+  }
+
+  // Title for keyword-matched signals, e.g. "🚨 SECURITY ALERT - @PeckShieldAlert"
+  private buildSignalTitle(category: AlertCategory, origin: string): string {
+    switch (category) {
+      case AlertCategory.INCENTIVE:
+        return `🎁 INCENTIVE SIGNAL - ${origin}`;
+      case AlertCategory.SECURITY:
+        return `🚨 SECURITY ALERT - ${origin}`;
+      case AlertCategory.TOKEN_EVENT:
+        return `🪙 TOKEN EVENT - ${origin}`;
+      case AlertCategory.GOVERNANCE:
+        return `🏛 GOVERNANCE UPDATE - ${origin}`;
+      case AlertCategory.NARRATIVE:
+        return `📊 NARRATIVE SIGNAL - ${origin}`;
+      case AlertCategory.TVL_CHANGE:
+        return `📈 TVL UPDATE - ${origin}`;
+      default:
+        return `📢 DEFI SIGNAL - ${origin}`;
+    }
+  }
+
+  // Emit alert if it passes all checks. Returns false when the alert was held
+  // back, so analyzers tracking what they announced can try again next run; a
+  // duplicate counts as sent.
+  private async emitAlert(alert: Alert): Promise<boolean> {
     const config = getConfig();
 
+    // Link before deduplicating so the stored key matches the sent alert
+    this.linkProtocolToken(alert);
+
     // Check for duplicates
     if (alertRepository.isDuplicate(alert)) {
       logger.debug(`Duplicate alert filtered: ${alert.title}`);
-      return;
+      return true;
     }
 
     // Check global cooldown
     const now = Date.now();
     if (now - this.lastGlobalAlertTime < config.alerts.globalCooldownMs) {
       logger.debug(`Global cooldown active, skipping: ${alert.title}`);
-      return;
+      return false;
     }
 
     // Check category cooldown
@@ -176,13 +545,13 @@ export class SignalProcessor {
 
     if (now - lastCategoryTime < categoryConfig.cooldownMs) {
       logger.debug(`Category cooldown active for ${alert.category}, skipping: ${alert.title}`);
-      return;
+      return false;
     }
 
     // Check if category is enabled
     if (!categoryConfig.enabled) {
       logger.debug(`Category ${alert.category} disabled, skipping: ${alert.title}`);
-      return;
+      return false;
     }
 
     // Update cooldown timestamps
@@ -192,6 +561,37 @@ export class SignalProcessor {
     // Emit the alert
     eventBus.emit('signal:alert', alert);
     logger.info(`Alert emitted: [${alert.category}] ${alert.title}`);
+    return true;
+  }
+
+  // Fill in whichever of protocolId, defillamaSlug and coingeckoId are
+  // missing, using the protocol-to-token mapping from DeFiLlama
+  private linkProtocolToken(alert: Alert): void {
+    const metadata = alert.metadata;
+
+    if (metadata.protocolId && metadata.defillamaSlug && metadata.coingeckoId) {
+      return;
+    }
+
+    const protocolName =
+      alert.details.tvlChange?.protocol ??
+      alert.details.governance?.protocol ??
+      alert.details.security?.protocol;
+
+    const protocol =
+      (metadata.defillamaSlug && protocolRepository.get(metadata.defillamaSlug)) ||
+      (metadata.protocolId && protocolRepository.getByDefillamaId(metadata.protocolId)) ||
+      (metadata.coingeckoId && protocolRepository.getByCoingeckoId(metadata.coingeckoId)) ||
+      (protocolName && protocolRepository.getByName(protocolName)) ||
+      null;
+
+    if (!protocol) {
+      return;
+    }
+
+    metadata.protocolId ??= protocol.defillamaId;
+    metadata.defillamaSlug ??= protocol.slug;
+    metadata.coingeckoId ??= protocol.coingeckoId;
   }
 
   // Helper methods
@@ -0,0 +1,161 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { formatNumber } from '../../utils/format.js';
+import { getConfig } from '../../config/index.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertPriority,
+  AlertSource,
+} from '../../core/types/alerts.js';
+import type {
+  RawBridgeFlowData,
+  BridgeChainFlow,
+  BridgeNetFlow,
+} from '../../core/types/sources.js';
+
+const logger = createLogger('BridgeFlowAnalyzer');
+
+// Counterpart chains and bridges named per alert
+const MAX_NAMED = 3;
+
+type FlowWindow = 24 | 168;
+
+export class BridgeFlowAnalyzer {
+  // TVL_CHANGE alerts for large net bridge flows over the last day and
+  // NARRATIVE alerts for sustained migrations over the last week
+  analyze(data: RawBridgeFlowData): Alert[] {
+    const config = getConfig();
+    const alerts: Alert[] = [];
+
+    const tvlConfig = config.alerts.categories[AlertCategory.TVL_CHANGE];
+    if (tvlConfig.enabled) {
+      const threshold = tvlConfig.thresholds['bridgeNetFlow24hUsd'] || 50000000;
+      alerts.push(...this.checkWindow(data, 24, threshold, tvlConfig.priority));
+    }
+
+    const narrativeConfig = config.alerts.categories[AlertCategory.NARRATIVE];
+    if (narrativeConfig.enabled) {
+      const threshold = narrativeConfig.thresholds['bridgeNetFlow7dUsd'] || 250000000;
+      alerts.push(...this.checkWindow(data, 168, threshold, narrativeConfig.priority));
+    }
+
+    return alerts;
+  }
+
+  private checkWindow(
+    data: RawBridgeFlowData,
+    windowHours: FlowWindow,
+    thresholdUsd: number,
+    categoryPriority: AlertPriority
+  ): Alert[] {
+    const alerts: Alert[] = [];
+    const flowOf = (f: BridgeChainFlow) => (windowHours === 24 ? f.flow24h : f.flow7d);
+
+    for (const chainFlow of data.chains) {
+      const flow = flowOf(chainFlow);
+
+      if (Math.abs(flow.netFlowUsd) < thresholdUsd) {
+        continue;
+      }
+
+      const isInflow = flow.netFlowUsd > 0;
+      const sameDirection = (f: BridgeChainFlow) =>
+        isInflow ? flowOf(f).netFlowUsd > 0 : flowOf(f).netFlowUsd < 0;
+      const byMagnitude = (a: BridgeChainFlow, b: BridgeChainFlow) =>
+        Math.abs(flowOf(b).netFlowUsd) - Math.abs(flowOf(a).netFlowUsd);
+
+      // Capital arriving here left the chains with the largest outflows, and
+      // the other way around
+      const counterpartChains = data.chains
+        .filter((f) => f.chain !== chainFlow.chain && flowOf(f).netFlowUsd !== 0 && !sameDirection(f))
+        .sort(byMagnitude)
+        .slice(0, MAX_NAMED)
+        .map((f) => f.chain);
+
+      const bridges = data.bridges
+        .filter((f) => f.chain === chainFlow.chain && sameDirection(f))
+        .sort(byMagnitude)
+        .slice(0, MAX_NAMED)
+        .map((f) => f.bridgeName);
+
+      alerts.push(
+        this.createAlert(chainFlow.chain, flow, windowHours, counterpartChains, bridges, categoryPriority, thresholdUsd)
+      );
+
+      logger.info(
+        `Bridge ${isInflow ? 'inflow' : 'outflow'}: ${chainFlow.chain} $${formatNumber(Math.abs(flow.netFlowUsd))} over ${windowHours}h`
+      );
+    }
+
+    return alerts;
+  }
+
+  private createAlert(
+    chain: string,
+    flow: BridgeNetFlow,
+    windowHours: FlowWindow,
+    counterpartChains: string[],
+    bridges: string[],
+    categoryPriority: AlertPriority,
+    thresholdUsd: number
+  ): Alert {
+    const isInflow = flow.netFlowUsd > 0;
+    const isWeekly = windowHours === 168;
+    const amount = `$${formatNumber(Math.abs(flow.netFlowUsd))}`;
+    const period = isWeekly ? 'the last 7 days' : 'the last 24 hours';
+
+    const route = isInflow
+      ? `${counterpartChains.length > 0 ? `${counterpartChains.join(', ')} → ` : ''}${chain}`
+      : `${chain}${counterpartChains.length > 0 ? ` → ${counterpartChains.join(', ')}` : ''}`;
+
+    let summary = `Net ${amount} was bridged ${isInflow ? 'into' : 'out of'} ${chain} over ${period} ($${formatNumber(flow.withdrawUsd)} in, $${formatNumber(flow.depositUsd)} out).`;
+    if (counterpartChains.length > 0) {
+      summary += ` Largest ${isInflow ? 'outflows' : 'inflows'} among tracked chains: ${counterpartChains.join(', ')}.`;
+    }
+    if (bridges.length > 0) {
+      summary += ` Mostly via ${bridges.join(', ')}.`;
+    }
+
+    let priority = categoryPriority;
+    if (!isWeekly) {
+      priority =
+        Math.abs(flow.netFlowUsd) >= thresholdUsd * 3 ? AlertPriority.HIGH : AlertPriority.MEDIUM;
+    }
+
+    const chainTag = chain.toLowerCase().replace(/\s+/g, '_');
+
+    return {
+      id: uuidv4(),
+      category: isWeekly ? AlertCategory.NARRATIVE : AlertCategory.TVL_CHANGE,
+      priority,
+      source: AlertSource.DEFILLAMA,
+      title: isWeekly
+        ? `🧭 CAPITAL MIGRATION - ${route}`
+        : `🌉 BRIDGE ${isInflow ? 'INFLOW' : 'OUTFLOW'} - ${route}`,
+      summary,
+      details: {
+        bridgeFlow: {
+          chain,
+          direction: isInflow ? 'INFLOW' : 'OUTFLOW',
+          netFlowUsd: flow.netFlowUsd,
+          depositUsd: flow.depositUsd,
+          withdrawUsd: flow.withdrawUsd,
+          windowHours,
+          counterpartChains,
+          bridges,
+        },
+        ...(isWeekly ? { narrative: { narrativeType: 'CAPITAL_MIGRATION' as const } } : {}),
+        sourceUrl: `https://defillama.com/bridges/${encodeURIComponent(chain)}`,
+      },
+      metadata: {
+        chainId: chain,
+        tags: ['bridge', isInflow ? 'inflow' : 'outflow', chainTag, ...(isWeekly ? ['narrative'] : [])],
+      },
+      createdAt: new Date(),
+    };
+  }
+}
+
+export const bridgeFlowAnalyzer = new BridgeFlowAnalyzer();
+export default bridgeFlowAnalyzer;
@@ -0,0 +1,230 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { getConfig } from '../../config/index.js';
+import { contractEventRepository } from '../../storage/repositories/ContractEventRepository.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertPriority,
+  AlertSource,
+  type GovernanceDetails,
+  type SecurityDetails,
+} from '../../core/types/alerts.js';
+import type { RawContractEventData, ContractEvent } from '../../core/types/sources.js';
+
+const logger = createLogger('ContractEventAnalyzer');
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Well-known AccessControl role ids (keccak256 of the role name)
+const KNOWN_ROLES: Record<string, string> = {
+  '0x0000000000000000000000000000000000000000000000000000000000000000': 'DEFAULT_ADMIN_ROLE',
+  '0x65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a': 'PAUSER_ROLE',
+  '0x9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6': 'MINTER_ROLE',
+  '0x189ab7a9244df0848122154315af71fe140f3db0fe014031783b0946b8c9d2e3': 'UPGRADER_ROLE',
+};
+
+export class ContractEventAnalyzer {
+  // Event behind each pending alert, by alert id, until markAnnounced confirms
+  // the alert went out
+  private pending: Map<string, string> = new Map();
+
+  // Turn stored contract events not alerted on yet into SECURITY (pauses) and
+  // GOVERNANCE (upgrades, ownership and role changes) alerts. Events held back
+  // by a cooldown stay pending and are raised again on the next run.
+  analyze(_data: RawContractEventData): Alert[] {
+    const config = getConfig();
+    const alerts: Alert[] = [];
+    const dropped: string[] = [];
+
+    this.pending.clear();
+
+    for (const event of contractEventRepository.getUnannounced()) {
+      const isSecurity = event.eventName === 'Paused' || event.eventName === 'Unpaused';
+      const category = isSecurity ? AlertCategory.SECURITY : AlertCategory.GOVERNANCE;
+      const categoryConfig = config.alerts.categories[category];
+
+      if (!categoryConfig.enabled) {
+        dropped.push(event.id);
+        continue;
+      }
+
+      const alert = isSecurity
+        ? this.createSecurityAlert(event, categoryConfig.priority)
+        : this.createGovernanceAlert(event, categoryConfig.priority);
+
+      this.pending.set(alert.id, event.id);
+      alerts.push(alert);
+
+      logger.info(
+        `Contract event alert: ${event.eventName} on ${event.protocol} (${event.chain}) tx ${event.txHash}`
+      );
+    }
+
+    if (dropped.length > 0) {
+      contractEventRepository.markAnnounced(dropped);
+    }
+
+    return alerts;
+  }
+
+  // Record the event behind a sent alert as announced
+  markAnnounced(alert: Alert): void {
+    const eventId = this.pending.get(alert.id);
+    if (eventId) {
+      contractEventRepository.markAnnounced([eventId]);
+      this.pending.delete(alert.id);
+    }
+  }
+
+  private createSecurityAlert(event: ContractEvent, categoryPriority: AlertPriority): Alert {
+    const isPause = event.eventName === 'Paused';
+    const contractName = event.label || event.protocol;
+
+    const security: SecurityDetails = {
+      // A resume is informational, a pause usually means an incident response
+      severityLevel: isPause ? 'HIGH' : 'INFO',
+      eventType: 'PAUSE',
+      protocol: event.protocol,
+      affectedChains: [event.chain],
+      txHash: event.txHash,
+    };
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.SECURITY,
+      priority: isPause ? categoryPriority : AlertPriority.MEDIUM,
+      source: AlertSource.ONCHAIN,
+      title: `${isPause ? '⏸️ CONTRACT PAUSED' : '▶️ CONTRACT UNPAUSED'} - ${event.protocol}`,
+      summary: `${contractName} (${this.shortAddress(event.address)}) on ${event.chain} was ${isPause ? 'paused' : 'unpaused'} by ${this.shortAddress(event.args['account'])} at block ${event.blockNumber}.`,
+      details: {
+        security,
+        sourceUrl: this.txUrl(event),
+      },
+      metadata: {
+        chainId: event.chain,
+        txHash: event.txHash,
+        tags: ['security', 'onchain', isPause ? 'pause' : 'unpause', ...this.commonTags(event)],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  private createGovernanceAlert(event: ContractEvent, categoryPriority: AlertPriority): Alert {
+    const contractName = event.label || event.protocol;
+    const where = `${contractName} (${this.shortAddress(event.address)}) on ${event.chain}`;
+
+    let title: string;
+    let summary: string;
+    let parameterName: string;
+    let oldValue: string | undefined;
+    let newValue: string | undefined;
+
+    // Control of upgrades and ownership is what exploits and rugs go after
+    let priority = Math.max(categoryPriority, AlertPriority.HIGH);
+
+    switch (event.eventName) {
+      case 'Upgraded':
+        title = `⬆️ CONTRACT UPGRADED - ${event.protocol}`;
+        parameterName = 'implementation';
+        newValue = event.args['implementation'];
+        summary = `${where} was upgraded to implementation ${this.shortAddress(newValue)}.`;
+        break;
+      case 'AdminChanged':
+        title = `🔑 PROXY ADMIN CHANGED - ${event.protocol}`;
+        parameterName = 'proxy admin';
+        oldValue = event.args['previousAdmin'];
+        newValue = event.args['newAdmin'];
+        summary = `Proxy admin of ${where} changed from ${this.shortAddress(oldValue)} to ${this.shortAddress(newValue)}.`;
+        break;
+      case 'OwnershipTransferred':
+        title = `🔑 OWNERSHIP TRANSFERRED - ${event.protocol}`;
+        parameterName = 'owner';
+        oldValue = event.args['previousOwner'];
+        newValue = event.args['newOwner'];
+        summary =
+          newValue === ZERO_ADDRESS
+            ? `Ownership of ${where} was renounced by ${this.shortAddress(oldValue)}.`
+            : `Ownership of ${where} moved from ${this.shortAddress(oldValue)} to ${this.shortAddress(newValue)}.`;
+        break;
+      default: {
+        const isGrant = event.eventName === 'RoleGranted';
+        const roleName = this.roleName(event.args['role']);
+        const account = event.args['account'];
+
+        title = `${isGrant ? '🛡 ROLE GRANTED' : '🛡 ROLE REVOKED'} - ${event.protocol}`;
+        parameterName = roleName;
+        oldValue = isGrant ? undefined : account;
+        newValue = isGrant ? account : undefined;
+        summary = `${roleName} ${isGrant ? 'granted to' : 'revoked from'} ${this.shortAddress(account)} on ${where} by ${this.shortAddress(event.args['sender'])}.`;
+
+        // Only admin-level roles rank above regular governance updates
+        if (roleName !== 'DEFAULT_ADMIN_ROLE' && roleName !== 'UPGRADER_ROLE') {
+          priority = categoryPriority;
+        }
+      }
+    }
+
+    const governance: GovernanceDetails = {
+      changeType: 'OTHER',
+      protocol: event.protocol,
+      parameterName,
+      oldValue,
+      newValue,
+      txHash: event.txHash,
+      affectedChains: [event.chain],
+    };
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.GOVERNANCE,
+      priority,
+      source: AlertSource.ONCHAIN,
+      title,
+      summary,
+      details: {
+        governance,
+        sourceUrl: this.txUrl(event),
+      },
+      metadata: {
+        chainId: event.chain,
+        txHash: event.txHash,
+        tags: [
+          'governance',
+          'onchain',
+          event.eventName.toLowerCase(),
+          ...this.commonTags(event),
+        ],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  private roleName(role?: string): string {
+    if (!role) {
+      return 'unknown role';
+    }
+    return KNOWN_ROLES[role.toLowerCase()] || `role ${role.slice(0, 10)}…`;
+  }
+
+  private txUrl(event: ContractEvent): string | undefined {
+    return event.explorerUrl ? `${event.explorerUrl.replace(/\/$/, '')}/tx/${event.txHash}` : undefined;
+  }
+
+  private shortAddress(address?: string): string {
+    if (!address) {
+      return 'unknown';
+    }
+    return `${address.slice(0, 6)}…${address.slice(-4)}`;
+  }
+
+  private commonTags(event: ContractEvent): string[] {
+    return [
+      event.protocol.toLowerCase().replace(/\s+/g, '_'),
+      event.chain.toLowerCase().replace(/\s+/g, '_'),
+    ];
+  }
+}
+
+export const contractEventAnalyzer = new ContractEventAnalyzer();
+export default contractEventAnalyzer;
@@ -0,0 +1,161 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { formatNumber } from '../../utils/format.js';
+import { getConfig } from '../../config/index.js';
+import { feesRepository } from '../../storage/repositories/FeesRepository.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertPriority,
+  AlertSource,
+} from '../../core/types/alerts.js';
+import type { RawFeesData, DefiLlamaProtocolFees } from '../../core/types/sources.js';
+
+const logger = createLogger('FeesAnalyzer');
+
+// Days of revenue history needed before shifts are judged
+const MIN_TRAILING_DAYS = 3;
+
+export class FeesAnalyzer {
+  // Analyze fees data for revenue shifts against the trailing average and for
+  // protocols entering the top N by fees
+  analyze(data: RawFeesData): Alert[] {
+    const config = getConfig();
+    const categoryConfig = config.alerts.categories[AlertCategory.TVL_CHANGE];
+
+    if (!categoryConfig.enabled) {
+      return [];
+    }
+
+    const alerts: Alert[] = [];
+
+    for (const protocol of data.protocols) {
+      const revenueAlert = this.checkRevenue(protocol);
+      if (revenueAlert) {
+        alerts.push(revenueAlert);
+      }
+
+      const rankAlert = this.checkRank(protocol, categoryConfig.priority);
+      if (rankAlert) {
+        alerts.push(rankAlert);
+      }
+    }
+
+    return alerts;
+  }
+
+  private checkRevenue(protocol: DefiLlamaProtocolFees): Alert | null {
+    const thresholds = getConfig().alerts.categories[AlertCategory.TVL_CHANGE].thresholds;
+    const growthPercent = thresholds['revenueGrowthPercent'] || 100;
+    const collapsePercent = thresholds['revenueCollapsePercent'] || 50;
+    const minDailyRevenueUsd = thresholds['minDailyRevenueUsd'] || 50000;
+    const trailingDays = thresholds['revenueTrailingDays'] || 7;
+
+    if (protocol.revenue24h === undefined) {
+      return null;
+    }
+
+    const trailing = feesRepository.calculateTrailingRevenue(
+      protocol.slug,
+      trailingDays,
+      MIN_TRAILING_DAYS
+    );
+
+    if (!trailing || trailing.average <= 0) {
+      return null;
+    }
+
+    const revenue = protocol.revenue24h;
+    const changePercent = ((revenue - trailing.average) / trailing.average) * 100;
+
+    const isGrowth = changePercent >= growthPercent && revenue >= minDailyRevenueUsd;
+    const isCollapse = changePercent <= -collapsePercent && trailing.average >= minDailyRevenueUsd;
+
+    if (!isGrowth && !isCollapse) {
+      return null;
+    }
+
+    logger.info(
+      `Revenue ${isGrowth ? 'growth' : 'collapse'}: ${protocol.name} ${changePercent.toFixed(1)}% vs ${trailing.days}d average`
+    );
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.TVL_CHANGE,
+      priority:
+        (isGrowth && changePercent >= growthPercent * 3) || (isCollapse && changePercent <= -80)
+          ? AlertPriority.HIGH
+          : AlertPriority.MEDIUM,
+      source: AlertSource.DEFILLAMA,
+      title: `${isGrowth ? '💸 REVENUE SURGE' : '🧊 REVENUE COLLAPSE'} - ${protocol.name}`,
+      summary: `${protocol.name} made $${formatNumber(revenue)} revenue in the last 24 hours, ${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(1)}% against its ${trailing.days}-day average of $${formatNumber(trailing.average)}. Fees: $${formatNumber(protocol.fees24h)}.`,
+      details: {
+        fees: {
+          eventType: isGrowth ? 'REVENUE_GROWTH' : 'REVENUE_COLLAPSE',
+          protocol: protocol.name,
+          fees24h: protocol.fees24h,
+          revenue24h: revenue,
+          trailingRevenue: trailing.average,
+          trailingDays: trailing.days,
+          changePercent,
+          feesRank: protocol.feesRank,
+        },
+        sourceUrl: `https://defillama.com/protocol/${protocol.slug}`,
+      },
+      metadata: {
+        defillamaSlug: protocol.slug,
+        tags: ['revenue', protocol.slug, isGrowth ? 'growth' : 'collapse'],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  // Entering the top N, judged against the rank stored on the previous poll.
+  // Protocols seen for the first time have no previous rank and are skipped,
+  // so the first poll doesn't announce the whole top N.
+  private checkRank(protocol: DefiLlamaProtocolFees, categoryPriority: AlertPriority): Alert | null {
+    const thresholds = getConfig().alerts.categories[AlertCategory.TVL_CHANGE].thresholds;
+    const topN = thresholds['feesTopN'] || 20;
+
+    if (protocol.feesRank > topN) {
+      return null;
+    }
+
+    const state = feesRepository.get(protocol.slug);
+
+    if (state?.previousFeesRank === undefined || state.previousFeesRank <= topN) {
+      return null;
+    }
+
+    logger.info(
+      `Top fees: ${protocol.name} #${state.previousFeesRank} → #${protocol.feesRank}`
+    );
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.TVL_CHANGE,
+      priority: categoryPriority,
+      source: AlertSource.DEFILLAMA,
+      title: `🏆 TOP ${topN} BY FEES - ${protocol.name}`,
+      summary: `${protocol.name}${protocol.category ? ` (${protocol.category})` : ''} entered the top ${topN} protocols by fees, moving from #${state.previousFeesRank} to #${protocol.feesRank} with $${formatNumber(protocol.fees24h)} in the last 24 hours.`,
+      details: {
+        fees: {
+          eventType: 'TOP_FEES',
+          protocol: protocol.name,
+          fees24h: protocol.fees24h,
+          revenue24h: protocol.revenue24h,
+          feesRank: protocol.feesRank,
+        },
+        sourceUrl: `https://defillama.com/protocol/${protocol.slug}`,
+      },
+      metadata: {
+        defillamaSlug: protocol.slug,
+        tags: ['fees', protocol.slug, 'top_fees'],
+      },
+      createdAt: new Date(),
+    };
+  }
+}
+
+export const feesAnalyzer = new FeesAnalyzer();
+export default feesAnalyzer;
@@ -0,0 +1,266 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { getConfig } from '../../config/index.js';
+import {
+  governanceRepository,
+  FINAL_PROPOSAL_STATES,
+  type ProposalNotification,
+} from '../../storage/repositories/GovernanceRepository.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertPriority,
+  AlertSource,
+  type GovernanceDetails,
+} from '../../core/types/alerts.js';
+import type { GovernanceProposalRecord } from '../../core/types/protocols.js';
+import type { RawGovernanceData } from '../../core/types/sources.js';
+
+const logger = createLogger('GovernanceAnalyzer');
+
+// Title keywords used to classify what a proposal changes, checked in order
+const CHANGE_TYPE_KEYWORDS: Array<[GovernanceDetails['changeType'], RegExp]> = [
+  ['COLLATERAL_RULE', /collateral|\bltv\b|liquidation|debt ceiling|borrow cap|supply cap|onboard/i],
+  ['FEE_CHANGE', /\bfees?\b|spread|stability fee|reserve factor/i],
+  ['REWARD_MULTIPLIER', /reward|emission|incentive|gauge|multiplier|boost/i],
+  ['YIELD_PARAM', /\bapy\b|\bapr\b|interest rate|savings rate|\bdsr\b|\bssr\b|yield|rate model/i],
+];
+
+// "Set/Change/Increase X from A to B"
+const PARAMETER_PATTERN =
+  /(?:set|change|update|increase|decrease|raise|lower|adjust|reduce)\s+(?:the\s+)?(.+?)\s+from\s+([\w.%$,-]+)\s+to\s+([\w.%$,-]+)/i;
+
+const YES_CHOICE = /^(for|yes|yae|yay|approve|in favou?r)/i;
+const NO_CHOICE = /^(against|no|nay|reject)/i;
+
+const STATUS_TITLES: Record<NonNullable<GovernanceDetails['proposalStatus']>, string> = {
+  NEW: '🏛 NEW PROPOSAL',
+  CLOSING: '⏳ VOTE CLOSING',
+  PASSED: '✅ PROPOSAL PASSED',
+  REJECTED: '❌ PROPOSAL REJECTED',
+  EXECUTED: '⚙️ PROPOSAL EXECUTED',
+};
+
+export class GovernanceAnalyzer {
+  // Notifications each pending alert stands for, by alert id, until
+  // markNotified confirms the alert went out
+  private pending: Map<string, { proposalId: string; notifications: ProposalNotification[] }> =
+    new Map();
+
+  // Generate GOVERNANCE alerts for new proposals, votes about to close and
+  // proposals that reached an outcome. Proposals without an alert are marked
+  // notified here; the rest only once their alert is sent.
+  analyze(_data: RawGovernanceData): Alert[] {
+    const config = getConfig();
+    const categoryConfig = config.alerts.categories[AlertCategory.GOVERNANCE];
+    const closingWindowMs = config.collectors.governance.closingWindowHours * 60 * 60 * 1000;
+    const now = Date.now();
+
+    const alerts: Alert[] = [];
+
+    // Alerts held back last run are raised again below
+    this.pending.clear();
+
+    for (const proposal of governanceRepository.getPending()) {
+      const sent: ProposalNotification[] = [];
+      let status: GovernanceDetails['proposalStatus'] | null = null;
+
+      if (FINAL_PROPOSAL_STATES.includes(proposal.state)) {
+        // Outcome supersedes any new/closing notification not sent yet
+        sent.push('new', 'closing', 'final');
+        status = this.detectOutcome(proposal);
+      } else if (!proposal.notifiedNew) {
+        sent.push('new');
+        status = 'NEW';
+
+        // A proposal first seen inside the closing window gets a single alert
+        if (proposal.state === 'active' && proposal.endAt.getTime() - now <= closingWindowMs) {
+          sent.push('closing');
+        }
+      } else if (
+        !proposal.notifiedClosing &&
+        proposal.state === 'active' &&
+        proposal.endAt.getTime() - now <= closingWindowMs
+      ) {
+        sent.push('closing');
+        status = 'CLOSING';
+      }
+
+      if (sent.length === 0) {
+        continue;
+      }
+
+      if (!status || !categoryConfig.enabled) {
+        governanceRepository.markNotified(proposal.id, sent);
+        continue;
+      }
+
+      const alert = this.createAlert(proposal, status, categoryConfig.priority);
+      this.pending.set(alert.id, { proposalId: proposal.id, notifications: sent });
+      alerts.push(alert);
+
+      logger.info(`Governance alert: ${status} ${proposal.space} - ${proposal.title}`);
+    }
+
+    return alerts;
+  }
+
+  // Record the notifications behind a sent alert
+  markNotified(alert: Alert): void {
+    const pending = this.pending.get(alert.id);
+    if (pending) {
+      governanceRepository.markNotified(pending.proposalId, pending.notifications);
+      this.pending.delete(alert.id);
+    }
+  }
+
+  private createAlert(
+    proposal: GovernanceProposalRecord,
+    status: NonNullable<GovernanceDetails['proposalStatus']>,
+    categoryPriority: AlertPriority
+  ): Alert {
+    const protocol = proposal.spaceName || proposal.space;
+    const parameter = this.extractParameter(proposal.title);
+    const changeType = this.detectChangeType(proposal.title);
+
+    const effectiveDate =
+      status === 'EXECUTED' ? proposal.executedAt ?? proposal.endAt : proposal.endAt;
+
+    const governance: GovernanceDetails = {
+      changeType,
+      proposalStatus: status,
+      protocol,
+      parameterName: parameter?.name || proposal.title,
+      oldValue: parameter?.oldValue,
+      newValue: parameter?.newValue,
+      proposalUrl: proposal.url,
+      effectiveDate,
+    };
+
+    // Outcomes and executions change live parameters, so they rank above new votes
+    const priority =
+      status === 'PASSED' || status === 'EXECUTED'
+        ? Math.max(categoryPriority, AlertPriority.HIGH)
+        : categoryPriority;
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.GOVERNANCE,
+      priority,
+      source: proposal.provider === 'snapshot' ? AlertSource.SNAPSHOT : AlertSource.TALLY,
+      title: `${STATUS_TITLES[status]} - ${protocol}`,
+      summary: this.buildSummary(proposal, status, protocol),
+      details: {
+        governance,
+        sourceUrl: proposal.url,
+      },
+      metadata: {
+        tags: [
+          'governance',
+          status.toLowerCase(),
+          changeType.toLowerCase(),
+          proposal.space.toLowerCase(),
+        ],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  private buildSummary(
+    proposal: GovernanceProposalRecord,
+    status: NonNullable<GovernanceDetails['proposalStatus']>,
+    protocol: string
+  ): string {
+    const endDate = proposal.endAt.toISOString().slice(0, 16).replace('T', ' ');
+
+    switch (status) {
+      case 'NEW':
+        return `${protocol} proposal "${proposal.title}" is up for vote. Voting ends ${endDate} UTC.`;
+      case 'CLOSING': {
+        const hoursLeft = Math.max(0, Math.round((proposal.endAt.getTime() - Date.now()) / (60 * 60 * 1000)));
+        return `Voting on ${protocol} proposal "${proposal.title}" closes in ~${hoursLeft}h (${endDate} UTC).${this.formatLeader(proposal)}`;
+      }
+      case 'PASSED':
+        return `${protocol} proposal "${proposal.title}" passed.${this.formatLeader(proposal, 'Winning choice')}`;
+      case 'REJECTED':
+        return `${protocol} proposal "${proposal.title}" was rejected.${this.formatLeader(proposal, 'Winning choice')}`;
+      case 'EXECUTED':
+        return `${protocol} proposal "${proposal.title}" was executed on-chain${proposal.executedAt ? ` on ${proposal.executedAt.toISOString().slice(0, 10)}` : ''}.`;
+    }
+  }
+
+  // Leading choice and its share of the vote, when scores are available
+  private formatLeader(proposal: GovernanceProposalRecord, label = 'Leading choice'): string {
+    const leader = this.getLeader(proposal);
+    return leader ? ` ${label}: ${leader.choice} (${leader.share.toFixed(1)}%).` : '';
+  }
+
+  private getLeader(proposal: GovernanceProposalRecord): { choice: string; share: number } | null {
+    const total = proposal.scores.reduce((sum, s) => sum + s, 0);
+
+    if (total <= 0) {
+      return null;
+    }
+
+    let best = 0;
+    proposal.scores.forEach((score, i) => {
+      if (score > (proposal.scores[best] ?? 0)) {
+        best = i;
+      }
+    });
+
+    const choice = proposal.choices[best];
+    return choice ? { choice, share: ((proposal.scores[best] ?? 0) / total) * 100 } : null;
+  }
+
+  private detectOutcome(
+    proposal: GovernanceProposalRecord
+  ): GovernanceDetails['proposalStatus'] | null {
+    switch (proposal.state) {
+      case 'executed':
+        return 'EXECUTED';
+      case 'defeated':
+        return 'REJECTED';
+      case 'canceled':
+        return null;
+    }
+
+    // Off-chain votes: decide from the winning choice
+    const leader = this.getLeader(proposal);
+    if (!leader) {
+      return null;
+    }
+
+    if (NO_CHOICE.test(leader.choice)) {
+      return 'REJECTED';
+    }
+
+    // Multiple-choice votes don't pass or fail, but do settle on an option
+    return YES_CHOICE.test(leader.choice) || proposal.choices.length > 2 ? 'PASSED' : null;
+  }
+
+  private detectChangeType(title: string): GovernanceDetails['changeType'] {
+    for (const [changeType, pattern] of CHANGE_TYPE_KEYWORDS) {
+      if (pattern.test(title)) {
+        return changeType;
+      }
+    }
+
+    return 'OTHER';
+  }
+
+  private extractParameter(
+    title: string
+  ): { name: string; oldValue: string; newValue: string } | null {
+    const match = title.match(PARAMETER_PATTERN);
+
+    if (!match || !match[1] || !match[2] || !match[3]) {
+      return null;
+    }
+
+    return { name: match[1], oldValue: match[2], newValue: match[3] };
+  }
+}
+
+export const governanceAnalyzer = new GovernanceAnalyzer();
+export default governanceAnalyzer;
@@ -0,0 +1,137 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { formatNumber } from '../../utils/format.js';
+import { getConfig } from '../../config/index.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertPriority,
+  AlertSource,
+} from '../../core/types/alerts.js';
+import type {
+  RawMarketDiscoveryData,
+  CoinGeckoTrendingCategory,
+  CoinGeckoListing,
+} from '../../core/types/sources.js';
+
+const logger = createLogger('MarketDiscoveryAnalyzer');
+
+// Display names for CoinGecko asset platform ids
+const PLATFORM_NAMES: Record<string, string> = {
+  ethereum: 'Ethereum',
+  'arbitrum-one': 'Arbitrum',
+  'optimistic-ethereum': 'Optimism',
+  base: 'Base',
+  'polygon-pos': 'Polygon',
+  'binance-smart-chain': 'BSC',
+  avalanche: 'Avalanche',
+  solana: 'Solana',
+};
+
+export class MarketDiscoveryAnalyzer {
+  // NARRATIVE alerts for categories entering CoinGecko's trending list and
+  // TOKEN_EVENT launch alerts for new listings on tracked chains
+  analyze(data: RawMarketDiscoveryData): Alert[] {
+    const config = getConfig();
+    const alerts: Alert[] = [];
+
+    const narrativeConfig = config.alerts.categories[AlertCategory.NARRATIVE];
+    if (narrativeConfig.enabled) {
+      for (const category of data.newTrendingCategories) {
+        alerts.push(this.createTrendingAlert(category, narrativeConfig.priority));
+        logger.info(`Trending category: ${category.name} (#${category.position})`);
+      }
+    }
+
+    const tokenConfig = config.alerts.categories[AlertCategory.TOKEN_EVENT];
+    if (tokenConfig.enabled) {
+      for (const listing of data.newListings) {
+        alerts.push(this.createListingAlert(listing));
+        logger.info(`New listing: ${listing.symbol.toUpperCase()} (${listing.id})`);
+      }
+    }
+
+    return alerts;
+  }
+
+  private createTrendingAlert(
+    category: CoinGeckoTrendingCategory,
+    categoryPriority: AlertPriority
+  ): Alert {
+    let summary = `${category.name} entered CoinGecko's trending categories at #${category.position}`;
+    if (category.marketCap !== undefined) {
+      summary += `, with a combined market cap of $${formatNumber(category.marketCap)}`;
+      if (category.marketCapChange24h !== undefined) {
+        const changeSign = category.marketCapChange24h >= 0 ? '+' : '';
+        summary += ` (${changeSign}${category.marketCapChange24h.toFixed(1)}% 24h)`;
+      }
+    }
+    summary += ` across ${category.coinsCount} coins.`;
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.NARRATIVE,
+      priority: categoryPriority,
+      source: AlertSource.COINGECKO,
+      title: `🔥 TRENDING SECTOR - ${category.name}`,
+      summary,
+      details: {
+        narrative: {
+          narrativeType: 'TREND_EMERGENCE',
+          sectorName: category.name,
+          // 24h market cap change of the sector, when CoinGecko reports it
+          trendStrength: category.marketCapChange24h,
+        },
+        sourceUrl: `https://www.coingecko.com/en/categories/${category.slug}`,
+      },
+      metadata: {
+        tags: ['narrative', 'trending', category.slug.replace(/-/g, '_')],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  private createListingAlert(listing: CoinGeckoListing): Alert {
+    const symbol = listing.symbol.toUpperCase();
+    const platforms = Object.entries(listing.platforms);
+    const chains = platforms.map(([platform]) => this.platformName(platform));
+    const [primaryPlatform, primaryAddress] = platforms[0] ?? [];
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.TOKEN_EVENT,
+      // A listing alone says little about the token; unlocks outrank it
+      priority: AlertPriority.MEDIUM,
+      source: AlertSource.COINGECKO,
+      title: `🆕 NEW TOKEN LISTED - ${symbol}`,
+      summary: `${listing.name} (${symbol}) was just listed on CoinGecko with a contract on ${chains.join(', ')}.`,
+      details: {
+        tokenEvent: {
+          eventType: 'LAUNCH',
+          tokenSymbol: symbol,
+          tokenAddress: primaryAddress,
+          chain: primaryPlatform ? this.platformName(primaryPlatform) : undefined,
+        },
+        sourceUrl: `https://www.coingecko.com/en/coins/${listing.id}`,
+      },
+      metadata: {
+        coingeckoId: listing.id,
+        tokenIds: [listing.id],
+        tags: [
+          'token',
+          'launch',
+          listing.symbol.toLowerCase(),
+          ...chains.map((c) => c.toLowerCase().replace(/\s+/g, '_')),
+        ],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  private platformName(platform: string): string {
+    return PLATFORM_NAMES[platform] || platform;
+  }
+}
+
+export const marketDiscoveryAnalyzer = new MarketDiscoveryAnalyzer();
+export default marketDiscoveryAnalyzer;
@@ -0,0 +1,293 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { formatNumber } from '../../utils/format.js';
+import { getConfig } from '../../config/index.js';
+import { tokenPriceRepository } from '../../storage/repositories/TokenPriceRepository.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertPriority,
+  AlertSource,
+  type MarketMoveDetails,
+} from '../../core/types/alerts.js';
+import type { RawPriceData, CoinGeckoToken } from '../../core/types/sources.js';
+
+const logger = createLogger('PriceAnalyzer');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long before the same kind of alert can fire again for a token
+const REALERT_AFTER_MS: Record<string, number> = {
+  price1h: HOUR_MS,
+  price24h: 24 * HOUR_MS,
+  volume: 24 * HOUR_MS,
+  rank: 24 * HOUR_MS,
+};
+
+interface MarketThresholds {
+  priceChange1hPercent: number;
+  priceChange24hPercent: number;
+  volumeSpikeMultiple: number;
+  minVolumeUsd: number;
+  minRankJump: number;
+}
+
+export class PriceAnalyzer {
+  // Analyze watchlist tokens for large price moves, volume spikes against the
+  // trailing 7d average and market cap rank jumps
+  analyze(data: RawPriceData): Alert[] {
+    const config = getConfig();
+    const categoryConfig = config.alerts.categories[AlertCategory.TOKEN_EVENT];
+
+    if (!categoryConfig.enabled) {
+      return [];
+    }
+
+    const alerts: Alert[] = [];
+
+    for (const token of data.tokens) {
+      const thresholds = this.getThresholds(token.id);
+
+      const priceAlert = this.checkPriceMove(token, thresholds, categoryConfig.priority);
+      if (priceAlert) {
+        alerts.push(priceAlert);
+      }
+
+      const volumeAlert = this.checkVolumeSpike(token, thresholds);
+      if (volumeAlert) {
+        alerts.push(volumeAlert);
+      }
+
+      const rankAlert = this.checkRankJump(token, thresholds);
+      if (rankAlert) {
+        alerts.push(rankAlert);
+      }
+    }
+
+    return alerts;
+  }
+
+  // Category thresholds, overridden per token by collectors.coingecko.tokenThresholds
+  private getThresholds(coingeckoId: string): MarketThresholds {
+    const config = getConfig();
+    const merged = {
+      ...config.alerts.categories[AlertCategory.TOKEN_EVENT].thresholds,
+      ...config.collectors.coingecko.tokenThresholds[coingeckoId],
+    };
+
+    return {
+      priceChange1hPercent: merged['priceChange1hPercent'] || 5,
+      priceChange24hPercent: merged['priceChange24hPercent'] || 15,
+      volumeSpikeMultiple: merged['volumeSpikeMultiple'] || 3,
+      minVolumeUsd: merged['minVolumeUsd'] || 1000000,
+      minRankJump: merged['minRankJump'] || 10,
+    };
+  }
+
+  // A 1h move takes precedence; the 24h move only alerts when the last hour
+  // was quiet, so one sharp candle doesn't raise two alerts
+  private checkPriceMove(
+    token: CoinGeckoToken,
+    thresholds: MarketThresholds,
+    categoryPriority: AlertPriority
+  ): Alert | null {
+    const change1h = token.price_change_percentage_1h;
+    const change24h = token.price_change_percentage_24h;
+
+    let timeframeHours: 1 | 24;
+    let changePercent: number;
+    let threshold: number;
+
+    if (change1h != null && Math.abs(change1h) >= thresholds.priceChange1hPercent) {
+      timeframeHours = 1;
+      changePercent = change1h;
+      threshold = thresholds.priceChange1hPercent;
+    } else if (change24h != null && Math.abs(change24h) >= thresholds.priceChange24hPercent) {
+      timeframeHours = 24;
+      changePercent = change24h;
+      threshold = thresholds.priceChange24hPercent;
+    } else {
+      return null;
+    }
+
+    const kind = timeframeHours === 1 ? 'price1h' : 'price24h';
+    if (!this.canAlert(token.id, kind)) {
+      return null;
+    }
+
+    const isUp = changePercent > 0;
+    const symbol = token.symbol.toUpperCase();
+
+    // Moves of at least twice the threshold rank as HIGH
+    const priority =
+      Math.abs(changePercent) >= threshold * 2
+        ? Math.max(categoryPriority, AlertPriority.HIGH)
+        : AlertPriority.MEDIUM;
+
+    logger.info(
+      `Price move: ${symbol} ${changePercent.toFixed(2)}% in ${timeframeHours}h at $${token.current_price}`
+    );
+
+    return this.createAlert(token, {
+      priority,
+      title: `${isUp ? '🚀 PRICE PUMP' : '📉 PRICE DUMP'} - ${symbol}`,
+      summary: `${token.name} (${symbol}) is ${isUp ? 'up' : 'down'} ${Math.abs(changePercent).toFixed(1)}% in the last ${timeframeHours === 1 ? 'hour' : '24 hours'}, trading at $${this.formatPrice(token.current_price)}.`,
+      market: {
+        eventType: 'PRICE_MOVE',
+        coingeckoId: token.id,
+        tokenSymbol: symbol,
+        price: token.current_price,
+        changePercent,
+        timeframeHours,
+      },
+      tags: ['price', isUp ? 'pump' : 'dump'],
+    });
+  }
+
+  private checkVolumeSpike(token: CoinGeckoToken, thresholds: MarketThresholds): Alert | null {
+    if (token.total_volume < thresholds.minVolumeUsd) {
+      return null;
+    }
+
+    const baseline = tokenPriceRepository.calculateVolumeBaseline(token.id);
+
+    if (!baseline || baseline.baselineVolume <= 0) {
+      return null;
+    }
+
+    const volumeMultiple = token.total_volume / baseline.baselineVolume;
+
+    if (volumeMultiple < thresholds.volumeSpikeMultiple || !this.canAlert(token.id, 'volume')) {
+      return null;
+    }
+
+    const symbol = token.symbol.toUpperCase();
+
+    logger.info(
+      `Volume spike: ${symbol} $${formatNumber(token.total_volume)} (${volumeMultiple.toFixed(1)}x baseline)`
+    );
+
+    return this.createAlert(token, {
+      priority: AlertPriority.MEDIUM,
+      title: `📊 VOLUME SPIKE - ${symbol}`,
+      summary: `${token.name} (${symbol}) traded $${formatNumber(token.total_volume)} in the last 24 hours, ${volumeMultiple.toFixed(1)}x its 7-day average of $${formatNumber(baseline.baselineVolume)}.`,
+      market: {
+        eventType: 'VOLUME_SPIKE',
+        coingeckoId: token.id,
+        tokenSymbol: symbol,
+        price: token.current_price,
+        changePercent: token.price_change_percentage_24h,
+        timeframeHours: 24,
+        volume24h: token.total_volume,
+        baselineVolume: baseline.baselineVolume,
+        volumeMultiple,
+      },
+      tags: ['volume'],
+    });
+  }
+
+  private checkRankJump(token: CoinGeckoToken, thresholds: MarketThresholds): Alert | null {
+    const rankChange = tokenPriceRepository.calculateRankChange(token.id);
+
+    if (!rankChange) {
+      return null;
+    }
+
+    const { previousRank, currentRank } = rankChange;
+    // Positive means the token climbed
+    const positions = previousRank - currentRank;
+
+    if (Math.abs(positions) < thresholds.minRankJump || !this.canAlert(token.id, 'rank')) {
+      return null;
+    }
+
+    const symbol = token.symbol.toUpperCase();
+    const climbed = positions > 0;
+
+    logger.info(`Rank jump: ${symbol} #${previousRank} → #${currentRank}`);
+
+    return this.createAlert(token, {
+      priority: AlertPriority.MEDIUM,
+      title: `${climbed ? '🏆 RANK UP' : '🔻 RANK DOWN'} - ${symbol}`,
+      summary: `${token.name} (${symbol}) moved from #${previousRank} to #${currentRank} by market cap in the last 24 hours. Market cap: $${formatNumber(token.market_cap)}.`,
+      market: {
+        eventType: 'RANK_JUMP',
+        coingeckoId: token.id,
+        tokenSymbol: symbol,
+        price: token.current_price,
+        previousRank,
+        currentRank,
+      },
+      tags: ['rank'],
+    });
+  }
+
+  private canAlert(coingeckoId: string, kind: string): boolean {
+    const lastAlertedAt = tokenPriceRepository.getLastAlertedAt(coingeckoId, kind);
+    return lastAlertedAt === null || Date.now() - lastAlertedAt >= (REALERT_AFTER_MS[kind] ?? 0);
+  }
+
+  private createAlert(
+    token: CoinGeckoToken,
+    params: {
+      priority: AlertPriority;
+      title: string;
+      summary: string;
+      market: MarketMoveDetails;
+      tags: string[];
+    }
+  ): Alert {
+    return {
+      id: uuidv4(),
+      category: AlertCategory.TOKEN_EVENT,
+      priority: params.priority,
+      source: AlertSource.COINGECKO,
+      title: params.title,
+      summary: params.summary,
+      details: {
+        market: params.market,
+        sourceUrl: `https://www.coingecko.com/en/coins/${token.id}`,
+      },
+      metadata: {
+        coingeckoId: token.id,
+        tokenIds: [token.id],
+        tags: ['token', ...params.tags, token.symbol.toLowerCase()],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  // Record a sent alert, so the same move doesn't re-alert within its window
+  markAlerted(alert: Alert): void {
+    const market = alert.details.market;
+    if (!market) {
+      return;
+    }
+
+    let kind: string;
+    switch (market.eventType) {
+      case 'PRICE_MOVE':
+        kind = market.timeframeHours === 1 ? 'price1h' : 'price24h';
+        break;
+      case 'VOLUME_SPIKE':
+        kind = 'volume';
+        break;
+      case 'RANK_JUMP':
+        kind = 'rank';
+        break;
+    }
+
+    tokenPriceRepository.markAlerted(market.coingeckoId, kind);
+  }
+
+  // Small-cap prices need more precision than two decimals
+  private formatPrice(price: number): string {
+    if (price >= 1) {
+      return price.toLocaleString('en-US', { maximumFractionDigits: 2 });
+    }
+    return price.toPrecision(4);
+  }
+}
+
+export const priceAnalyzer = new PriceAnalyzer();
+export default priceAnalyzer;
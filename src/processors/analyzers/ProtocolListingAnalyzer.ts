@@ -0,0 +1,173 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { formatNumber } from '../../utils/format.js';
+import { getConfig } from '../../config/index.js';
+import { protocolRepository } from '../../storage/repositories/ProtocolRepository.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertPriority,
+  AlertSource,
+} from '../../core/types/alerts.js';
+import type { RawTVLData, DefiLlamaProtocolChange } from '../../core/types/sources.js';
+
+const logger = createLogger('ProtocolListingAnalyzer');
+
+export class ProtocolListingAnalyzer {
+  // Change behind each pending alert, by alert id, until markAnnounced
+  // confirms the alert went out
+  private pending: Map<string, DefiLlamaProtocolChange> = new Map();
+
+  // NARRATIVE alerts for structural changes in DeFiLlama listings: new
+  // protocols, deployments to new chains and category changes. The stored
+  // snapshot takes in dropped changes here and alerted ones once sent.
+  analyze(data: RawTVLData): Alert[] {
+    const config = getConfig();
+    const categoryConfig = config.alerts.categories[AlertCategory.NARRATIVE];
+
+    this.pending.clear();
+
+    if (!categoryConfig.enabled) {
+      data.protocolChanges.forEach((change) => this.updateSnapshot(change));
+      return [];
+    }
+
+    const thresholds = categoryConfig.thresholds;
+    const newListingMinTvlUsd = thresholds['newListingMinTvlUsd'] || 1000000;
+    const newListingMaxAgeDays = thresholds['newListingMaxAgeDays'] || 14;
+    const protocolChangeMinTvlUsd = thresholds['protocolChangeMinTvlUsd'] || 10000000;
+
+    const listedAfter = Date.now() / 1000 - newListingMaxAgeDays * 24 * 60 * 60;
+    const alerts: Alert[] = [];
+
+    for (const change of data.protocolChanges) {
+      const { protocol } = change;
+
+      if (change.type === 'NEW_LISTING') {
+        // Protocols first seen for other reasons, like growing past the
+        // collector's minimum TVL, were listed long ago
+        if (
+          protocol.tvl < newListingMinTvlUsd ||
+          !protocol.listedAt ||
+          protocol.listedAt < listedAfter
+        ) {
+          this.updateSnapshot(change);
+          continue;
+        }
+      } else if (protocol.tvl < protocolChangeMinTvlUsd) {
+        this.updateSnapshot(change);
+        continue;
+      }
+
+      const alert = this.createAlert(change, categoryConfig.priority);
+      this.pending.set(alert.id, change);
+      alerts.push(alert);
+      logger.info(`Protocol change: ${protocol.name} ${change.type}`);
+    }
+
+    return alerts;
+  }
+
+  // Take the change behind a sent alert into the stored snapshot
+  markAnnounced(alert: Alert): void {
+    const change = this.pending.get(alert.id);
+    if (change) {
+      this.updateSnapshot(change);
+      this.pending.delete(alert.id);
+    }
+  }
+
+  // Only the part of the snapshot a change covers moves on, so a protocol's
+  // other change is still detected if its alert was held back
+  private updateSnapshot(change: DefiLlamaProtocolChange): void {
+    const { protocol } = change;
+    const chains = [...new Set(protocol.chains ?? [])].sort();
+
+    switch (change.type) {
+      case 'NEW_LISTING':
+        protocolRepository.updateMetadata([
+          {
+            slug: protocol.slug,
+            category: protocol.category,
+            chains,
+            listedAt: protocol.listedAt ? new Date(protocol.listedAt * 1000) : undefined,
+          },
+        ]);
+        break;
+      case 'NEW_CHAINS':
+        protocolRepository.updateChains(protocol.slug, chains);
+        break;
+      case 'CATEGORY_CHANGE':
+        protocolRepository.updateCategory(protocol.slug, protocol.category);
+        break;
+    }
+  }
+
+  private createAlert(change: DefiLlamaProtocolChange, categoryPriority: AlertPriority): Alert {
+    const { protocol } = change;
+    const tvl = `$${formatNumber(protocol.tvl)}`;
+    const chains = protocol.chains ?? [];
+
+    let title: string;
+    let summary: string;
+    let narrativeType: 'NEW_PROTOCOL' | 'CHAIN_EXPANSION' | 'PROTOCOL_PIVOT';
+    let priority = categoryPriority;
+    const tags = ['narrative', protocol.slug];
+
+    switch (change.type) {
+      case 'NEW_LISTING':
+        title = `🆕 NEW PROTOCOL - ${protocol.name}`;
+        summary = `${protocol.name} was listed on DeFiLlama${protocol.category ? ` as ${protocol.category}` : ''} and already holds ${tvl} TVL${chains.length > 0 ? ` on ${chains.join(', ')}` : ''}.`;
+        narrativeType = 'NEW_PROTOCOL';
+        // A fresh protocol attracting real capital is worth a look
+        priority = Math.max(categoryPriority, AlertPriority.MEDIUM);
+        tags.push('new_listing');
+        break;
+      case 'NEW_CHAINS': {
+        const newChains = change.newChains ?? [];
+        title = `🌐 NEW CHAIN DEPLOYMENT - ${protocol.name}`;
+        summary = `${protocol.name} (${tvl} TVL) deployed to ${newChains.join(', ')}.`;
+        narrativeType = 'CHAIN_EXPANSION';
+        tags.push('new_chain', ...newChains.map((c) => c.toLowerCase().replace(/\s+/g, '_')));
+        break;
+      }
+      case 'CATEGORY_CHANGE':
+        title = `🔀 CATEGORY CHANGE - ${protocol.name}`;
+        summary = `${protocol.name} (${tvl} TVL) moved from ${change.previousCategory} to ${protocol.category} on DeFiLlama.`;
+        narrativeType = 'PROTOCOL_PIVOT';
+        tags.push('category_change');
+        break;
+    }
+
+    if (protocol.category) {
+      tags.push(protocol.category.toLowerCase().replace(/\s+/g, '_'));
+    }
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.NARRATIVE,
+      priority,
+      source: AlertSource.DEFILLAMA,
+      title,
+      summary,
+      details: {
+        narrative: {
+          narrativeType,
+          sectorName: protocol.category,
+          previousSectorName: change.previousCategory,
+          relatedProtocols: [protocol.name],
+          chains: change.type === 'NEW_CHAINS' ? change.newChains : chains,
+        },
+        sourceUrl: `https://defillama.com/protocol/${protocol.slug}`,
+      },
+      metadata: {
+        defillamaSlug: protocol.slug,
+        tags,
+      },
+      createdAt: new Date(),
+    };
+  }
+}
+
+export const protocolListingAnalyzer = new ProtocolListingAnalyzer();
+export default protocolListingAnalyzer;
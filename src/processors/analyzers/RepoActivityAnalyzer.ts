@@ -0,0 +1,218 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { getConfig } from '../../config/index.js';
+import { githubItemRepository } from '../../storage/repositories/GithubItemRepository.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertPriority,
+  AlertSource,
+  type SecurityDetails,
+} from '../../core/types/alerts.js';
+import type { RawRepoActivityData, RepoEvent } from '../../core/types/sources.js';
+
+const logger = createLogger('RepoActivityAnalyzer');
+
+// GitHub advisory severities mapped onto ours
+const ADVISORY_SEVERITY: Record<string, SecurityDetails['severityLevel']> = {
+  critical: 'CRITICAL',
+  high: 'HIGH',
+  medium: 'WARNING',
+  low: 'INFO',
+};
+
+const ADVISORY_PRIORITY: Record<SecurityDetails['severityLevel'], AlertPriority> = {
+  CRITICAL: AlertPriority.CRITICAL,
+  HIGH: AlertPriority.HIGH,
+  WARNING: AlertPriority.MEDIUM,
+  INFO: AlertPriority.LOW,
+};
+
+export class RepoActivityAnalyzer {
+  // Item behind each pending alert, by alert id, until markSeen confirms the
+  // alert went out
+  private pending: Map<string, RepoEvent> = new Map();
+
+  // Turn new releases and tags into GOVERNANCE upgrade signals, and security
+  // advisories and audit reports into SECURITY alerts. Items of a disabled
+  // category are recorded as seen here, the rest once their alert is sent.
+  analyze(data: RawRepoActivityData): Alert[] {
+    const config = getConfig();
+    const alerts: Alert[] = [];
+    const dropped: RepoEvent[] = [];
+
+    this.pending.clear();
+
+    for (const event of data.events) {
+      const isSecurity = event.kind === 'ADVISORY' || event.kind === 'AUDIT';
+      const category = isSecurity ? AlertCategory.SECURITY : AlertCategory.GOVERNANCE;
+      const categoryConfig = config.alerts.categories[category];
+
+      if (!categoryConfig.enabled) {
+        dropped.push(event);
+        continue;
+      }
+
+      let alert: Alert;
+      switch (event.kind) {
+        case 'RELEASE':
+        case 'TAG':
+          alert = this.createReleaseAlert(event, categoryConfig.priority);
+          break;
+        case 'ADVISORY':
+          alert = this.createAdvisoryAlert(event);
+          break;
+        case 'AUDIT':
+          alert = this.createAuditAlert(event);
+          break;
+      }
+
+      this.pending.set(alert.id, event);
+      alerts.push(alert);
+
+      logger.info(`Repository event: ${event.kind} ${event.title} on ${event.repo}`);
+    }
+
+    githubItemRepository.insertNew(dropped);
+
+    return alerts;
+  }
+
+  // Record the item behind a sent alert as seen
+  markSeen(alert: Alert): void {
+    const event = this.pending.get(alert.id);
+    if (event) {
+      githubItemRepository.insertNew([event]);
+      this.pending.delete(alert.id);
+    }
+  }
+
+  private createReleaseAlert(event: RepoEvent, categoryPriority: AlertPriority): Alert {
+    const isRelease = event.kind === 'RELEASE';
+    const label = event.prerelease ? 'pre-release' : isRelease ? 'release' : 'tag';
+
+    let summary = `${event.repo} published ${label} ${event.tagName}`;
+    if (event.title !== event.tagName) {
+      summary += ` (${event.title})`;
+    }
+    summary += '.';
+    if (event.body) {
+      summary += `\n\n${this.toPlainText(event.body)}`;
+    }
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.GOVERNANCE,
+      // Pre-releases and bare tags hint at an upgrade rather than ship one
+      priority: event.prerelease || !isRelease ? AlertPriority.LOW : categoryPriority,
+      source: AlertSource.GITHUB,
+      title: `${isRelease ? '📦 NEW RELEASE' : '🏷 NEW TAG'} - ${event.protocol} ${event.tagName}`,
+      summary,
+      details: {
+        governance: {
+          changeType: 'OTHER',
+          protocol: event.protocol,
+          parameterName: isRelease ? 'release' : 'tag',
+          newValue: event.tagName,
+          proposalUrl: event.url,
+        },
+        sourceUrl: event.url,
+      },
+      metadata: {
+        repository: event.repo,
+        repoEventId: event.id,
+        tags: ['governance', 'github', label.replace('-', ''), ...this.commonTags(event)],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  private createAdvisoryAlert(event: RepoEvent): Alert {
+    const severityLevel = ADVISORY_SEVERITY[event.severity?.toLowerCase() ?? ''] ?? 'WARNING';
+    const ids = [event.ghsaId, event.cveId].filter(Boolean).join(', ');
+
+    let summary = `Security advisory for ${event.repo}: ${event.title}`;
+    if (ids) {
+      summary += ` (${ids})`;
+    }
+    summary += '.';
+    if (event.body) {
+      summary += `\n\n${this.toPlainText(event.body)}`;
+    }
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.SECURITY,
+      priority: ADVISORY_PRIORITY[severityLevel],
+      source: AlertSource.GITHUB,
+      title: `🛡 SECURITY ADVISORY - ${event.protocol}`,
+      summary,
+      details: {
+        security: {
+          severityLevel,
+          eventType: 'VULNERABILITY',
+          protocol: event.protocol,
+        },
+        sourceUrl: event.url,
+      },
+      metadata: {
+        repository: event.repo,
+        repoEventId: event.id,
+        tags: ['security', 'github', 'advisory', ...this.commonTags(event)],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  private createAuditAlert(event: RepoEvent): Alert {
+    const by = event.auditFirm ? ` by ${event.auditFirm}` : '';
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.SECURITY,
+      // A published audit is good news; it's worth knowing, not acting on
+      priority: AlertPriority.LOW,
+      source: AlertSource.GITHUB,
+      title: `📝 NEW AUDIT REPORT - ${event.protocol}`,
+      summary: `A new audit report${by} was added to ${event.repo}: ${event.path}.`,
+      details: {
+        security: {
+          severityLevel: 'INFO',
+          eventType: 'AUDIT',
+          protocol: event.protocol,
+          auditFirm: event.auditFirm,
+        },
+        sourceUrl: event.url,
+      },
+      metadata: {
+        repository: event.repo,
+        repoEventId: event.id,
+        tags: ['security', 'github', 'audit', ...this.commonTags(event)],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  // Release notes and advisories are GitHub Markdown, which breaks the
+  // Telegram Markdown the summary is sent in. Keep the text, drop the markup
+  // and escape the underscores and brackets left in names and paths.
+  private toPlainText(markdown: string): string {
+    return markdown
+      .replace(/```[^\n]*\n?/g, '')
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/<[^>]*>/g, '')
+      .replace(/^\s{0,3}(#{1,6}|>)\s*/gm, '')
+      .replace(/^(\s*)[*+-]\s+/gm, '$1• ')
+      .replace(/[*`]/g, '')
+      .replace(/([_[])/g, '\\$1')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private commonTags(event: RepoEvent): string[] {
+    return [event.protocol.toLowerCase().replace(/\s+/g, '_')];
+  }
+}
+
+export const repoActivityAnalyzer = new RepoActivityAnalyzer();
+export default repoActivityAnalyzer;
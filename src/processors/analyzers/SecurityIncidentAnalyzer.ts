@@ -0,0 +1,130 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { formatNumber } from '../../utils/format.js';
+import { getConfig } from '../../config/index.js';
+import { securityIncidentRepository } from '../../storage/repositories/SecurityIncidentRepository.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertSource,
+  type SecurityDetails,
+} from '../../core/types/alerts.js';
+import type { SecurityIncident } from '../../core/types/protocols.js';
+import type { RawHackData } from '../../core/types/sources.js';
+
+const logger = createLogger('SecurityIncidentAnalyzer');
+
+export class SecurityIncidentAnalyzer {
+  // Generate SECURITY alerts for newly listed incidents above the loss
+  // threshold. Dropped incidents are marked announced here; alerted ones only
+  // once markAnnounced confirms the alert went out.
+  analyze(data: RawHackData): Alert[] {
+    const config = getConfig();
+    const categoryConfig = config.alerts.categories[AlertCategory.SECURITY];
+    const pending = securityIncidentRepository.getUnannounced();
+
+    if (pending.length === 0) {
+      return [];
+    }
+
+    if (!categoryConfig.enabled) {
+      securityIncidentRepository.markAnnounced(pending.map((i) => i.id));
+      return [];
+    }
+
+    const minLossValueUsd = categoryConfig.thresholds['minLossValueUsd'] || 100000;
+    const maxAgeMs = config.collectors.defillamaHacks.maxIncidentAgeDays * 24 * 60 * 60 * 1000;
+    const alerts: Alert[] = [];
+    const dropped: string[] = [];
+
+    for (const incident of pending) {
+      if ((incident.amountUsd ?? 0) < minLossValueUsd) {
+        logger.debug(`Incident below loss threshold, dropped: ${incident.name}`);
+        dropped.push(incident.id);
+        continue;
+      }
+
+      if (data.timestamp.getTime() - incident.incidentDate.getTime() > maxAgeMs) {
+        logger.debug(`Incident too old to alert on, dropped: ${incident.name}`);
+        dropped.push(incident.id);
+        continue;
+      }
+
+      alerts.push(this.createAlert(incident, categoryConfig.priority));
+
+      logger.info(
+        `Security incident alert: ${incident.name} $${formatNumber(incident.amountUsd ?? 0)}`
+      );
+    }
+
+    if (dropped.length > 0) {
+      securityIncidentRepository.markAnnounced(dropped);
+    }
+
+    return alerts;
+  }
+
+  // Record that the incident behind a sent alert has been alerted on
+  markAnnounced(alert: Alert): void {
+    const incidentId = alert.details.security?.incidentId;
+    if (incidentId) {
+      securityIncidentRepository.markAlerted([incidentId]);
+    }
+  }
+
+  private createAlert(incident: SecurityIncident, priority: Alert['priority']): Alert {
+    const amount = incident.amountUsd ?? 0;
+    const chainsText = incident.chains.length > 0 ? ` on ${incident.chains.join(', ')}` : '';
+    const techniqueText = incident.technique ? ` via ${incident.technique}` : '';
+
+    const security: SecurityDetails = {
+      severityLevel: this.detectSeverity(amount),
+      eventType: incident.classification?.toLowerCase().includes('rug') ? 'RUG_WARNING' : 'EXPLOIT',
+      protocol: incident.name,
+      estimatedLoss: amount,
+      affectedChains: incident.chains,
+      txHash: this.extractTxHash(incident.sourceUrl),
+      incidentId: incident.id,
+    };
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.SECURITY,
+      priority,
+      source: AlertSource.DEFILLAMA,
+      title: `🚨 EXPLOIT REPORTED - ${incident.name}`,
+      summary: `${incident.name} lost an estimated $${formatNumber(amount)}${chainsText}${techniqueText}. Listed by DeFiLlama on ${incident.incidentDate.toISOString().slice(0, 10)}.`,
+      details: {
+        security,
+        rawContent: [incident.classification, incident.technique].filter(Boolean).join(' - '),
+        sourceUrl: incident.sourceUrl || 'https://defillama.com/hacks',
+      },
+      metadata: {
+        protocolId: incident.defillamaId,
+        defillamaSlug: incident.protocolSlug,
+        tags: [
+          'security',
+          'exploit',
+          ...(incident.protocolSlug ? [incident.protocolSlug] : []),
+          ...incident.chains.slice(0, 3).map((c) => c.toLowerCase().replace(/\s+/g, '_')),
+        ],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  private detectSeverity(amountUsd: number): SecurityDetails['severityLevel'] {
+    if (amountUsd >= 10000000) return 'CRITICAL';
+    if (amountUsd >= 1000000) return 'HIGH';
+    return 'WARNING';
+  }
+
+  // Post-mortem sources are often explorer links to the exploit transaction
+  private extractTxHash(sourceUrl?: string): string | undefined {
+    const match = sourceUrl?.match(/\/tx\/(0x[a-fA-F0-9]{64})/);
+    return match?.[1];
+  }
+}
+
+export const securityIncidentAnalyzer = new SecurityIncidentAnalyzer();
+export default securityIncidentAnalyzer;
@@ -0,0 +1,213 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { formatNumber } from '../../utils/format.js';
+import { getConfig } from '../../config/index.js';
+import { stablecoinRepository } from '../../storage/repositories/StablecoinRepository.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertPriority,
+  AlertSource,
+} from '../../core/types/alerts.js';
+import type { RawStablecoinData, DefiLlamaStablecoin } from '../../core/types/sources.js';
+
+const logger = createLogger('StablecoinAnalyzer');
+
+export class StablecoinAnalyzer {
+  // Analyze stablecoin data for depegs, large mints/burns and chain migrations
+  analyze(data: RawStablecoinData): Alert[] {
+    const alerts: Alert[] = [];
+
+    for (const stablecoin of data.stablecoins) {
+      const depegAlert = this.checkDepeg(stablecoin);
+      if (depegAlert) {
+        alerts.push(depegAlert);
+      }
+
+      alerts.push(...this.checkSupply(stablecoin));
+    }
+
+    return alerts;
+  }
+
+  // Depegs are SECURITY-grade. Only USD pegs have a reference price to compare
+  // against; other peg types are tracked for supply only.
+  private checkDepeg(stablecoin: DefiLlamaStablecoin): Alert | null {
+    const config = getConfig();
+    const categoryConfig = config.alerts.categories[AlertCategory.SECURITY];
+
+    if (!categoryConfig.enabled || stablecoin.pegType !== 'peggedUSD' || !stablecoin.price) {
+      return null;
+    }
+
+    const depegThresholdBps = categoryConfig.thresholds['depegThresholdBps'] || 50;
+    const deviationBps = Math.round((stablecoin.price - 1) * 10000);
+
+    if (Math.abs(deviationBps) < depegThresholdBps) {
+      return null;
+    }
+
+    let severityLevel: 'WARNING' | 'HIGH' | 'CRITICAL' = 'WARNING';
+    if (Math.abs(deviationBps) >= depegThresholdBps * 4) {
+      severityLevel = 'CRITICAL';
+    } else if (Math.abs(deviationBps) >= depegThresholdBps * 2) {
+      severityLevel = 'HIGH';
+    }
+
+    const direction = deviationBps < 0 ? 'below' : 'above';
+
+    logger.warn(
+      `Depeg detected: ${stablecoin.symbol} at $${stablecoin.price.toFixed(4)} (${deviationBps} bps)`
+    );
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.SECURITY,
+      priority: categoryConfig.priority,
+      source: AlertSource.DEFILLAMA,
+      title: `🚨 STABLECOIN DEPEG - ${stablecoin.symbol}`,
+      summary: `${stablecoin.name} (${stablecoin.symbol}) is trading at $${stablecoin.price.toFixed(4)}, ${Math.abs(deviationBps)} bps ${direction} its peg. Circulating supply: $${formatNumber(stablecoin.circulating)}.`,
+      details: {
+        security: {
+          severityLevel,
+          eventType: 'DEPEG',
+          protocol: stablecoin.name,
+          affectedChains: Object.entries(stablecoin.circulatingByChain)
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, 5)
+            .map(([chain]) => chain),
+        },
+        stablecoin: {
+          eventType: 'DEPEG',
+          symbol: stablecoin.symbol,
+          pegType: stablecoin.pegType,
+          price: stablecoin.price,
+          deviationBps,
+          currentSupply: stablecoin.circulating,
+        },
+        sourceUrl: `https://defillama.com/stablecoin/${this.toSlug(stablecoin.name)}`,
+      },
+      metadata: {
+        tags: ['security', 'depeg', stablecoin.symbol.toLowerCase()],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  // Large mints/burns and per-chain supply migrations over the last 24h
+  private checkSupply(stablecoin: DefiLlamaStablecoin): Alert[] {
+    const config = getConfig();
+    const categoryConfig = config.alerts.categories[AlertCategory.TVL_CHANGE];
+
+    if (!categoryConfig.enabled) {
+      return [];
+    }
+
+    const thresholds = categoryConfig.thresholds;
+    const minSupplyChangeUsd = thresholds['stablecoinMinSupplyChangeUsd'] || 100000000;
+    const minChainShiftUsd = thresholds['stablecoinMinChainShiftUsd'] || 50000000;
+
+    const change = stablecoinRepository.calculateSupplyChange(stablecoin.id);
+
+    if (!change) {
+      return [];
+    }
+
+    const alerts: Alert[] = [];
+    const sourceUrl = `https://defillama.com/stablecoin/${this.toSlug(stablecoin.name)}`;
+
+    // Total supply mint or burn
+    if (Math.abs(change.changeAbsolute) >= minSupplyChangeUsd) {
+      const isMint = change.changeAbsolute > 0;
+
+      alerts.push({
+        id: uuidv4(),
+        category: AlertCategory.TVL_CHANGE,
+        priority: Math.abs(change.changePercent) >= 5 ? AlertPriority.HIGH : AlertPriority.MEDIUM,
+        source: AlertSource.DEFILLAMA,
+        title: `${isMint ? '💵 STABLECOIN MINT' : '🔥 STABLECOIN BURN'} - ${stablecoin.symbol}`,
+        summary: `${stablecoin.symbol} supply ${isMint ? 'grew' : 'shrank'} by $${formatNumber(Math.abs(change.changeAbsolute))} (${change.changePercent >= 0 ? '+' : ''}${change.changePercent.toFixed(2)}%) in the last 24 hours.`,
+        details: {
+          stablecoin: {
+            eventType: isMint ? 'MINT' : 'BURN',
+            symbol: stablecoin.symbol,
+            pegType: stablecoin.pegType,
+            previousSupply: change.previousSupply,
+            currentSupply: change.currentSupply,
+            changeAbsolute: change.changeAbsolute,
+            changePercent: change.changePercent,
+          },
+          sourceUrl,
+        },
+        metadata: {
+          tags: ['stablecoin', isMint ? 'mint' : 'burn', stablecoin.symbol.toLowerCase()],
+        },
+        createdAt: new Date(),
+      });
+
+      logger.info(
+        `Stablecoin ${isMint ? 'mint' : 'burn'}: ${stablecoin.symbol} $${formatNumber(Math.abs(change.changeAbsolute))}`
+      );
+    }
+
+    // Chain migration - supply leaving one chain and arriving on another
+    const chainDeltas = Object.entries(change.chainChanges).sort((a, b) => a[1] - b[1]);
+    const outflow = chainDeltas[0];
+    const inflow = chainDeltas[chainDeltas.length - 1];
+
+    if (
+      outflow &&
+      inflow &&
+      outflow[1] <= -minChainShiftUsd &&
+      inflow[1] >= minChainShiftUsd
+    ) {
+      const [fromChain, outflowAmount] = outflow;
+      const [toChain, inflowAmount] = inflow;
+      const movedAmount = Math.min(Math.abs(outflowAmount), inflowAmount);
+
+      alerts.push({
+        id: uuidv4(),
+        category: AlertCategory.TVL_CHANGE,
+        priority: AlertPriority.MEDIUM,
+        source: AlertSource.DEFILLAMA,
+        title: `🔀 STABLECOIN MIGRATION - ${stablecoin.symbol} ${fromChain} → ${toChain}`,
+        summary: `~$${formatNumber(movedAmount)} of ${stablecoin.symbol} moved from ${fromChain} to ${toChain} in the last 24 hours (${fromChain}: -$${formatNumber(Math.abs(outflowAmount))}, ${toChain}: +$${formatNumber(inflowAmount)}).`,
+        details: {
+          stablecoin: {
+            eventType: 'CHAIN_MIGRATION',
+            symbol: stablecoin.symbol,
+            pegType: stablecoin.pegType,
+            changeAbsolute: movedAmount,
+            fromChain,
+            toChain,
+          },
+          sourceUrl,
+        },
+        metadata: {
+          chainId: toChain,
+          tags: [
+            'stablecoin',
+            'migration',
+            stablecoin.symbol.toLowerCase(),
+            fromChain.toLowerCase().replace(/\s+/g, '_'),
+            toChain.toLowerCase().replace(/\s+/g, '_'),
+          ],
+        },
+        createdAt: new Date(),
+      });
+
+      logger.info(
+        `Stablecoin migration: ${stablecoin.symbol} ${fromChain} → ${toChain} $${formatNumber(movedAmount)}`
+      );
+    }
+
+    return alerts;
+  }
+
+  private toSlug(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, '-');
+  }
+}
+
+export const stablecoinAnalyzer = new StablecoinAnalyzer();
+export default stablecoinAnalyzer;
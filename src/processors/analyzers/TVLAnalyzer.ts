@@ -2,6 +2,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { createLogger } from '../../utils/logger.js';
 import { getConfig } from '../../config/index.js';
 import { protocolRepository } from '../../storage/repositories/ProtocolRepository.js';
+import { chainRepository } from '../../storage/repositories/ChainRepository.js';
 import {
   Alert,
   AlertCategory,
@@ -18,7 +19,7 @@ export class TVLAnalyzer {
     const config = getConfig();
     const categoryConfig = config.alerts.categories[AlertCategory.TVL_CHANGE];
 
-    if (!categoryConfig.enabled) {
+    if (!categoryConfig.enabled || data.protocols.length === 0) {
       return [];
     }
 
@@ -87,9 +88,74 @@ export class TVLAnalyzer {
 
   // Analyze chain-level TVL changes
   analyzeChains(data: RawTVLData): Alert[] {
-    // This could be expanded to track chain-level TVL changes
-    // For now, we focus on protocol-level analysis
-    return [];
+    const config = getConfig();
+    const categoryConfig = config.alerts.categories[AlertCategory.TVL_CHANGE];
+
+    if (!categoryConfig.enabled || data.chains.length === 0) {
+      return [];
+    }
+
+    const thresholds = categoryConfig.thresholds;
+    const minChangePercent = thresholds['chainMinChangePercent'] || 5;
+    const minTvlUsd = thresholds['chainMinTvlUsd'] || 100000000;
+    const timeframeHours = (thresholds['timeframeHours'] as 24 | 48 | 168) || 24;
+
+    // Get chains with significant changes
+    const significantChanges = chainRepository.getSignificantChanges(
+      minChangePercent,
+      minTvlUsd,
+      timeframeHours
+    );
+
+    const alerts: Alert[] = [];
+
+    for (const change of significantChanges) {
+      const isIncrease = change.changePercent > 0;
+      const direction = isIncrease ? 'inflow' : 'outflow';
+      const emoji = isIncrease ? '📈' : '📉';
+
+      // Chain-wide moves are rarer, so escalate sooner than protocols
+      let priority = AlertPriority.MEDIUM;
+      if (Math.abs(change.changePercent) >= 25) {
+        priority = AlertPriority.CRITICAL;
+      } else if (Math.abs(change.changePercent) >= 15) {
+        priority = AlertPriority.HIGH;
+      }
+
+      const alert: Alert = {
+        id: uuidv4(),
+        category: AlertCategory.TVL_CHANGE,
+        priority,
+        source: AlertSource.DEFILLAMA,
+        title: `${emoji} CHAIN TVL ${direction.toUpperCase()} - ${change.name}`,
+        summary: `${change.name} chain TVL ${isIncrease ? 'increased' : 'decreased'} by ${Math.abs(change.changePercent).toFixed(1)}% in the last ${timeframeHours} hours.`,
+        details: {
+          tvlChange: {
+            protocol: 'All', // Chain-wide total
+            chain: change.name,
+            previousTVL: change.previousTvl,
+            currentTVL: change.currentTvl,
+            changePercent: change.changePercent,
+            changeAbsolute: change.changeAbsolute,
+            timeframeHours,
+          },
+          sourceUrl: `https://defillama.com/chain/${encodeURIComponent(change.name)}`,
+        },
+        metadata: {
+          chainId: change.name,
+          tags: ['tvl', 'chain', change.name.toLowerCase().replace(/\s+/g, '_'), direction],
+        },
+        createdAt: new Date(),
+      };
+
+      alerts.push(alert);
+
+      logger.info(
+        `Chain TVL alert: ${change.name} ${direction} ${Math.abs(change.changePercent).toFixed(1)}%`
+      );
+    }
+
+    return alerts;
   }
 }
 
@@ -0,0 +1,181 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { formatNumber } from '../../utils/format.js';
+import { getConfig } from '../../config/index.js';
+import { tokenUnlockRepository } from '../../storage/repositories/TokenUnlockRepository.js';
+import { tokenPriceRepository } from '../../storage/repositories/TokenPriceRepository.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertPriority,
+  AlertSource,
+  type TokenEventDetails,
+  type VestingInfo,
+} from '../../core/types/alerts.js';
+import type { TokenUnlockRecord } from '../../core/types/protocols.js';
+import type { RawUnlockData } from '../../core/types/sources.js';
+
+const logger = createLogger('TokenUnlockAnalyzer');
+
+// Emission categories that represent insider/investor allocations
+const INSIDER_CATEGORIES = ['insiders', 'privatesale', 'investors', 'team'];
+
+export class TokenUnlockAnalyzer {
+  // Unlock behind each pending alert, by alert id, until markAlerted confirms
+  // the alert went out
+  private pending: Map<string, string> = new Map();
+
+  // Generate TOKEN_EVENT alerts for unlocks due within daysBeforeUnlock.
+  // Unlocks below the threshold are marked handled here; alerted ones only
+  // once their alert is sent.
+  analyze(_data: RawUnlockData): Alert[] {
+    const config = getConfig();
+    const categoryConfig = config.alerts.categories[AlertCategory.TOKEN_EVENT];
+
+    if (!categoryConfig.enabled) {
+      return [];
+    }
+
+    const thresholds = categoryConfig.thresholds;
+    const minUnlockValueUsd = thresholds['minUnlockValueUsd'] || 1000000;
+    const daysBeforeUnlock = thresholds['daysBeforeUnlock'] || 7;
+
+    const upcoming = tokenUnlockRepository.getUpcoming(daysBeforeUnlock);
+    const handled: string[] = [];
+    const alerts: Alert[] = [];
+
+    // Alerts held back last run are raised again below
+    this.pending.clear();
+
+    for (const unlock of upcoming) {
+      const price = unlock.coingeckoId
+        ? tokenPriceRepository.get(unlock.coingeckoId)?.currentPrice
+        : undefined;
+
+      // Without a price we can't value the unlock; retry once CoinGecko has it
+      if (!price) {
+        logger.debug(`No price for ${unlock.protocolName} (${unlock.coingeckoId ?? 'no id'}), skipping`);
+        continue;
+      }
+
+      const usdValue = unlock.amount * price;
+
+      if (usdValue < minUnlockValueUsd) {
+        handled.push(unlock.id);
+        continue;
+      }
+
+      const alert = this.createAlert(unlock, usdValue, categoryConfig.priority);
+      this.pending.set(alert.id, unlock.id);
+      alerts.push(alert);
+
+      logger.info(
+        `Unlock alert: ${unlock.protocolName} $${formatNumber(usdValue)} on ${unlock.unlockDate.toISOString().slice(0, 10)}`
+      );
+    }
+
+    if (handled.length > 0) {
+      tokenUnlockRepository.markAlerted(handled);
+    }
+
+    return alerts;
+  }
+
+  // Record the unlock behind a sent alert as alerted
+  markAlerted(alert: Alert): void {
+    const unlockId = this.pending.get(alert.id);
+    if (unlockId) {
+      tokenUnlockRepository.markAlerted([unlockId]);
+      this.pending.delete(alert.id);
+    }
+  }
+
+  private createAlert(
+    unlock: TokenUnlockRecord,
+    usdValue: number,
+    categoryPriority: AlertPriority
+  ): Alert {
+    const eventType = this.detectEventType(unlock);
+    const symbol = unlock.symbol?.toUpperCase() || unlock.protocolName;
+    const daysUntil = Math.max(
+      0,
+      Math.ceil((unlock.unlockDate.getTime() - Date.now()) / (24 * 60 * 60 * 1000))
+    );
+
+    const supplyShare =
+      unlock.circulatingSupply && unlock.circulatingSupply > 0
+        ? (unlock.amount / unlock.circulatingSupply) * 100
+        : undefined;
+
+    // Unlocks that dilute circulating supply by 5%+ are market-moving
+    const priority =
+      supplyShare !== undefined && supplyShare >= 5
+        ? AlertPriority.CRITICAL
+        : categoryPriority;
+
+    const next = unlock.coingeckoId
+      ? tokenUnlockRepository.getNextUnlock(unlock.coingeckoId, unlock.unlockDate)
+      : null;
+
+    const vestingSchedule: VestingInfo | undefined =
+      unlock.maxSupply !== undefined && unlock.circulatingSupply !== undefined
+        ? {
+            totalAmount: unlock.maxSupply,
+            unlockedAmount: unlock.circulatingSupply,
+            remainingAmount:
+              unlock.totalLocked ?? Math.max(0, unlock.maxSupply - unlock.circulatingSupply),
+            nextUnlockDate: next?.unlockDate,
+            nextUnlockAmount: next?.amount,
+          }
+        : undefined;
+
+    const tokenEvent: TokenEventDetails = {
+      eventType,
+      tokenSymbol: symbol,
+      amount: unlock.amount,
+      usdValue,
+      unlockDate: unlock.unlockDate,
+      vestingSchedule,
+    };
+
+    const shareText =
+      supplyShare !== undefined ? ` (${supplyShare.toFixed(2)}% of circulating supply)` : '';
+    const categoryText = unlock.category ? ` ${unlock.category}` : '';
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.TOKEN_EVENT,
+      priority,
+      source: AlertSource.DEFILLAMA,
+      title: `🔓 TOKEN UNLOCK - ${symbol} in ${daysUntil}d`,
+      summary: `${formatNumber(unlock.amount)} ${symbol} ($${formatNumber(usdValue)})${shareText} unlocks for${categoryText} on ${unlock.unlockDate.toISOString().slice(0, 10)}.`,
+      details: {
+        tokenEvent,
+        rawContent: unlock.description,
+        sourceUrl: `https://defillama.com/unlocks/${unlock.protocolName.toLowerCase().replace(/\s+/g, '-')}`,
+      },
+      metadata: {
+        coingeckoId: unlock.coingeckoId,
+        tokenIds: unlock.coingeckoId ? [unlock.coingeckoId] : undefined,
+        tags: ['unlock', symbol.toLowerCase(), eventType.toLowerCase()],
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  private detectEventType(unlock: TokenUnlockRecord): TokenEventDetails['eventType'] {
+    if (unlock.unlockType === 'linear') {
+      return 'EMISSION_START';
+    }
+
+    const category = (unlock.category || '').toLowerCase();
+    if (INSIDER_CATEGORIES.includes(category)) {
+      return 'VC_UNLOCK';
+    }
+
+    return 'VESTING_CLIFF';
+  }
+}
+
+export const tokenUnlockAnalyzer = new TokenUnlockAnalyzer();
+export default tokenUnlockAnalyzer;
@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { formatNumber } from '../../utils/format.js';
+import { getConfig } from '../../config/index.js';
+import { volumeRepository } from '../../storage/repositories/VolumeRepository.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertPriority,
+  AlertSource,
+} from '../../core/types/alerts.js';
+import type { RawVolumeData, DefiLlamaVolume } from '../../core/types/sources.js';
+
+const logger = createLogger('VolumeAnalyzer');
+
+// Days of volume history needed before a breakout is judged. Kept short so
+// newly launched DEXs are covered soon after they appear.
+const MIN_BASELINE_DAYS = 2;
+
+export class VolumeAnalyzer {
+  // Analyze DEX and derivatives volumes for breakouts against the trailing
+  // average, per protocol and per chain
+  analyze(data: RawVolumeData): Alert[] {
+    const config = getConfig();
+    const categoryConfig = config.alerts.categories[AlertCategory.TVL_CHANGE];
+
+    if (!categoryConfig.enabled) {
+      return [];
+    }
+
+    const alerts: Alert[] = [];
+
+    for (const volume of data.volumes) {
+      const alert = this.checkSurge(volume);
+      if (alert) {
+        alerts.push(alert);
+      }
+    }
+
+    return alerts;
+  }
+
+  private checkSurge(volume: DefiLlamaVolume): Alert | null {
+    const thresholds = getConfig().alerts.categories[AlertCategory.TVL_CHANGE].thresholds;
+    const isChain = volume.scope === 'CHAIN';
+    const surgeMultiple = isChain
+      ? thresholds['chainVolumeSurgeMultiple'] || 2
+      : thresholds['volumeSurgeMultiple'] || 3;
+    const minVolumeUsd = isChain
+      ? thresholds['chainMinSurgeVolumeUsd'] || 50000000
+      : thresholds['minSurgeVolumeUsd'] || 5000000;
+    const trailingDays = thresholds['volumeTrailingDays'] || 7;
+
+    if (volume.volume24h < minVolumeUsd) {
+      return null;
+    }
+
+    const baseline = volumeRepository.calculateBaseline(volume.key, trailingDays, MIN_BASELINE_DAYS);
+
+    if (!baseline || baseline.average <= 0) {
+      return null;
+    }
+
+    const multiple = volume.volume24h / baseline.average;
+
+    if (multiple < surgeMultiple) {
+      return null;
+    }
+
+    const marketLabel = volume.market === 'DEX' ? 'DEX' : 'PERPS';
+    const subject = isChain
+      ? `${volume.name} ${volume.market === 'DEX' ? 'DEX' : 'perps'} volume`
+      : `${volume.name} volume`;
+
+    logger.info(
+      `Volume surge: ${volume.key} ${multiple.toFixed(1)}x ${baseline.days}d average`
+    );
+
+    return {
+      id: uuidv4(),
+      category: AlertCategory.TVL_CHANGE,
+      priority: multiple >= surgeMultiple * 2 ? AlertPriority.HIGH : AlertPriority.MEDIUM,
+      source: AlertSource.DEFILLAMA,
+      title: `🌊 ${marketLabel} VOLUME SURGE - ${volume.name}`,
+      summary: `${subject} hit $${formatNumber(volume.volume24h)} in the last 24 hours, ${multiple.toFixed(1)}x its ${baseline.days}-day average of $${formatNumber(baseline.average)}.`,
+      details: {
+        volume: {
+          eventType: 'VOLUME_SURGE',
+          market: volume.market,
+          scope: volume.scope,
+          name: volume.name,
+          volume24h: volume.volume24h,
+          baselineVolume: baseline.average,
+          baselineDays: baseline.days,
+          multiple,
+        },
+        sourceUrl: isChain
+          ? `https://defillama.com/${volume.market === 'DEX' ? 'dexs' : 'derivatives'}/chain/${encodeURIComponent(volume.name.toLowerCase())}`
+          : `https://defillama.com/protocol/${volume.slug}`,
+      },
+      metadata: {
+        ...(isChain ? { chainId: volume.name } : { defillamaSlug: volume.slug }),
+        tags: [
+          'volume',
+          volume.market === 'DEX' ? 'dex' : 'perps',
+          (volume.slug ?? volume.name).toLowerCase().replace(/\s+/g, '_'),
+        ],
+      },
+      createdAt: new Date(),
+    };
+  }
+}
+
+export const volumeAnalyzer = new VolumeAnalyzer();
+export default volumeAnalyzer;
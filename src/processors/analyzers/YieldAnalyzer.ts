@@ -0,0 +1,160 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../../utils/logger.js';
+import { formatNumber } from '../../utils/format.js';
+import { getConfig } from '../../config/index.js';
+import { yieldRepository } from '../../storage/repositories/YieldRepository.js';
+import {
+  Alert,
+  AlertCategory,
+  AlertPriority,
+  AlertSource,
+} from '../../core/types/alerts.js';
+import type { RawYieldData } from '../../core/types/sources.js';
+
+const logger = createLogger('YieldAnalyzer');
+
+export class YieldAnalyzer {
+  // Analyze yield pools and generate INCENTIVE alerts for reward APY spikes
+  // and newly listed incentivized pools
+  analyze(data: RawYieldData): Alert[] {
+    const config = getConfig();
+    const categoryConfig = config.alerts.categories[AlertCategory.INCENTIVE];
+
+    if (!categoryConfig.enabled) {
+      return [];
+    }
+
+    const thresholds = categoryConfig.thresholds;
+    const minPoolTvlUsd = thresholds['minPoolTvlUsd'] || 1000000;
+    const minRewardApy = thresholds['minRewardApy'] || 5;
+    const minApyChangePercent = thresholds['minApyChangePercent'] || 50;
+
+    const alerts: Alert[] = [];
+
+    // New incentivized pools come first - they are the earliest signal. They
+    // stay unannounced until markAnnounced confirms the alert went out.
+    const newPools = yieldRepository.getUnannouncedPools(minPoolTvlUsd, minRewardApy);
+    const newPoolIds = new Set(newPools.map((p) => p.poolId));
+
+    for (const pool of newPools) {
+      const apyReward = pool.lastApyReward ?? 0;
+      let rewardTokens: string[] = [];
+      try {
+        rewardTokens = JSON.parse(pool.rewardTokens);
+      } catch {
+        // Invalid JSON, leave empty
+      }
+
+      alerts.push({
+        id: uuidv4(),
+        category: AlertCategory.INCENTIVE,
+        priority: categoryConfig.priority,
+        source: AlertSource.DEFILLAMA,
+        title: `🌾 NEW INCENTIVIZED POOL - ${pool.project} ${pool.symbol}`,
+        summary: `New ${pool.project} pool ${pool.symbol} on ${pool.chain} is paying ${apyReward.toFixed(1)}% reward APY with $${formatNumber(pool.lastTvlUsd)} TVL.`,
+        details: {
+          incentiveType: 'FARM',
+          programName: pool.project,
+          yieldIncentive: {
+            eventType: 'NEW_POOL',
+            poolId: pool.poolId,
+            project: pool.project,
+            chain: pool.chain,
+            symbol: pool.symbol,
+            tvlUsd: pool.lastTvlUsd,
+            apyBase: pool.lastApyBase ?? undefined,
+            apyReward,
+            rewardTokens,
+          },
+          sourceUrl: `https://defillama.com/yields/pool/${pool.poolId}`,
+        },
+        metadata: {
+          defillamaSlug: pool.project,
+          chainId: pool.chain,
+          tags: ['incentive', 'new_pool', pool.project, pool.chain.toLowerCase()],
+        },
+        createdAt: new Date(),
+      });
+
+      logger.info(`New pool alert: ${pool.project} ${pool.symbol} on ${pool.chain}`);
+    }
+
+    // Reward APY spikes on existing pools
+    for (const pool of data.pools) {
+      if (newPoolIds.has(pool.pool)) {
+        continue;
+      }
+
+      const apyReward = pool.apyReward ?? 0;
+      if (pool.tvlUsd < minPoolTvlUsd || apyReward < minRewardApy) {
+        continue;
+      }
+
+      const change = yieldRepository.calculateRewardApyChange(pool.pool);
+
+      if (!change || change.changePercent < minApyChangePercent) {
+        continue;
+      }
+
+      // Determine priority based on jump magnitude
+      let priority = AlertPriority.MEDIUM;
+      if (change.previousApyReward === 0 || change.changePercent >= 200) {
+        priority = AlertPriority.HIGH;
+      }
+
+      const changeText =
+        change.previousApyReward === 0
+          ? 'started paying rewards'
+          : `reward APY up ${change.changePercent.toFixed(0)}%`;
+
+      alerts.push({
+        id: uuidv4(),
+        category: AlertCategory.INCENTIVE,
+        priority,
+        source: AlertSource.DEFILLAMA,
+        title: `🌾 REWARD APY SPIKE - ${pool.project} ${pool.symbol}`,
+        summary: `${pool.project} ${pool.symbol} on ${pool.chain} ${changeText}: ${change.previousApyReward.toFixed(1)}% → ${change.currentApyReward.toFixed(1)}% in the last 24 hours.`,
+        details: {
+          incentiveType: 'FARM',
+          programName: pool.project,
+          yieldIncentive: {
+            eventType: 'APY_SPIKE',
+            poolId: pool.pool,
+            project: pool.project,
+            chain: pool.chain,
+            symbol: pool.symbol,
+            tvlUsd: pool.tvlUsd,
+            apyBase: pool.apyBase ?? undefined,
+            apyReward: change.currentApyReward,
+            previousApyReward: change.previousApyReward,
+            rewardTokens: pool.rewardTokens,
+          },
+          sourceUrl: `https://defillama.com/yields/pool/${pool.pool}`,
+        },
+        metadata: {
+          defillamaSlug: pool.project,
+          chainId: pool.chain,
+          tags: ['incentive', 'apy_spike', pool.project, pool.chain.toLowerCase()],
+        },
+        createdAt: new Date(),
+      });
+
+      logger.info(
+        `APY spike alert: ${pool.project} ${pool.symbol} ${change.previousApyReward.toFixed(1)}% → ${change.currentApyReward.toFixed(1)}%`
+      );
+    }
+
+    return alerts;
+  }
+
+  // Record that the pool behind a sent new-pool alert has been announced
+  markAnnounced(alert: Alert): void {
+    const incentive = alert.details.yieldIncentive;
+    if (incentive?.eventType === 'NEW_POOL') {
+      yieldRepository.markAnnounced([incentive.poolId]);
+    }
+  }
+}
+
+export const yieldAnalyzer = new YieldAnalyzer();
+export default yieldAnalyzer;
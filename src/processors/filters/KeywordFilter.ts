@@ -1,7 +1,7 @@
 import { createLogger } from '../../utils/logger.js';
 import { getKeywords } from '../../config/index.js';
 import { AlertCategory } from '../../core/types/alerts.js';
-import type { RawTweet } from '../../core/types/sources.js';
+import type { RawTweet, RawArticle, RawChannelPost } from '../../core/types/sources.js';
 
 const logger = createLogger('KeywordFilter');
 
@@ -14,14 +14,93 @@ export interface KeywordMatch {
   isFromPriorityAccount: boolean;
 }
 
+// What the scorer needs to know about a piece of content besides its text
+interface MatchContext {
+  hashtags: string[];
+  // Whether the author/feed is trusted for the given category
+  isPriorityFor: (category: AlertCategory, accounts: string[]) => boolean;
+  engagementBoost: number;
+}
+
 export class KeywordFilter {
   // Match tweet against all category keywords
   matchTweet(tweet: RawTweet): KeywordMatch[] {
+    const authorLower = tweet.authorUsername.toLowerCase();
+
+    // Engagement boost
+    let engagementBoost = 0;
+    if (tweet.retweetCount > 100) engagementBoost += 5;
+    if (tweet.likeCount > 500) engagementBoost += 5;
+
+    const matches = this.matchText(this.tweetContext(tweet), {
+      hashtags: [...tweet.hashtags, ...tweet.referencedTweets.flatMap((r) => r.hashtags)],
+      isPriorityFor: (_category, accounts) =>
+        accounts.some((acc) => acc.toLowerCase() === authorLower),
+      engagementBoost,
+    });
+
+    if (matches.length > 0) {
+      logger.debug(`Tweet matched ${matches.length} categories`, {
+        author: tweet.authorUsername,
+        topCategory: matches[0]?.category,
+        topScore: matches[0]?.score,
+      });
+    }
+
+    return matches;
+  }
+
+  // Tweet text followed by any quoted or replied-to tweets, so a short
+  // comment on an exploit report is classified with the report
+  tweetContext(tweet: RawTweet): string {
+    return [tweet.text, ...tweet.referencedTweets.map((r) => r.text)].join('\n');
+  }
+
+  // Match RSS/Atom article against all category keywords. Feeds configured as
+  // trusted for a category score like priority accounts.
+  matchArticle(article: RawArticle): KeywordMatch[] {
+    const matches = this.matchText(`${article.title}\n${article.summary}`, {
+      hashtags: article.categories,
+      isPriorityFor: (category) => article.trustedCategories.includes(category),
+      engagementBoost: 0,
+    });
+
+    if (matches.length > 0) {
+      logger.debug(`Article matched ${matches.length} categories`, {
+        feed: article.feedName,
+        topCategory: matches[0]?.category,
+        topScore: matches[0]?.score,
+      });
+    }
+
+    return matches;
+  }
+
+  // Match Telegram channel post against all category keywords. Channels
+  // configured as trusted for a category score like priority accounts.
+  matchChannelPost(post: RawChannelPost): KeywordMatch[] {
+    const matches = this.matchText(post.text, {
+      hashtags: post.hashtags,
+      isPriorityFor: (category) => post.trustedCategories.includes(category),
+      engagementBoost: 0,
+    });
+
+    if (matches.length > 0) {
+      logger.debug(`Channel post matched ${matches.length} categories`, {
+        channel: post.channelUsername ?? post.chatId,
+        topCategory: matches[0]?.category,
+        topScore: matches[0]?.score,
+      });
+    }
+
+    return matches;
+  }
+
+  private matchText(text: string, context: MatchContext): KeywordMatch[] {
     const keywords = getKeywords();
     const matches: KeywordMatch[] = [];
 
-    const textLower = tweet.text.toLowerCase();
-    const authorLower = tweet.authorUsername.toLowerCase();
+    const textLower = text.toLowerCase();
 
     for (const [categoryStr, categoryKeywords] of Object.entries(keywords.categories)) {
       const category = categoryStr as AlertCategory;
@@ -42,14 +121,12 @@ export class KeywordFilter {
       );
 
       // Check if from priority account
-      const isFromPriorityAccount = categoryKeywords.accounts.some(
-        (acc) => acc.toLowerCase() === authorLower
-      );
+      const isFromPriorityAccount = context.isPriorityFor(category, categoryKeywords.accounts);
 
       // Check hashtags
       const matchedHashtags = categoryKeywords.hashtags.filter((tag) => {
         const cleanTag = tag.replace('#', '').toLowerCase();
-        return tweet.hashtags.some((h) => h.toLowerCase() === cleanTag);
+        return context.hashtags.some((h) => h.toLowerCase() === cleanTag);
       });
 
       // Calculate score
@@ -70,9 +147,7 @@ export class KeywordFilter {
           score += 20;
         }
 
-        // Engagement boost
-        if (tweet.retweetCount > 100) score += 5;
-        if (tweet.likeCount > 500) score += 5;
+        score += context.engagementBoost;
 
         // Negative keywords: -50 each (can still match but lower score)
         score -= matchedNegative.length * 50;
@@ -94,14 +169,6 @@ export class KeywordFilter {
     // Sort by score descending
     matches.sort((a, b) => b.score - a.score);
 
-    if (matches.length > 0) {
-      logger.debug(`Tweet matched ${matches.length} categories`, {
-        author: tweet.authorUsername,
-        topCategory: matches[0]?.category,
-        topScore: matches[0]?.score,
-      });
-    }
-
     return matches;
   }
 
@@ -9,6 +9,19 @@ import { createLogger } from '../utils/logger.js';
 
 const logger = createLogger('HttpClient');
 
+// Validators from a previous response, sent back to skip unchanged bodies
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface ConditionalResponse<T> {
+  notModified: boolean;
+  // Undefined when the server answered 304 Not Modified
+  data?: T;
+  validators: CacheValidators;
+}
+
 interface HttpClientOptions {
   baseURL?: string;
   timeout?: number;
@@ -100,6 +113,40 @@ export class HttpClient {
     return response.data;
   }
 
+  // GET with If-None-Match / If-Modified-Since, for servers that support
+  // conditional requests. The validators to send next time are returned.
+  async getConditional<T>(
+    url: string,
+    validators: CacheValidators = {},
+    config: AxiosRequestConfig = {}
+  ): Promise<ConditionalResponse<T>> {
+    const headers: Record<string, string> = {};
+    if (validators.etag) {
+      headers['If-None-Match'] = validators.etag;
+    }
+    if (validators.lastModified) {
+      headers['If-Modified-Since'] = validators.lastModified;
+    }
+
+    const response = await this.client.get<T>(url, {
+      ...config,
+      headers: { ...config.headers, ...headers },
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+    });
+
+    const etag = response.headers['etag'];
+    const lastModified = response.headers['last-modified'];
+
+    return {
+      notModified: response.status === 304,
+      data: response.status === 304 ? undefined : response.data,
+      validators: {
+        etag: typeof etag === 'string' ? etag : validators.etag,
+        lastModified: typeof lastModified === 'string' ? lastModified : validators.lastModified,
+      },
+    };
+  }
+
   async post<T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
     const response = await this.client.post<T>(url, data, config);
     return response.data;
@@ -123,7 +170,15 @@ export class HttpClient {
 
 // Pre-configured clients for each service
 let defillamaClient: HttpClient | null = null;
+let defillamaYieldsClient: HttpClient | null = null;
+let defillamaStablecoinsClient: HttpClient | null = null;
+let defillamaBridgesClient: HttpClient | null = null;
+let snapshotClient: HttpClient | null = null;
+let tallyClient: HttpClient | null = null;
+let rssClient: HttpClient | null = null;
+let rpcClient: HttpClient | null = null;
 let coingeckoClient: HttpClient | null = null;
+let githubClient: HttpClient | null = null;
 
 export function getDefillamaClient(): HttpClient {
   if (!defillamaClient) {
@@ -136,6 +191,93 @@ export function getDefillamaClient(): HttpClient {
   return defillamaClient;
 }
 
+export function getDefillamaYieldsClient(baseURL = 'https://yields.llama.fi'): HttpClient {
+  if (!defillamaYieldsClient) {
+    defillamaYieldsClient = new HttpClient('DeFiLlama Yields', {
+      baseURL,
+      timeout: 60000, // The pools dataset is large
+      maxRetries: 3,
+    });
+  }
+  return defillamaYieldsClient;
+}
+
+export function getDefillamaStablecoinsClient(
+  baseURL = 'https://stablecoins.llama.fi'
+): HttpClient {
+  if (!defillamaStablecoinsClient) {
+    defillamaStablecoinsClient = new HttpClient('DeFiLlama Stablecoins', {
+      baseURL,
+      timeout: 30000,
+      maxRetries: 3,
+    });
+  }
+  return defillamaStablecoinsClient;
+}
+
+export function getDefillamaBridgesClient(baseURL = 'https://bridges.llama.fi'): HttpClient {
+  if (!defillamaBridgesClient) {
+    defillamaBridgesClient = new HttpClient('DeFiLlama Bridges', {
+      baseURL,
+      timeout: 30000,
+      maxRetries: 3,
+    });
+  }
+  return defillamaBridgesClient;
+}
+
+// GraphQL clients post to the full endpoint URL from config
+export function getSnapshotClient(): HttpClient {
+  if (!snapshotClient) {
+    snapshotClient = new HttpClient('Snapshot', {
+      timeout: 30000,
+      maxRetries: 3,
+    });
+  }
+  return snapshotClient;
+}
+
+export function getTallyClient(apiKey?: string): HttpClient {
+  if (!tallyClient) {
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+      headers['Api-Key'] = apiKey;
+    }
+
+    tallyClient = new HttpClient('Tally', {
+      timeout: 30000,
+      maxRetries: 3,
+      headers,
+    });
+  }
+  return tallyClient;
+}
+
+// Feeds live on many hosts, so requests use absolute URLs
+export function getRssClient(): HttpClient {
+  if (!rssClient) {
+    rssClient = new HttpClient('RSS', {
+      timeout: 30000,
+      maxRetries: 2,
+      headers: {
+        Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml',
+      },
+    });
+  }
+  return rssClient;
+}
+
+// JSON-RPC requests are posted to each chain's RPC URL
+export function getRpcClient(): HttpClient {
+  if (!rpcClient) {
+    rpcClient = new HttpClient('RPC', {
+      timeout: 30000,
+      maxRetries: 3,
+    });
+  }
+  return rpcClient;
+}
+
 export function getCoingeckoClient(apiKey?: string): HttpClient {
   if (!coingeckoClient) {
     const headers: Record<string, string> = {};
@@ -153,4 +295,24 @@ export function getCoingeckoClient(apiKey?: string): HttpClient {
   return coingeckoClient;
 }
 
+export function getGithubClient(baseURL = 'https://api.github.com', token?: string): HttpClient {
+  if (!githubClient) {
+    const headers: Record<string, string> = {
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    };
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    githubClient = new HttpClient('GitHub', {
+      baseURL,
+      timeout: 30000,
+      maxRetries: 3,
+      headers,
+    });
+  }
+  return githubClient;
+}
+
 export default HttpClient;
@@ -1,6 +1,6 @@
 import PQueue from 'p-queue';
 import { createLogger } from '../utils/logger.js';
-import { getConfig } from '../config/index.js';
+import { getConfig, type AppConfig } from '../config/index.js';
 
 const logger = createLogger('RateLimiter');
 
@@ -89,7 +89,7 @@ class RateLimiter {
 // Singleton rate limiters for each service
 const rateLimiters: Map<string, RateLimiter> = new Map();
 
-export function getRateLimiter(service: 'defillama' | 'twitter' | 'coingecko'): RateLimiter {
+export function getRateLimiter(service: keyof AppConfig['rateLimit']): RateLimiter {
   if (!rateLimiters.has(service)) {
     const config = getConfig();
     const serviceConfig = config.rateLimit[service];
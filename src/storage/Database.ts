@@ -93,6 +93,306 @@ CREATE TABLE IF NOT EXISTS migrations (
 );
 `;
 
+// Incremental migrations, applied in order after the initial schema
+const MIGRATIONS: Array<{ name: string; sql: string }> = [
+  {
+    name: '002_yield_pool_state',
+    sql: `
+-- Yield pool state tracking
+CREATE TABLE IF NOT EXISTS yield_pool_state (
+    pool_id TEXT PRIMARY KEY,
+    project TEXT NOT NULL,
+    chain TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    last_tvl_usd REAL NOT NULL,
+    last_apy_base REAL,
+    last_apy_reward REAL,
+    reward_tokens TEXT NOT NULL DEFAULT '[]',
+    apy_history_24h TEXT NOT NULL DEFAULT '[]',
+    first_seen_at INTEGER NOT NULL,
+    last_checked_at INTEGER NOT NULL,
+    announced INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER DEFAULT (unixepoch()),
+    updated_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_yield_pool_state_first_seen ON yield_pool_state(first_seen_at);
+`,
+  },
+  {
+    name: '003_chain_state',
+    sql: `
+-- Chain state tracking
+CREATE TABLE IF NOT EXISTS chain_state (
+    name TEXT PRIMARY KEY,
+    token_symbol TEXT,
+    last_tvl REAL NOT NULL,
+    last_checked_at INTEGER NOT NULL,
+    tvl_history_24h TEXT NOT NULL DEFAULT '[]',
+    tvl_history_7d TEXT NOT NULL DEFAULT '[]',
+    created_at INTEGER DEFAULT (unixepoch()),
+    updated_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_state_checked ON chain_state(last_checked_at);
+`,
+  },
+  {
+    name: '004_stablecoin_state',
+    sql: `
+-- Stablecoin supply and peg tracking
+CREATE TABLE IF NOT EXISTS stablecoin_state (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    peg_type TEXT NOT NULL,
+    last_price REAL,
+    last_circulating REAL NOT NULL,
+    last_circulating_by_chain TEXT NOT NULL,
+    last_checked_at INTEGER NOT NULL,
+    supply_history_24h TEXT NOT NULL DEFAULT '[]',
+    created_at INTEGER DEFAULT (unixepoch()),
+    updated_at INTEGER DEFAULT (unixepoch())
+);
+`,
+  },
+  {
+    name: '005_security_incidents',
+    sql: `
+-- DeFiLlama protocol id, used to match external datasets to tracked protocols
+ALTER TABLE protocol_state ADD COLUMN defillama_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_protocol_state_defillama_id ON protocol_state(defillama_id);
+
+-- Security incidents from the DeFiLlama hacks dataset
+CREATE TABLE IF NOT EXISTS security_incidents (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    incident_date INTEGER NOT NULL,
+    amount_usd REAL,
+    chains TEXT NOT NULL DEFAULT '[]',
+    classification TEXT,
+    technique TEXT,
+    source_url TEXT,
+    defillama_id TEXT,
+    protocol_slug TEXT,
+    first_seen_at INTEGER NOT NULL,
+    announced INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_incidents_announced ON security_incidents(announced);
+`,
+  },
+  {
+    name: '006_token_unlocks',
+    sql: `
+-- Upcoming token unlocks and emission events
+CREATE TABLE IF NOT EXISTS token_unlocks (
+    id TEXT PRIMARY KEY,
+    protocol_name TEXT NOT NULL,
+    coingecko_id TEXT,
+    symbol TEXT,
+    unlock_date INTEGER NOT NULL,
+    amount REAL NOT NULL,
+    category TEXT,
+    unlock_type TEXT,
+    description TEXT,
+    circulating_supply REAL,
+    max_supply REAL,
+    total_locked REAL,
+    alerted INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER DEFAULT (unixepoch()),
+    updated_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_unlocks_date ON token_unlocks(unlock_date);
+`,
+  },
+  {
+    name: '007_governance_proposals',
+    sql: `
+-- Governance proposals and which lifecycle alerts have been sent
+CREATE TABLE IF NOT EXISTS governance_proposals (
+    id TEXT PRIMARY KEY,
+    provider TEXT NOT NULL,
+    space TEXT NOT NULL,
+    space_name TEXT,
+    title TEXT NOT NULL,
+    state TEXT NOT NULL,
+    start_at INTEGER NOT NULL,
+    end_at INTEGER NOT NULL,
+    executed_at INTEGER,
+    url TEXT NOT NULL,
+    choices TEXT NOT NULL DEFAULT '[]',
+    scores TEXT NOT NULL DEFAULT '[]',
+    notified_new INTEGER NOT NULL DEFAULT 0,
+    notified_closing INTEGER NOT NULL DEFAULT 0,
+    notified_final INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER DEFAULT (unixepoch()),
+    updated_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_governance_proposals_space ON governance_proposals(provider, space);
+`,
+  },
+  {
+    name: '008_rss_entries',
+    sql: `
+-- RSS/Atom entries already seen, so restarts don't re-alert
+CREATE TABLE IF NOT EXISTS rss_entries (
+    id TEXT PRIMARY KEY,
+    feed_url TEXT NOT NULL,
+    title TEXT,
+    link TEXT,
+    published_at INTEGER,
+    first_seen_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rss_entries_feed ON rss_entries(feed_url);
+CREATE INDEX IF NOT EXISTS idx_rss_entries_seen ON rss_entries(first_seen_at);
+`,
+  },
+  {
+    name: '009_token_market_history',
+    sql: `
+-- Market data and hourly snapshots for price/volume/rank anomaly detection
+ALTER TABLE token_prices ADD COLUMN price_change_1h REAL;
+ALTER TABLE token_prices ADD COLUMN total_volume REAL;
+ALTER TABLE token_prices ADD COLUMN market_cap_rank INTEGER;
+ALTER TABLE token_prices ADD COLUMN market_history_7d TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE token_prices ADD COLUMN last_alerts TEXT NOT NULL DEFAULT '{}';
+`,
+  },
+  {
+    name: '010_coingecko_discovery',
+    sql: `
+-- Every coin CoinGecko has listed, to detect new listings
+CREATE TABLE IF NOT EXISTS coin_listings (
+    id TEXT PRIMARY KEY,
+    symbol TEXT NOT NULL,
+    name TEXT NOT NULL,
+    platforms TEXT NOT NULL DEFAULT '{}',
+    first_seen_at INTEGER NOT NULL
+);
+
+-- Categories on CoinGecko's trending list, to detect new entries
+CREATE TABLE IF NOT EXISTS trending_categories (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    is_trending INTEGER NOT NULL DEFAULT 0,
+    first_trending_at INTEGER NOT NULL,
+    last_trending_at INTEGER NOT NULL
+);
+`,
+  },
+  {
+    name: '011_protocol_tokens',
+    sql: `
+-- Governance/native token of each protocol as listed by DeFiLlama
+ALTER TABLE protocol_state ADD COLUMN coingecko_id TEXT;
+ALTER TABLE protocol_state ADD COLUMN token_symbol TEXT;
+ALTER TABLE protocol_state ADD COLUMN token_address TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_protocol_state_coingecko_id ON protocol_state(coingecko_id);
+`,
+  },
+  {
+    name: '012_github_items',
+    sql: `
+-- Releases, tags, advisories and audit files already seen per repository
+CREATE TABLE IF NOT EXISTS github_items (
+    id TEXT PRIMARY KEY,
+    repo TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    first_seen_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_github_items_repo_kind ON github_items(repo, kind);
+`,
+  },
+  {
+    name: '013_protocol_metadata',
+    sql: `
+-- Snapshot of each protocol's DeFiLlama listing, to spot structural changes.
+-- A NULL chains column means no snapshot has been taken yet.
+ALTER TABLE protocol_state ADD COLUMN category TEXT;
+ALTER TABLE protocol_state ADD COLUMN chains TEXT;
+ALTER TABLE protocol_state ADD COLUMN listed_at INTEGER;
+`,
+  },
+  {
+    name: '014_protocol_fees',
+    sql: `
+-- Fees and revenue per protocol from DeFiLlama, with one entry per UTC day
+CREATE TABLE IF NOT EXISTS protocol_fees (
+    slug TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    category TEXT,
+    fees_24h REAL NOT NULL,
+    revenue_24h REAL,
+    fees_rank INTEGER NOT NULL,
+    previous_fees_rank INTEGER,
+    daily_history TEXT NOT NULL DEFAULT '[]',
+    last_checked_at INTEGER NOT NULL,
+    created_at INTEGER DEFAULT (unixepoch()),
+    updated_at INTEGER DEFAULT (unixepoch())
+);
+`,
+  },
+  {
+    name: '015_volume_state',
+    sql: `
+-- DEX and derivatives volume per protocol and per chain, one entry per UTC day
+CREATE TABLE IF NOT EXISTS volume_state (
+    key TEXT PRIMARY KEY,
+    market TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    name TEXT NOT NULL,
+    last_volume_24h REAL NOT NULL,
+    daily_history TEXT NOT NULL DEFAULT '[]',
+    last_checked_at INTEGER NOT NULL,
+    created_at INTEGER DEFAULT (unixepoch()),
+    updated_at INTEGER DEFAULT (unixepoch())
+);
+`,
+  },
+  {
+    name: '016_contract_events',
+    sql: `
+-- Decoded events from watched contracts, kept until their alert is sent
+CREATE TABLE IF NOT EXISTS contract_events (
+    id TEXT PRIMARY KEY,
+    chain TEXT NOT NULL,
+    address TEXT NOT NULL,
+    protocol TEXT NOT NULL,
+    label TEXT,
+    event_name TEXT NOT NULL,
+    args TEXT NOT NULL DEFAULT '{}',
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    explorer_url TEXT,
+    announced INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_events_announced ON contract_events(announced);
+`,
+  },
+  {
+    name: '017_security_incident_alerted',
+    sql: `
+-- Whether an alert actually went out for the incident. Announced incidents
+-- that were only dropped are looked at again when their amount is revised.
+ALTER TABLE security_incidents ADD COLUMN alerted INTEGER NOT NULL DEFAULT 0;
+
+-- Incidents handled before this was tracked are left as they are
+UPDATE security_incidents SET alerted = announced;
+`,
+  },
+];
+
 // Database wrapper class
 class DatabaseWrapper {
   private static instance: DatabaseWrapper;
@@ -154,6 +454,26 @@ class DatabaseWrapper {
         .run('001_initial_schema');
       logger.info('Initial schema applied');
     }
+
+    // Apply any incremental migrations not yet recorded
+    const db = this.db;
+    const applied = new Set(
+      (db.prepare('SELECT name FROM migrations').all() as Array<{ name: string }>).map(
+        (row) => row.name
+      )
+    );
+
+    for (const migration of MIGRATIONS) {
+      if (applied.has(migration.name)) {
+        continue;
+      }
+
+      logger.info(`Applying migration ${migration.name}...`);
+      db.transaction(() => {
+        db.exec(migration.sql);
+        db.prepare('INSERT INTO migrations (name) VALUES (?)').run(migration.name);
+      })();
+    }
   }
 
   // Get database instance
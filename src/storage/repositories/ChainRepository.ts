@@ -0,0 +1,227 @@
+import { database } from '../Database.js';
+import { createLogger } from '../../utils/logger.js';
+import type { ChainState, TVLSnapshot } from '../../core/types/protocols.js';
+import type { DefiLlamaChain } from '../../core/types/sources.js';
+
+const logger = createLogger('ChainRepository');
+
+// Chains only carry a total, so snapshots skip the per-chain breakdown
+type ChainTVLSnapshot = Pick<TVLSnapshot, 'timestamp' | 'tvl'>;
+
+export class ChainRepository {
+  // Get chain state by name
+  get(name: string): ChainState | null {
+    const stmt = database.prepare(`
+      SELECT * FROM chain_state WHERE name = ?
+    `);
+
+    const row = stmt.get(name) as any;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      name: row.name,
+      tokenSymbol: row.token_symbol ?? undefined,
+      lastTvl: row.last_tvl,
+      lastCheckedAt: new Date(row.last_checked_at),
+      tvlHistory24h: row.tvl_history_24h,
+      tvlHistory7d: row.tvl_history_7d,
+    };
+  }
+
+  // Save or update a batch of chains in a single transaction
+  upsertMany(chains: DefiLlamaChain[]): void {
+    database.transaction(() => {
+      for (const chain of chains) {
+        this.upsert(chain.name, chain.tvl, chain.tokenSymbol);
+      }
+    });
+
+    logger.debug(`Upserted ${chains.length} chains`);
+  }
+
+  // Save or update chain state
+  upsert(name: string, tvl: number, tokenSymbol?: string): ChainState {
+    const existing = this.get(name);
+    const now = Date.now();
+
+    // Update TVL history
+    let history24h: ChainTVLSnapshot[] = [];
+    let history7d: ChainTVLSnapshot[] = [];
+
+    if (existing) {
+      try {
+        history24h = JSON.parse(existing.tvlHistory24h);
+        history7d = JSON.parse(existing.tvlHistory7d);
+      } catch {
+        // Invalid JSON, reset history
+      }
+    }
+
+    const snapshot: ChainTVLSnapshot = {
+      timestamp: new Date(now),
+      tvl,
+    };
+
+    history24h.push(snapshot);
+    history7d.push(snapshot);
+
+    // Prune old snapshots
+    const cutoff24h = now - 24 * 60 * 60 * 1000;
+    const cutoff7d = now - 7 * 24 * 60 * 60 * 1000;
+
+    history24h = history24h.filter((s) => new Date(s.timestamp).getTime() > cutoff24h);
+    history7d = history7d.filter((s) => new Date(s.timestamp).getTime() > cutoff7d);
+
+    // Limit array sizes
+    if (history24h.length > 288) {
+      history24h = history24h.slice(-288); // ~5 min intervals for 24h
+    }
+    if (history7d.length > 2016) {
+      history7d = history7d.slice(-2016); // ~5 min intervals for 7d
+    }
+
+    const stmt = database.prepare(`
+      INSERT INTO chain_state (name, token_symbol, last_tvl, last_checked_at, tvl_history_24h, tvl_history_7d)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        token_symbol = excluded.token_symbol,
+        last_tvl = excluded.last_tvl,
+        last_checked_at = excluded.last_checked_at,
+        tvl_history_24h = excluded.tvl_history_24h,
+        tvl_history_7d = excluded.tvl_history_7d,
+        updated_at = unixepoch()
+    `);
+
+    stmt.run(
+      name,
+      tokenSymbol ?? null,
+      tvl,
+      now,
+      JSON.stringify(history24h),
+      JSON.stringify(history7d)
+    );
+
+    return {
+      name,
+      tokenSymbol,
+      lastTvl: tvl,
+      lastCheckedAt: new Date(now),
+      tvlHistory24h: JSON.stringify(history24h),
+      tvlHistory7d: JSON.stringify(history7d),
+    };
+  }
+
+  // Calculate TVL change percentage
+  calculateTvlChange(name: string, hoursAgo: 24 | 48 | 168 = 24): {
+    previousTvl: number;
+    currentTvl: number;
+    changePercent: number;
+    changeAbsolute: number;
+  } | null {
+    const state = this.get(name);
+
+    if (!state) {
+      return null;
+    }
+
+    let history: ChainTVLSnapshot[] = [];
+    try {
+      history =
+        hoursAgo <= 24
+          ? JSON.parse(state.tvlHistory24h)
+          : JSON.parse(state.tvlHistory7d);
+    } catch {
+      return null;
+    }
+
+    if (history.length < 2) {
+      return null;
+    }
+
+    const cutoff = Date.now() - hoursAgo * 60 * 60 * 1000;
+
+    // Find the oldest snapshot within the time window
+    const oldSnapshot = history.find(
+      (s) => new Date(s.timestamp).getTime() >= cutoff
+    );
+
+    if (!oldSnapshot) {
+      return null;
+    }
+
+    const currentTvl = state.lastTvl;
+    const previousTvl = oldSnapshot.tvl;
+
+    if (previousTvl === 0) {
+      return null;
+    }
+
+    const changeAbsolute = currentTvl - previousTvl;
+    const changePercent = (changeAbsolute / previousTvl) * 100;
+
+    return {
+      previousTvl,
+      currentTvl,
+      changePercent,
+      changeAbsolute,
+    };
+  }
+
+  // Get all chains with significant TVL changes
+  getSignificantChanges(
+    minChangePercent: number,
+    minTvlUsd: number,
+    hoursAgo: 24 | 48 | 168 = 24
+  ): Array<{
+    name: string;
+    previousTvl: number;
+    currentTvl: number;
+    changePercent: number;
+    changeAbsolute: number;
+  }> {
+    const stmt = database.prepare(`
+      SELECT name, last_tvl FROM chain_state
+      WHERE last_tvl >= ?
+    `);
+
+    const rows = stmt.all(minTvlUsd) as Array<{ name: string; last_tvl: number }>;
+
+    const results: Array<{
+      name: string;
+      previousTvl: number;
+      currentTvl: number;
+      changePercent: number;
+      changeAbsolute: number;
+    }> = [];
+
+    for (const row of rows) {
+      const change = this.calculateTvlChange(row.name, hoursAgo);
+
+      if (change && Math.abs(change.changePercent) >= minChangePercent) {
+        results.push({
+          name: row.name,
+          ...change,
+        });
+      }
+    }
+
+    // Sort by absolute change percent descending
+    return results.sort(
+      (a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent)
+    );
+  }
+
+  // Get total chain count
+  getCount(): number {
+    const stmt = database.prepare(`SELECT COUNT(*) as count FROM chain_state`);
+    const row = stmt.get() as { count: number };
+    return row.count;
+  }
+}
+
+// Export singleton instance
+export const chainRepository = new ChainRepository();
+export default chainRepository;
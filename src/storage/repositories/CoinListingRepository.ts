@@ -0,0 +1,54 @@
+import { database } from '../Database.js';
+import { createLogger } from '../../utils/logger.js';
+import type { CoinGeckoListing } from '../../core/types/sources.js';
+
+const logger = createLogger('CoinListingRepository');
+
+export class CoinListingRepository {
+  // Check whether the coin list has been stored yet
+  hasListings(): boolean {
+    const stmt = database.prepare(`
+      SELECT 1 FROM coin_listings LIMIT 1
+    `);
+
+    return stmt.get() !== undefined;
+  }
+
+  // Record coins not seen before and return the ones that were new
+  insertNew(listings: CoinGeckoListing[]): CoinGeckoListing[] {
+    const stmt = database.prepare(`
+      INSERT INTO coin_listings (id, symbol, name, platforms, first_seen_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO NOTHING
+    `);
+
+    const now = Date.now();
+    const inserted: CoinGeckoListing[] = [];
+
+    database.transaction(() => {
+      for (const listing of listings) {
+        const result = stmt.run(
+          listing.id,
+          listing.symbol,
+          listing.name,
+          JSON.stringify(listing.platforms),
+          now
+        );
+
+        if (result.changes > 0) {
+          inserted.push(listing);
+        }
+      }
+    });
+
+    if (inserted.length > 0) {
+      logger.debug(`Stored ${inserted.length} new listings`);
+    }
+
+    return inserted;
+  }
+}
+
+// Export singleton instance
+export const coinListingRepository = new CoinListingRepository();
+export default coinListingRepository;
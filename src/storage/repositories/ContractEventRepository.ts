@@ -0,0 +1,99 @@
+import { database } from '../Database.js';
+import { createLogger } from '../../utils/logger.js';
+import type { ContractEvent, ContractEventName } from '../../core/types/sources.js';
+
+const logger = createLogger('ContractEventRepository');
+
+export class ContractEventRepository {
+  // Store events not seen before. Events already stored keep their announced
+  // flag, so re-reading a block range doesn't alert twice.
+  insertNew(events: ContractEvent[]): number {
+    const stmt = database.prepare(`
+      INSERT INTO contract_events (
+        id, chain, address, protocol, label, event_name, args,
+        block_number, tx_hash, log_index, explorer_url
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO NOTHING
+    `);
+
+    let inserted = 0;
+
+    database.transaction(() => {
+      for (const event of events) {
+        const result = stmt.run(
+          event.id,
+          event.chain,
+          event.address,
+          event.protocol,
+          event.label ?? null,
+          event.eventName,
+          JSON.stringify(event.args),
+          event.blockNumber,
+          event.txHash,
+          event.logIndex,
+          event.explorerUrl ?? null
+        );
+        inserted += result.changes;
+      }
+    });
+
+    if (inserted > 0) {
+      logger.debug(`Stored ${inserted} new contract events`);
+    }
+
+    return inserted;
+  }
+
+  // Get events that have not been alerted on yet, oldest first
+  getUnannounced(): ContractEvent[] {
+    const stmt = database.prepare(`
+      SELECT * FROM contract_events
+      WHERE announced = 0
+      ORDER BY block_number ASC, log_index ASC
+    `);
+
+    const rows = stmt.all() as any[];
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  // Mark events as announced so they only alert once
+  markAnnounced(ids: string[]): void {
+    const stmt = database.prepare(`
+      UPDATE contract_events SET announced = 1 WHERE id = ?
+    `);
+
+    database.transaction(() => {
+      for (const id of ids) {
+        stmt.run(id);
+      }
+    });
+  }
+
+  private mapRow(row: any): ContractEvent {
+    let args: Record<string, string> = {};
+    try {
+      args = JSON.parse(row.args);
+    } catch {
+      // Invalid JSON, leave empty
+    }
+
+    return {
+      id: row.id,
+      chain: row.chain,
+      address: row.address,
+      protocol: row.protocol,
+      label: row.label ?? undefined,
+      eventName: row.event_name as ContractEventName,
+      args,
+      blockNumber: row.block_number,
+      txHash: row.tx_hash,
+      logIndex: row.log_index,
+      explorerUrl: row.explorer_url ?? undefined,
+    };
+  }
+}
+
+// Export singleton instance
+export const contractEventRepository = new ContractEventRepository();
+export default contractEventRepository;
@@ -0,0 +1,139 @@
+import { database } from '../Database.js';
+import { createLogger } from '../../utils/logger.js';
+import type { DailyFeesSnapshot, ProtocolFeesState } from '../../core/types/protocols.js';
+import type { DefiLlamaProtocolFees } from '../../core/types/sources.js';
+
+const logger = createLogger('FeesRepository');
+
+const HISTORY_DAYS = 30;
+
+export class FeesRepository {
+  // Get fees state by protocol slug
+  get(slug: string): ProtocolFeesState | null {
+    const stmt = database.prepare(`
+      SELECT * FROM protocol_fees WHERE slug = ?
+    `);
+
+    const row = stmt.get(slug) as any;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      slug: row.slug,
+      name: row.name,
+      category: row.category ?? undefined,
+      fees24h: row.fees_24h,
+      revenue24h: row.revenue_24h ?? undefined,
+      feesRank: row.fees_rank,
+      previousFeesRank: row.previous_fees_rank ?? undefined,
+      dailyHistory: row.daily_history,
+      lastCheckedAt: new Date(row.last_checked_at),
+    };
+  }
+
+  // Save or update a batch of protocols in a single transaction
+  upsertMany(protocols: DefiLlamaProtocolFees[]): void {
+    database.transaction(() => {
+      for (const protocol of protocols) {
+        this.upsert(protocol);
+      }
+    });
+
+    logger.debug(`Upserted fees for ${protocols.length} protocols`);
+  }
+
+  // Save or update a protocol's fees. The day's history entry is replaced on
+  // every poll, so it ends up holding the last figures seen that day.
+  upsert(protocol: DefiLlamaProtocolFees): void {
+    const existing = this.get(protocol.slug);
+    const now = new Date();
+    const today = now.toISOString().slice(0, 10);
+
+    let history = existing ? this.parseHistory(existing.dailyHistory) : [];
+
+    history = history.filter((s) => s.date !== today);
+    history.push({ date: today, fees: protocol.fees24h, revenue: protocol.revenue24h });
+
+    // Keep the last 30 days
+    history = history.slice(-HISTORY_DAYS);
+
+    const stmt = database.prepare(`
+      INSERT INTO protocol_fees (
+        slug, name, category, fees_24h, revenue_24h, fees_rank, previous_fees_rank,
+        daily_history, last_checked_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, NULL, ?, ?)
+      ON CONFLICT(slug) DO UPDATE SET
+        name = excluded.name,
+        category = excluded.category,
+        fees_24h = excluded.fees_24h,
+        revenue_24h = excluded.revenue_24h,
+        previous_fees_rank = protocol_fees.fees_rank,
+        fees_rank = excluded.fees_rank,
+        daily_history = excluded.daily_history,
+        last_checked_at = excluded.last_checked_at,
+        updated_at = unixepoch()
+    `);
+
+    stmt.run(
+      protocol.slug,
+      protocol.name,
+      protocol.category ?? null,
+      protocol.fees24h,
+      protocol.revenue24h ?? null,
+      protocol.feesRank,
+      JSON.stringify(history),
+      now.getTime()
+    );
+  }
+
+  // Average daily revenue over the `days` days before today. Days without a
+  // revenue figure are left out; null when fewer than minDays remain.
+  calculateTrailingRevenue(
+    slug: string,
+    days: number,
+    minDays: number
+  ): { average: number; days: number } | null {
+    const state = this.get(slug);
+
+    if (!state) {
+      return null;
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const window = this.parseHistory(state.dailyHistory)
+      .filter((s) => s.date !== today)
+      .slice(-days)
+      .filter((s) => s.revenue !== undefined);
+
+    if (window.length < minDays) {
+      return null;
+    }
+
+    const total = window.reduce((sum, s) => sum + (s.revenue ?? 0), 0);
+
+    return { average: total / window.length, days: window.length };
+  }
+
+  // Get tracked protocol count
+  getCount(): number {
+    const stmt = database.prepare(`SELECT COUNT(*) as count FROM protocol_fees`);
+    const row = stmt.get() as { count: number };
+    return row.count;
+  }
+
+  private parseHistory(json: string): DailyFeesSnapshot[] {
+    try {
+      return JSON.parse(json);
+    } catch {
+      // Invalid JSON, reset history
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const feesRepository = new FeesRepository();
+export default feesRepository;
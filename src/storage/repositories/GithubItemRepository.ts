@@ -0,0 +1,54 @@
+import { database } from '../Database.js';
+import type { RepoEventKind } from '../../core/types/sources.js';
+
+export interface GithubItemRef {
+  id: string;
+  repo: string;
+  kind: RepoEventKind;
+}
+
+export class GithubItemRepository {
+  // Check whether any items of a kind have been stored for a repository
+  hasItems(repo: string, kind: RepoEventKind): boolean {
+    const stmt = database.prepare(`
+      SELECT 1 FROM github_items WHERE repo = ? AND kind = ? LIMIT 1
+    `);
+
+    return stmt.get(repo, kind) !== undefined;
+  }
+
+  // Items not recorded yet, without recording them
+  getUnseen<T extends GithubItemRef>(items: T[]): T[] {
+    const stmt = database.prepare(`
+      SELECT 1 FROM github_items WHERE id = ?
+    `);
+
+    return items.filter((item) => stmt.get(item.id) === undefined);
+  }
+
+  // Record items not seen before and return the ones that were new
+  insertNew<T extends GithubItemRef>(items: T[]): T[] {
+    const stmt = database.prepare(`
+      INSERT INTO github_items (id, repo, kind, first_seen_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(id) DO NOTHING
+    `);
+
+    const now = Date.now();
+    const inserted: T[] = [];
+
+    database.transaction(() => {
+      for (const item of items) {
+        if (stmt.run(item.id, item.repo, item.kind, now).changes > 0) {
+          inserted.push(item);
+        }
+      }
+    });
+
+    return inserted;
+  }
+}
+
+// Export singleton instance
+export const githubItemRepository = new GithubItemRepository();
+export default githubItemRepository;
@@ -0,0 +1,151 @@
+import { database } from '../Database.js';
+import { createLogger } from '../../utils/logger.js';
+import type { GovernanceProposalRecord } from '../../core/types/protocols.js';
+import type { GovernanceProposal } from '../../core/types/sources.js';
+
+const logger = createLogger('GovernanceRepository');
+
+// Proposal states after which nothing about the vote can change
+export const FINAL_PROPOSAL_STATES = ['closed', 'executed', 'defeated', 'canceled'];
+
+export type ProposalNotification = 'new' | 'closing' | 'final';
+
+export class GovernanceRepository {
+  // Get proposal by id
+  get(id: string): GovernanceProposalRecord | null {
+    const stmt = database.prepare(`
+      SELECT * FROM governance_proposals WHERE id = ?
+    `);
+
+    const row = stmt.get(id) as any;
+    return row ? this.mapRow(row) : null;
+  }
+
+  // Check whether any proposals have been stored for a space/governor
+  hasSpace(provider: string, space: string): boolean {
+    const stmt = database.prepare(`
+      SELECT 1 FROM governance_proposals WHERE provider = ? AND space = ? LIMIT 1
+    `);
+
+    return stmt.get(provider, space) !== undefined;
+  }
+
+  // Save or update a batch of proposals in a single transaction.
+  // Notification flags are preserved across updates. Proposals stored during a
+  // space's baseline load are marked as already notified, except that active
+  // votes can still raise a closing reminder.
+  upsertMany(proposals: GovernanceProposal[], isBaseline = false): void {
+    const stmt = database.prepare(`
+      INSERT INTO governance_proposals (
+        id, provider, space, space_name, title, state, start_at, end_at, executed_at,
+        url, choices, scores, notified_new, notified_closing, notified_final
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        space_name = excluded.space_name,
+        title = excluded.title,
+        state = excluded.state,
+        start_at = excluded.start_at,
+        end_at = excluded.end_at,
+        executed_at = excluded.executed_at,
+        url = excluded.url,
+        choices = excluded.choices,
+        scores = excluded.scores,
+        updated_at = unixepoch()
+    `);
+
+    database.transaction(() => {
+      for (const proposal of proposals) {
+        const isFinal = FINAL_PROPOSAL_STATES.includes(proposal.state);
+
+        stmt.run(
+          proposal.id,
+          proposal.provider,
+          proposal.space,
+          proposal.spaceName ?? null,
+          proposal.title,
+          proposal.state,
+          proposal.startAt.getTime(),
+          proposal.endAt.getTime(),
+          proposal.executedAt?.getTime() ?? null,
+          proposal.url,
+          JSON.stringify(proposal.choices || []),
+          JSON.stringify(proposal.scores || []),
+          isBaseline ? 1 : 0,
+          isBaseline && proposal.state !== 'active' ? 1 : 0,
+          isBaseline && isFinal ? 1 : 0
+        );
+      }
+    });
+
+    logger.debug(`Upserted ${proposals.length} proposals${isBaseline ? ' (baseline)' : ''}`);
+  }
+
+  // Get proposals that still have a lifecycle notification outstanding.
+  // Proposals that ended more than maxAgeDays ago are ignored.
+  getPending(maxAgeDays = 30): GovernanceProposalRecord[] {
+    const stmt = database.prepare(`
+      SELECT * FROM governance_proposals
+      WHERE (notified_new = 0 OR notified_closing = 0 OR notified_final = 0)
+        AND end_at > ?
+      ORDER BY end_at ASC
+    `);
+
+    const rows = stmt.all(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000) as any[];
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  // Mark lifecycle notifications as sent for a proposal
+  markNotified(id: string, notifications: ProposalNotification[]): void {
+    if (notifications.length === 0) {
+      return;
+    }
+
+    const columns = notifications.map((n) => `notified_${n} = 1`).join(', ');
+    const stmt = database.prepare(`
+      UPDATE governance_proposals SET ${columns}, updated_at = unixepoch() WHERE id = ?
+    `);
+
+    stmt.run(id);
+  }
+
+  // Get total proposal count
+  getCount(): number {
+    const stmt = database.prepare(`SELECT COUNT(*) as count FROM governance_proposals`);
+    const row = stmt.get() as { count: number };
+    return row.count;
+  }
+
+  private mapRow(row: any): GovernanceProposalRecord {
+    let choices: string[] = [];
+    let scores: number[] = [];
+    try {
+      choices = JSON.parse(row.choices);
+      scores = JSON.parse(row.scores);
+    } catch {
+      // Invalid JSON, leave empty
+    }
+
+    return {
+      id: row.id,
+      provider: row.provider,
+      space: row.space,
+      spaceName: row.space_name ?? undefined,
+      title: row.title,
+      state: row.state,
+      startAt: new Date(row.start_at),
+      endAt: new Date(row.end_at),
+      executedAt: row.executed_at ? new Date(row.executed_at) : undefined,
+      url: row.url,
+      choices,
+      scores,
+      notifiedNew: row.notified_new === 1,
+      notifiedClosing: row.notified_closing === 1,
+      notifiedFinal: row.notified_final === 1,
+    };
+  }
+}
+
+// Export singleton instance
+export const governanceRepository = new GovernanceRepository();
+export default governanceRepository;
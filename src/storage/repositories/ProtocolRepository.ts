@@ -1,6 +1,13 @@
 import { database } from '../Database.js';
 import { createLogger } from '../../utils/logger.js';
-import type { ProtocolState, TVLSnapshot } from '../../core/types/protocols.js';
+import type {
+  ProtocolMetadata,
+  ProtocolState,
+  ProtocolSyncState,
+  ProtocolTokenMapping,
+  TVLSnapshot,
+} from '../../core/types/protocols.js';
+import type { DefiLlamaProtocol } from '../../core/types/sources.js';
 
 const logger = createLogger('ProtocolRepository');
 
@@ -17,15 +24,38 @@ export class ProtocolRepository {
       return null;
     }
 
-    return {
-      slug: row.slug,
-      name: row.name,
-      lastTvl: row.last_tvl,
-      lastTvlByChain: row.last_tvl_by_chain,
-      lastCheckedAt: new Date(row.last_checked_at),
-      tvlHistory24h: row.tvl_history_24h,
-      tvlHistory7d: row.tvl_history_7d,
-    };
+    return this.mapRow(row);
+  }
+
+  // Get protocol state by DeFiLlama protocol id
+  getByDefillamaId(defillamaId: string): ProtocolState | null {
+    const stmt = database.prepare(`
+      SELECT * FROM protocol_state WHERE defillama_id = ?
+    `);
+
+    const row = stmt.get(defillamaId) as any;
+    return row ? this.mapRow(row) : null;
+  }
+
+  // Get the largest protocol whose token has the given CoinGecko id
+  getByCoingeckoId(coingeckoId: string): ProtocolState | null {
+    const stmt = database.prepare(`
+      SELECT * FROM protocol_state WHERE coingecko_id = ?
+      ORDER BY last_tvl DESC LIMIT 1
+    `);
+
+    const row = stmt.get(coingeckoId) as any;
+    return row ? this.mapRow(row) : null;
+  }
+
+  // Get protocol state by display name (case-insensitive)
+  getByName(name: string): ProtocolState | null {
+    const stmt = database.prepare(`
+      SELECT * FROM protocol_state WHERE name = ? COLLATE NOCASE
+    `);
+
+    const row = stmt.get(name) as any;
+    return row ? this.mapRow(row) : null;
   }
 
   // Save or update protocol state
@@ -33,7 +63,8 @@ export class ProtocolRepository {
     slug: string,
     name: string,
     tvl: number,
-    tvlByChain: Record<string, number>
+    tvlByChain: Record<string, number>,
+    defillamaId?: string
   ): ProtocolState {
     const existing = this.get(slug);
     const now = Date.now();
@@ -77,10 +108,11 @@ export class ProtocolRepository {
     }
 
     const stmt = database.prepare(`
-      INSERT INTO protocol_state (slug, name, last_tvl, last_tvl_by_chain, last_checked_at, tvl_history_24h, tvl_history_7d)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO protocol_state (slug, name, defillama_id, last_tvl, last_tvl_by_chain, last_checked_at, tvl_history_24h, tvl_history_7d)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(slug) DO UPDATE SET
         name = excluded.name,
+        defillama_id = COALESCE(excluded.defillama_id, protocol_state.defillama_id),
         last_tvl = excluded.last_tvl,
         last_tvl_by_chain = excluded.last_tvl_by_chain,
         last_checked_at = excluded.last_checked_at,
@@ -92,6 +124,7 @@ export class ProtocolRepository {
     stmt.run(
       slug,
       name,
+      defillamaId ?? null,
       tvl,
       JSON.stringify(tvlByChain),
       now,
@@ -102,6 +135,13 @@ export class ProtocolRepository {
     return {
       slug,
       name,
+      defillamaId: defillamaId ?? existing?.defillamaId,
+      coingeckoId: existing?.coingeckoId,
+      tokenSymbol: existing?.tokenSymbol,
+      tokenAddress: existing?.tokenAddress,
+      category: existing?.category,
+      chains: existing?.chains,
+      listedAt: existing?.listedAt,
       lastTvl: tvl,
       lastTvlByChain: JSON.stringify(tvlByChain),
       lastCheckedAt: new Date(now),
@@ -110,6 +150,179 @@ export class ProtocolRepository {
     };
   }
 
+  // Save or update many protocols in one transaction
+  upsertMany(protocols: DefiLlamaProtocol[]): void {
+    database.transaction(() => {
+      for (const protocol of protocols) {
+        this.upsert(protocol.slug, protocol.name, protocol.tvl, protocol.chainTvls, protocol.id);
+      }
+    });
+
+    logger.debug(`Upserted ${protocols.length} protocols`);
+  }
+
+  // Latest TVL and token mapping of every stored protocol, keyed by slug, read
+  // in one query so a full DeFiLlama payload can be diffed cheaply
+  getSyncStates(): Map<string, ProtocolSyncState> {
+    const stmt = database.prepare(`
+      SELECT slug, last_tvl, last_tvl_by_chain, coingecko_id, token_symbol, token_address,
+        category, chains
+      FROM protocol_state
+    `);
+
+    const rows = stmt.all() as any[];
+
+    return new Map(
+      rows.map((row) => [
+        row.slug,
+        {
+          lastTvl: row.last_tvl,
+          lastTvlByChain: row.last_tvl_by_chain,
+          coingeckoId: row.coingecko_id ?? undefined,
+          tokenSymbol: row.token_symbol ?? undefined,
+          tokenAddress: row.token_address ?? undefined,
+          category: row.category ?? undefined,
+          chains: row.chains ? JSON.parse(row.chains) : undefined,
+        },
+      ])
+    );
+  }
+
+  // Store the token DeFiLlama lists for each protocol. Missing values don't
+  // clear a known mapping, since DeFiLlama occasionally drops them.
+  updateTokenMappings(mappings: ProtocolTokenMapping[]): void {
+    const stmt = database.prepare(`
+      UPDATE protocol_state SET
+        coingecko_id = COALESCE(?, coingecko_id),
+        token_symbol = COALESCE(?, token_symbol),
+        token_address = COALESCE(?, token_address)
+      WHERE slug = ?
+    `);
+
+    database.transaction(() => {
+      for (const mapping of mappings) {
+        stmt.run(
+          mapping.coingeckoId ?? null,
+          mapping.tokenSymbol ?? null,
+          mapping.tokenAddress ?? null,
+          mapping.slug
+        );
+      }
+    });
+
+    logger.debug(`Updated token mappings for ${mappings.length} protocols`);
+  }
+
+  // Add older snapshots, e.g. backfilled from DeFiLlama's history, in front of
+  // the stored 24h and 7d history. Snapshots within the stored span are
+  // skipped. Returns how many went into the 7d history.
+  mergeHistory(slug: string, snapshots: TVLSnapshot[]): number {
+    const existing = this.get(slug);
+
+    if (!existing) {
+      return 0;
+    }
+
+    let history24h: TVLSnapshot[] = [];
+    let history7d: TVLSnapshot[] = [];
+
+    try {
+      history24h = JSON.parse(existing.tvlHistory24h);
+      history7d = JSON.parse(existing.tvlHistory7d);
+    } catch {
+      // Invalid JSON, reset history
+    }
+
+    const now = Date.now();
+    const time = (s: TVLSnapshot) => new Date(s.timestamp).getTime();
+
+    const olderThan = (history: TVLSnapshot[], cutoff: number) => {
+      const earliest = history.length > 0 ? Math.min(...history.map(time)) : Infinity;
+      return snapshots.filter((s) => time(s) > cutoff && time(s) < earliest);
+    };
+
+    const added24h = olderThan(history24h, now - 24 * 60 * 60 * 1000);
+    const added7d = olderThan(history7d, now - 7 * 24 * 60 * 60 * 1000);
+
+    if (added7d.length === 0 && added24h.length === 0) {
+      return 0;
+    }
+
+    history24h = [...added24h, ...history24h].sort((a, b) => time(a) - time(b)).slice(-288);
+    history7d = [...added7d, ...history7d].sort((a, b) => time(a) - time(b)).slice(-2016);
+
+    const stmt = database.prepare(`
+      UPDATE protocol_state SET
+        tvl_history_24h = ?,
+        tvl_history_7d = ?,
+        updated_at = unixepoch()
+      WHERE slug = ?
+    `);
+
+    stmt.run(JSON.stringify(history24h), JSON.stringify(history7d), slug);
+
+    return added7d.length;
+  }
+
+  // Slugs of protocols at or above a TVL, largest first
+  getSlugs(minTvlUsd: number): string[] {
+    const stmt = database.prepare(`
+      SELECT slug FROM protocol_state WHERE last_tvl >= ? ORDER BY last_tvl DESC
+    `);
+
+    const rows = stmt.all(minTvlUsd) as Array<{ slug: string }>;
+    return rows.map((r) => r.slug);
+  }
+
+  // Replace the stored metadata snapshot of each protocol
+  updateMetadata(metadata: ProtocolMetadata[]): void {
+    const stmt = database.prepare(`
+      UPDATE protocol_state SET
+        category = ?,
+        chains = ?,
+        listed_at = COALESCE(?, listed_at)
+      WHERE slug = ?
+    `);
+
+    database.transaction(() => {
+      for (const entry of metadata) {
+        stmt.run(
+          entry.category ?? null,
+          JSON.stringify(entry.chains),
+          entry.listedAt?.getTime() ?? null,
+          entry.slug
+        );
+      }
+    });
+
+    logger.debug(`Updated metadata for ${metadata.length} protocols`);
+  }
+
+  // Move one part of a protocol's metadata snapshot on, once the change it
+  // stood for has been alerted on
+  updateChains(slug: string, chains: string[]): void {
+    const stmt = database.prepare(`UPDATE protocol_state SET chains = ? WHERE slug = ?`);
+    stmt.run(JSON.stringify(chains), slug);
+  }
+
+  updateCategory(slug: string, category: string | undefined): void {
+    const stmt = database.prepare(`UPDATE protocol_state SET category = ? WHERE slug = ?`);
+    stmt.run(category ?? null, slug);
+  }
+
+  // CoinGecko ids of protocol tokens, largest protocols first
+  getCoingeckoIds(minTvlUsd: number): string[] {
+    const stmt = database.prepare(`
+      SELECT coingecko_id, MAX(last_tvl) AS tvl FROM protocol_state
+      WHERE coingecko_id IS NOT NULL AND last_tvl >= ?
+      GROUP BY coingecko_id
+      ORDER BY tvl DESC
+    `);
+
+    const rows = stmt.all(minTvlUsd) as Array<{ coingecko_id: string }>;
+    return rows.map((r) => r.coingecko_id);
+  }
+
   // Calculate TVL change percentage
   calculateTvlChange(slug: string, hoursAgo: 24 | 48 | 168 = 24): {
     previousTvl: number;
@@ -223,6 +436,25 @@ export class ProtocolRepository {
     const row = stmt.get() as { count: number };
     return row.count;
   }
+
+  private mapRow(row: any): ProtocolState {
+    return {
+      slug: row.slug,
+      name: row.name,
+      defillamaId: row.defillama_id ?? undefined,
+      coingeckoId: row.coingecko_id ?? undefined,
+      tokenSymbol: row.token_symbol ?? undefined,
+      tokenAddress: row.token_address ?? undefined,
+      category: row.category ?? undefined,
+      chains: row.chains ? JSON.parse(row.chains) : undefined,
+      listedAt: row.listed_at ? new Date(row.listed_at) : undefined,
+      lastTvl: row.last_tvl,
+      lastTvlByChain: row.last_tvl_by_chain,
+      lastCheckedAt: new Date(row.last_checked_at),
+      tvlHistory24h: row.tvl_history_24h,
+      tvlHistory7d: row.tvl_history_7d,
+    };
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,80 @@
+import { database } from '../Database.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('RssEntryRepository');
+
+export interface RssEntryRef {
+  id: string;
+  feedUrl: string;
+  title: string;
+  link: string;
+  publishedAt?: Date;
+}
+
+export class RssEntryRepository {
+  // Check whether any entries have been stored for a feed
+  hasFeed(feedUrl: string): boolean {
+    const stmt = database.prepare(`
+      SELECT 1 FROM rss_entries WHERE feed_url = ? LIMIT 1
+    `);
+
+    return stmt.get(feedUrl) !== undefined;
+  }
+
+  // Entries not recorded yet, without recording them
+  getUnseen<T extends RssEntryRef>(entries: T[]): T[] {
+    const stmt = database.prepare(`
+      SELECT 1 FROM rss_entries WHERE id = ?
+    `);
+
+    return entries.filter((entry) => stmt.get(entry.id) === undefined);
+  }
+
+  // Record entries not seen before and return the ones that were new
+  insertNew<T extends RssEntryRef>(entries: T[]): T[] {
+    const stmt = database.prepare(`
+      INSERT INTO rss_entries (id, feed_url, title, link, published_at, first_seen_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO NOTHING
+    `);
+
+    const now = Date.now();
+    const inserted: T[] = [];
+
+    database.transaction(() => {
+      for (const entry of entries) {
+        const result = stmt.run(
+          entry.id,
+          entry.feedUrl,
+          entry.title,
+          entry.link,
+          entry.publishedAt?.getTime() ?? null,
+          now
+        );
+
+        if (result.changes > 0) {
+          inserted.push(entry);
+        }
+      }
+    });
+
+    if (inserted.length > 0) {
+      logger.debug(`Stored ${inserted.length} new entries`);
+    }
+
+    return inserted;
+  }
+
+  // Forget entries first seen before the given date
+  pruneSeenBefore(date: Date): number {
+    const stmt = database.prepare(`
+      DELETE FROM rss_entries WHERE first_seen_at < ?
+    `);
+
+    return stmt.run(date.getTime()).changes;
+  }
+}
+
+// Export singleton instance
+export const rssEntryRepository = new RssEntryRepository();
+export default rssEntryRepository;
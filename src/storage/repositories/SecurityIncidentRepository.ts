@@ -0,0 +1,157 @@
+import { database } from '../Database.js';
+import { createLogger } from '../../utils/logger.js';
+import type { SecurityIncident } from '../../core/types/protocols.js';
+import type { DefiLlamaHack } from '../../core/types/sources.js';
+
+const logger = createLogger('SecurityIncidentRepository');
+
+export class SecurityIncidentRepository {
+  // Get incident by id
+  get(id: string): SecurityIncident | null {
+    const stmt = database.prepare(`
+      SELECT * FROM security_incidents WHERE id = ?
+    `);
+
+    const row = stmt.get(id) as any;
+    return row ? this.mapRow(row) : null;
+  }
+
+  // Insert incidents not seen before. Existing incidents keep their first-seen
+  // time and announced flag, unless their amount was revised: one that wasn't
+  // alerted on then goes back to the analyzer, as DeFiLlama often fills in
+  // the loss after listing an incident.
+  // Incidents stored during the baseline load are marked as announced.
+  insertNew(
+    incidents: Array<DefiLlamaHack & { protocolSlug?: string }>,
+    isBaseline = false
+  ): number {
+    const stmt = database.prepare(`
+      INSERT INTO security_incidents (
+        id, name, incident_date, amount_usd, chains, classification, technique,
+        source_url, defillama_id, protocol_slug, first_seen_at, announced
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO NOTHING
+    `);
+
+    const reviseStmt = database.prepare(`
+      UPDATE security_incidents SET
+        amount_usd = ?,
+        announced = CASE WHEN alerted = 1 THEN announced ELSE 0 END
+      WHERE id = ? AND amount_usd IS NOT ?
+    `);
+
+    const now = Date.now();
+    let inserted = 0;
+    let revised = 0;
+
+    database.transaction(() => {
+      for (const incident of incidents) {
+        const result = stmt.run(
+          incident.id,
+          incident.name,
+          incident.date.getTime(),
+          incident.amount,
+          JSON.stringify(incident.chains),
+          incident.classification ?? null,
+          incident.technique ?? null,
+          incident.sourceUrl ?? null,
+          incident.defillamaId ?? null,
+          incident.protocolSlug ?? null,
+          now,
+          isBaseline ? 1 : 0
+        );
+
+        if (result.changes > 0) {
+          inserted++;
+        } else {
+          revised += reviseStmt.run(incident.amount, incident.id, incident.amount).changes;
+        }
+      }
+    });
+
+    if (inserted > 0) {
+      logger.debug(`Stored ${inserted} new incidents${isBaseline ? ' (baseline)' : ''}`);
+    }
+
+    if (revised > 0) {
+      logger.debug(`Updated the amount of ${revised} incidents`);
+    }
+
+    return inserted;
+  }
+
+  // Get incidents that have not been alerted on yet
+  getUnannounced(): SecurityIncident[] {
+    const stmt = database.prepare(`
+      SELECT * FROM security_incidents
+      WHERE announced = 0
+      ORDER BY incident_date DESC
+    `);
+
+    const rows = stmt.all() as any[];
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  // Mark incidents as handled without an alert, e.g. below the loss threshold
+  markAnnounced(ids: string[]): void {
+    const stmt = database.prepare(`
+      UPDATE security_incidents SET announced = 1 WHERE id = ?
+    `);
+
+    database.transaction(() => {
+      for (const id of ids) {
+        stmt.run(id);
+      }
+    });
+  }
+
+  // Mark incidents as alerted on, so later amount revisions don't alert again
+  markAlerted(ids: string[]): void {
+    const stmt = database.prepare(`
+      UPDATE security_incidents SET announced = 1, alerted = 1 WHERE id = ?
+    `);
+
+    database.transaction(() => {
+      for (const id of ids) {
+        stmt.run(id);
+      }
+    });
+  }
+
+  // Get total incident count
+  getCount(): number {
+    const stmt = database.prepare(`SELECT COUNT(*) as count FROM security_incidents`);
+    const row = stmt.get() as { count: number };
+    return row.count;
+  }
+
+  private mapRow(row: any): SecurityIncident {
+    let chains: string[] = [];
+    try {
+      chains = JSON.parse(row.chains);
+    } catch {
+      // Invalid JSON, leave empty
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      incidentDate: new Date(row.incident_date),
+      amountUsd: row.amount_usd,
+      chains,
+      classification: row.classification ?? undefined,
+      technique: row.technique ?? undefined,
+      sourceUrl: row.source_url ?? undefined,
+      defillamaId: row.defillama_id ?? undefined,
+      protocolSlug: row.protocol_slug ?? undefined,
+      firstSeenAt: new Date(row.first_seen_at),
+      announced: row.announced === 1,
+      alerted: row.alerted === 1,
+    };
+  }
+}
+
+// Export singleton instance
+export const securityIncidentRepository = new SecurityIncidentRepository();
+export default securityIncidentRepository;
@@ -0,0 +1,170 @@
+import { database } from '../Database.js';
+import { createLogger } from '../../utils/logger.js';
+import type { StablecoinState, SupplySnapshot } from '../../core/types/protocols.js';
+import type { DefiLlamaStablecoin } from '../../core/types/sources.js';
+
+const logger = createLogger('StablecoinRepository');
+
+export interface SupplyChange {
+  previousSupply: number;
+  currentSupply: number;
+  changeAbsolute: number;
+  changePercent: number;
+  chainChanges: Record<string, number>;
+}
+
+export class StablecoinRepository {
+  // Get stablecoin state by DeFiLlama id
+  get(id: string): StablecoinState | null {
+    const stmt = database.prepare(`
+      SELECT * FROM stablecoin_state WHERE id = ?
+    `);
+
+    const row = stmt.get(id) as any;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      symbol: row.symbol,
+      pegType: row.peg_type,
+      lastPrice: row.last_price,
+      lastCirculating: row.last_circulating,
+      lastCirculatingByChain: row.last_circulating_by_chain,
+      lastCheckedAt: new Date(row.last_checked_at),
+      supplyHistory24h: row.supply_history_24h,
+    };
+  }
+
+  // Save or update a batch of stablecoins in a single transaction
+  upsertMany(stablecoins: DefiLlamaStablecoin[]): void {
+    database.transaction(() => {
+      for (const stablecoin of stablecoins) {
+        this.upsert(stablecoin);
+      }
+    });
+
+    logger.debug(`Upserted ${stablecoins.length} stablecoins`);
+  }
+
+  // Save or update stablecoin state
+  upsert(stablecoin: DefiLlamaStablecoin): void {
+    const existing = this.get(stablecoin.id);
+    const now = Date.now();
+
+    let history: SupplySnapshot[] = [];
+
+    if (existing) {
+      try {
+        history = JSON.parse(existing.supplyHistory24h);
+      } catch {
+        // Invalid JSON, reset history
+      }
+    }
+
+    history.push({
+      timestamp: new Date(now),
+      circulating: stablecoin.circulating,
+      circulatingByChain: stablecoin.circulatingByChain,
+    });
+
+    // Prune snapshots older than 24h
+    const cutoff = now - 24 * 60 * 60 * 1000;
+    history = history.filter((s) => new Date(s.timestamp).getTime() > cutoff);
+
+    if (history.length > 288) {
+      history = history.slice(-288); // ~5 min intervals for 24h
+    }
+
+    const stmt = database.prepare(`
+      INSERT INTO stablecoin_state (
+        id, name, symbol, peg_type, last_price, last_circulating,
+        last_circulating_by_chain, last_checked_at, supply_history_24h
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        symbol = excluded.symbol,
+        peg_type = excluded.peg_type,
+        last_price = excluded.last_price,
+        last_circulating = excluded.last_circulating,
+        last_circulating_by_chain = excluded.last_circulating_by_chain,
+        last_checked_at = excluded.last_checked_at,
+        supply_history_24h = excluded.supply_history_24h,
+        updated_at = unixepoch()
+    `);
+
+    stmt.run(
+      stablecoin.id,
+      stablecoin.name,
+      stablecoin.symbol,
+      stablecoin.pegType,
+      stablecoin.price,
+      stablecoin.circulating,
+      JSON.stringify(stablecoin.circulatingByChain),
+      now,
+      JSON.stringify(history)
+    );
+  }
+
+  // Calculate total and per-chain supply change over the stored 24h window
+  calculateSupplyChange(id: string): SupplyChange | null {
+    const state = this.get(id);
+
+    if (!state) {
+      return null;
+    }
+
+    let history: SupplySnapshot[] = [];
+    let currentByChain: Record<string, number> = {};
+    try {
+      history = JSON.parse(state.supplyHistory24h);
+      currentByChain = JSON.parse(state.lastCirculatingByChain);
+    } catch {
+      return null;
+    }
+
+    const oldSnapshot = history[0];
+
+    if (history.length < 2 || !oldSnapshot || oldSnapshot.circulating === 0) {
+      return null;
+    }
+
+    const currentSupply = state.lastCirculating;
+    const previousSupply = oldSnapshot.circulating;
+    const changeAbsolute = currentSupply - previousSupply;
+
+    const chainChanges: Record<string, number> = {};
+    const chains = new Set([
+      ...Object.keys(currentByChain),
+      ...Object.keys(oldSnapshot.circulatingByChain),
+    ]);
+
+    for (const chain of chains) {
+      chainChanges[chain] =
+        (currentByChain[chain] ?? 0) - (oldSnapshot.circulatingByChain[chain] ?? 0);
+    }
+
+    return {
+      previousSupply,
+      currentSupply,
+      changeAbsolute,
+      changePercent: (changeAbsolute / previousSupply) * 100,
+      chainChanges,
+    };
+  }
+
+  // Get total stablecoin count
+  getCount(): number {
+    const stmt = database.prepare(`SELECT COUNT(*) as count FROM stablecoin_state`);
+    const row = stmt.get() as { count: number };
+    return row.count;
+  }
+}
+
+// Export singleton instance
+export const stablecoinRepository = new StablecoinRepository();
+export default stablecoinRepository;
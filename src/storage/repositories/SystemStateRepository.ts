@@ -0,0 +1,39 @@
+import { database } from '../Database.js';
+
+export class SystemStateRepository {
+  // Get a stored value by key
+  get(key: string): string | null {
+    const stmt = database.prepare(`
+      SELECT value FROM system_state WHERE key = ?
+    `);
+
+    const row = stmt.get(key) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  // Save or update a value
+  set(key: string, value: string): void {
+    const stmt = database.prepare(`
+      INSERT INTO system_state (key, value, updated_at)
+      VALUES (?, ?, unixepoch())
+      ON CONFLICT(key) DO UPDATE SET
+        value = excluded.value,
+        updated_at = excluded.updated_at
+    `);
+
+    stmt.run(key, value);
+  }
+
+  // Remove a value
+  delete(key: string): void {
+    const stmt = database.prepare(`
+      DELETE FROM system_state WHERE key = ?
+    `);
+
+    stmt.run(key);
+  }
+}
+
+// Export singleton instance
+export const systemStateRepository = new SystemStateRepository();
+export default systemStateRepository;
@@ -0,0 +1,185 @@
+import { database } from '../Database.js';
+import type { MarketSnapshot, TokenPriceRecord } from '../../core/types/protocols.js';
+import type { CoinGeckoToken } from '../../core/types/sources.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export class TokenPriceRepository {
+  // Get latest stored price by CoinGecko id
+  get(coingeckoId: string): TokenPriceRecord | null {
+    const stmt = database.prepare(`
+      SELECT * FROM token_prices WHERE coingecko_id = ?
+    `);
+
+    const row = stmt.get(coingeckoId) as any;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      coingeckoId: row.coingecko_id,
+      symbol: row.symbol,
+      name: row.name,
+      currentPrice: row.current_price,
+      priceChange24h: row.price_change_24h,
+      marketCap: row.market_cap,
+      priceChange1h: row.price_change_1h,
+      totalVolume: row.total_volume,
+      marketCapRank: row.market_cap_rank,
+      marketHistory7d: row.market_history_7d,
+      lastAlerts: row.last_alerts,
+      lastUpdatedAt: new Date(row.last_updated_at),
+    };
+  }
+
+  // Save or update the latest price for a token. Market snapshots are kept
+  // hourly for 7 days as the baseline for volume and rank changes.
+  upsert(token: CoinGeckoToken): void {
+    const existing = this.get(token.id);
+    const now = Date.now();
+
+    let history = existing ? this.parseHistory(existing.marketHistory7d) : [];
+
+    const last = history[history.length - 1];
+    if (!last || now - new Date(last.timestamp).getTime() >= HOUR_MS) {
+      history.push({
+        timestamp: new Date(now),
+        price: token.current_price,
+        volume: token.total_volume,
+        rank: token.market_cap_rank,
+      });
+    }
+
+    // Prune snapshots older than 7d
+    const cutoff = now - 7 * DAY_MS;
+    history = history.filter((s) => new Date(s.timestamp).getTime() > cutoff);
+
+    const stmt = database.prepare(`
+      INSERT INTO token_prices (
+        coingecko_id, symbol, name, current_price, price_change_24h, market_cap,
+        price_change_1h, total_volume, market_cap_rank, market_history_7d, last_updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(coingecko_id) DO UPDATE SET
+        symbol = excluded.symbol,
+        name = excluded.name,
+        current_price = excluded.current_price,
+        price_change_24h = excluded.price_change_24h,
+        market_cap = excluded.market_cap,
+        price_change_1h = excluded.price_change_1h,
+        total_volume = excluded.total_volume,
+        market_cap_rank = excluded.market_cap_rank,
+        market_history_7d = excluded.market_history_7d,
+        last_updated_at = excluded.last_updated_at
+    `);
+
+    stmt.run(
+      token.id,
+      token.symbol,
+      token.name,
+      token.current_price,
+      token.price_change_percentage_24h,
+      token.market_cap,
+      token.price_change_percentage_1h ?? null,
+      token.total_volume,
+      token.market_cap_rank,
+      JSON.stringify(history),
+      now
+    );
+  }
+
+  // Average 24h volume over the snapshots older than a day. Needs at least a
+  // day of baseline so a fresh install doesn't flag normal volume as a spike.
+  calculateVolumeBaseline(coingeckoId: string): { baselineVolume: number; samples: number } | null {
+    const state = this.get(coingeckoId);
+
+    if (!state) {
+      return null;
+    }
+
+    const cutoff = Date.now() - DAY_MS;
+    const baseline = this.parseHistory(state.marketHistory7d).filter(
+      (s) => new Date(s.timestamp).getTime() <= cutoff && s.volume > 0
+    );
+
+    if (baseline.length < 24) {
+      return null;
+    }
+
+    const total = baseline.reduce((sum, s) => sum + s.volume, 0);
+    return { baselineVolume: total / baseline.length, samples: baseline.length };
+  }
+
+  // Market cap rank now versus the latest snapshot at least 24h old
+  calculateRankChange(coingeckoId: string): { previousRank: number; currentRank: number } | null {
+    const state = this.get(coingeckoId);
+
+    if (!state || state.marketCapRank === null) {
+      return null;
+    }
+
+    const cutoff = Date.now() - DAY_MS;
+    const older = this.parseHistory(state.marketHistory7d).filter(
+      (s) => new Date(s.timestamp).getTime() <= cutoff && s.rank !== null
+    );
+    const previous = older[older.length - 1];
+
+    if (!previous || previous.rank === null) {
+      return null;
+    }
+
+    return { previousRank: previous.rank, currentRank: state.marketCapRank };
+  }
+
+  // Time an alert of the given kind was last raised for a token
+  getLastAlertedAt(coingeckoId: string, kind: string): number | null {
+    const state = this.get(coingeckoId);
+
+    if (!state) {
+      return null;
+    }
+
+    return this.parseAlerts(state.lastAlerts)[kind] ?? null;
+  }
+
+  // Record that an alert of the given kind was raised for a token
+  markAlerted(coingeckoId: string, kind: string): void {
+    const state = this.get(coingeckoId);
+
+    if (!state) {
+      return;
+    }
+
+    const alerts = this.parseAlerts(state.lastAlerts);
+    alerts[kind] = Date.now();
+
+    const stmt = database.prepare(`
+      UPDATE token_prices SET last_alerts = ? WHERE coingecko_id = ?
+    `);
+
+    stmt.run(JSON.stringify(alerts), coingeckoId);
+  }
+
+  private parseHistory(json: string): MarketSnapshot[] {
+    try {
+      return JSON.parse(json);
+    } catch {
+      // Invalid JSON, reset history
+      return [];
+    }
+  }
+
+  private parseAlerts(json: string): Record<string, number> {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return {};
+    }
+  }
+}
+
+// Export singleton instance
+export const tokenPriceRepository = new TokenPriceRepository();
+export default tokenPriceRepository;
@@ -0,0 +1,123 @@
+import { database } from '../Database.js';
+import { createLogger } from '../../utils/logger.js';
+import type { TokenUnlockRecord } from '../../core/types/protocols.js';
+import type { TokenUnlock } from '../../core/types/sources.js';
+
+const logger = createLogger('TokenUnlockRepository');
+
+export class TokenUnlockRepository {
+  // Save or update a batch of unlocks in a single transaction.
+  // The alerted flag is preserved across updates.
+  upsertMany(unlocks: TokenUnlock[]): void {
+    const stmt = database.prepare(`
+      INSERT INTO token_unlocks (
+        id, protocol_name, coingecko_id, symbol, unlock_date, amount, category,
+        unlock_type, description, circulating_supply, max_supply, total_locked
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        protocol_name = excluded.protocol_name,
+        coingecko_id = excluded.coingecko_id,
+        symbol = excluded.symbol,
+        amount = excluded.amount,
+        category = excluded.category,
+        unlock_type = excluded.unlock_type,
+        description = excluded.description,
+        circulating_supply = excluded.circulating_supply,
+        max_supply = excluded.max_supply,
+        total_locked = excluded.total_locked,
+        updated_at = unixepoch()
+    `);
+
+    database.transaction(() => {
+      for (const unlock of unlocks) {
+        stmt.run(
+          unlock.id,
+          unlock.protocolName,
+          unlock.coingeckoId ?? null,
+          unlock.symbol ?? null,
+          unlock.unlockDate.getTime(),
+          unlock.amount,
+          unlock.category ?? null,
+          unlock.unlockType ?? null,
+          unlock.description ?? null,
+          unlock.circulatingSupply ?? null,
+          unlock.maxSupply ?? null,
+          unlock.totalLocked ?? null
+        );
+      }
+    });
+
+    logger.debug(`Upserted ${unlocks.length} unlocks`);
+  }
+
+  // Get unlocks due within the given window that have not been alerted on
+  getUpcoming(withinDays: number): TokenUnlockRecord[] {
+    const now = Date.now();
+    const stmt = database.prepare(`
+      SELECT * FROM token_unlocks
+      WHERE alerted = 0 AND unlock_date > ? AND unlock_date <= ?
+      ORDER BY unlock_date ASC
+    `);
+
+    const rows = stmt.all(now, now + withinDays * 24 * 60 * 60 * 1000) as any[];
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  // Get the next unlock for a token after the given date
+  getNextUnlock(coingeckoId: string, after: Date): TokenUnlockRecord | null {
+    const stmt = database.prepare(`
+      SELECT * FROM token_unlocks
+      WHERE coingecko_id = ? AND unlock_date > ?
+      ORDER BY unlock_date ASC
+      LIMIT 1
+    `);
+
+    const row = stmt.get(coingeckoId, after.getTime()) as any;
+    return row ? this.mapRow(row) : null;
+  }
+
+  // Mark unlocks as alerted so they only fire once
+  markAlerted(ids: string[]): void {
+    const stmt = database.prepare(`
+      UPDATE token_unlocks SET alerted = 1, updated_at = unixepoch() WHERE id = ?
+    `);
+
+    database.transaction(() => {
+      for (const id of ids) {
+        stmt.run(id);
+      }
+    });
+  }
+
+  // Remove unlocks that are already in the past
+  pruneBefore(date: Date): number {
+    const stmt = database.prepare(`
+      DELETE FROM token_unlocks WHERE unlock_date < ?
+    `);
+
+    return stmt.run(date.getTime()).changes;
+  }
+
+  private mapRow(row: any): TokenUnlockRecord {
+    return {
+      id: row.id,
+      protocolName: row.protocol_name,
+      coingeckoId: row.coingecko_id ?? undefined,
+      symbol: row.symbol ?? undefined,
+      unlockDate: new Date(row.unlock_date),
+      amount: row.amount,
+      category: row.category ?? undefined,
+      unlockType: row.unlock_type ?? undefined,
+      description: row.description ?? undefined,
+      circulatingSupply: row.circulating_supply ?? undefined,
+      maxSupply: row.max_supply ?? undefined,
+      totalLocked: row.total_locked ?? undefined,
+      alerted: row.alerted === 1,
+    };
+  }
+}
+
+// Export singleton instance
+export const tokenUnlockRepository = new TokenUnlockRepository();
+export default tokenUnlockRepository;
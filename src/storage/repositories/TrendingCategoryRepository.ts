@@ -0,0 +1,58 @@
+import { database } from '../Database.js';
+import type { CoinGeckoTrendingCategory } from '../../core/types/sources.js';
+
+export class TrendingCategoryRepository {
+  // Check whether the trending list has been stored yet
+  hasCategories(): boolean {
+    const stmt = database.prepare(`
+      SELECT 1 FROM trending_categories LIMIT 1
+    `);
+
+    return stmt.get() !== undefined;
+  }
+
+  // Replace the trending set and return the categories that just entered it
+  update(categories: CoinGeckoTrendingCategory[]): CoinGeckoTrendingCategory[] {
+    const selectStmt = database.prepare(`
+      SELECT is_trending FROM trending_categories WHERE id = ?
+    `);
+    const resetStmt = database.prepare(`
+      UPDATE trending_categories SET is_trending = 0
+    `);
+    const upsertStmt = database.prepare(`
+      INSERT INTO trending_categories (id, name, is_trending, first_trending_at, last_trending_at)
+      VALUES (?, ?, 1, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        is_trending = 1,
+        last_trending_at = excluded.last_trending_at
+    `);
+
+    const now = Date.now();
+    const entered: CoinGeckoTrendingCategory[] = [];
+
+    database.transaction(() => {
+      const wasTrending = new Set(
+        categories
+          .filter((c) => (selectStmt.get(c.id) as { is_trending: number } | undefined)?.is_trending === 1)
+          .map((c) => c.id)
+      );
+
+      resetStmt.run();
+
+      for (const category of categories) {
+        upsertStmt.run(category.id, category.name, now, now);
+
+        if (!wasTrending.has(category.id)) {
+          entered.push(category);
+        }
+      }
+    });
+
+    return entered;
+  }
+}
+
+// Export singleton instance
+export const trendingCategoryRepository = new TrendingCategoryRepository();
+export default trendingCategoryRepository;
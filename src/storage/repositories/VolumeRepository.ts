@@ -0,0 +1,128 @@
+import { database } from '../Database.js';
+import { createLogger } from '../../utils/logger.js';
+import type { DailyVolumeSnapshot, VolumeState } from '../../core/types/protocols.js';
+import type { DefiLlamaVolume } from '../../core/types/sources.js';
+
+const logger = createLogger('VolumeRepository');
+
+const HISTORY_DAYS = 30;
+
+export class VolumeRepository {
+  // Get volume state by key
+  get(key: string): VolumeState | null {
+    const stmt = database.prepare(`
+      SELECT * FROM volume_state WHERE key = ?
+    `);
+
+    const row = stmt.get(key) as any;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      key: row.key,
+      market: row.market,
+      scope: row.scope,
+      name: row.name,
+      lastVolume24h: row.last_volume_24h,
+      dailyHistory: row.daily_history,
+      lastCheckedAt: new Date(row.last_checked_at),
+    };
+  }
+
+  // Save or update a batch of volumes in a single transaction
+  upsertMany(volumes: DefiLlamaVolume[]): void {
+    database.transaction(() => {
+      for (const volume of volumes) {
+        this.upsert(volume);
+      }
+    });
+
+    logger.debug(`Upserted ${volumes.length} volumes`);
+  }
+
+  // Save or update a protocol's or chain's volume. The day's history entry is
+  // replaced on every poll, so it ends up holding the last figure seen that day.
+  upsert(volume: DefiLlamaVolume): void {
+    const existing = this.get(volume.key);
+    const now = new Date();
+    const today = now.toISOString().slice(0, 10);
+
+    let history = existing ? this.parseHistory(existing.dailyHistory) : [];
+
+    history = history.filter((s) => s.date !== today);
+    history.push({ date: today, volume: volume.volume24h });
+
+    // Keep the last 30 days
+    history = history.slice(-HISTORY_DAYS);
+
+    const stmt = database.prepare(`
+      INSERT INTO volume_state (key, market, scope, name, last_volume_24h, daily_history, last_checked_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET
+        name = excluded.name,
+        last_volume_24h = excluded.last_volume_24h,
+        daily_history = excluded.daily_history,
+        last_checked_at = excluded.last_checked_at,
+        updated_at = unixepoch()
+    `);
+
+    stmt.run(
+      volume.key,
+      volume.market,
+      volume.scope,
+      volume.name,
+      volume.volume24h,
+      JSON.stringify(history),
+      now.getTime()
+    );
+  }
+
+  // Average daily volume over the `days` days before today; null when fewer
+  // than minDays of history exist
+  calculateBaseline(
+    key: string,
+    days: number,
+    minDays: number
+  ): { average: number; days: number } | null {
+    const state = this.get(key);
+
+    if (!state) {
+      return null;
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const window = this.parseHistory(state.dailyHistory)
+      .filter((s) => s.date !== today)
+      .slice(-days);
+
+    if (window.length < minDays) {
+      return null;
+    }
+
+    const total = window.reduce((sum, s) => sum + s.volume, 0);
+
+    return { average: total / window.length, days: window.length };
+  }
+
+  // Get tracked protocol and chain count
+  getCount(): number {
+    const stmt = database.prepare(`SELECT COUNT(*) as count FROM volume_state`);
+    const row = stmt.get() as { count: number };
+    return row.count;
+  }
+
+  private parseHistory(json: string): DailyVolumeSnapshot[] {
+    try {
+      return JSON.parse(json);
+    } catch {
+      // Invalid JSON, reset history
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const volumeRepository = new VolumeRepository();
+export default volumeRepository;
@@ -0,0 +1,204 @@
+import { database } from '../Database.js';
+import { createLogger } from '../../utils/logger.js';
+import type { ApySnapshot, YieldPoolState } from '../../core/types/protocols.js';
+import type { DefiLlamaPool } from '../../core/types/sources.js';
+
+const logger = createLogger('YieldRepository');
+
+export class YieldRepository {
+  // Get pool state by DeFiLlama pool id
+  get(poolId: string): YieldPoolState | null {
+    const stmt = database.prepare(`
+      SELECT * FROM yield_pool_state WHERE pool_id = ?
+    `);
+
+    const row = stmt.get(poolId) as any;
+
+    if (!row) {
+      return null;
+    }
+
+    return this.mapRow(row);
+  }
+
+  // Save or update a batch of pools in a single transaction.
+  // Pools stored during the baseline load are marked as announced so a
+  // fresh install does not alert on every pool it has never seen.
+  upsertMany(pools: DefiLlamaPool[], isBaseline = false): void {
+    database.transaction(() => {
+      for (const pool of pools) {
+        this.upsert(pool, isBaseline);
+      }
+    });
+
+    logger.debug(`Upserted ${pools.length} pools${isBaseline ? ' (baseline)' : ''}`);
+  }
+
+  // Save or update a single pool state
+  upsert(pool: DefiLlamaPool, isBaseline = false): void {
+    const existing = this.get(pool.pool);
+    const now = Date.now();
+
+    let history: ApySnapshot[] = [];
+
+    if (existing) {
+      try {
+        history = JSON.parse(existing.apyHistory24h);
+      } catch {
+        // Invalid JSON, reset history
+      }
+    }
+
+    history.push({
+      timestamp: new Date(now),
+      apyReward: pool.apyReward ?? 0,
+      tvlUsd: pool.tvlUsd,
+    });
+
+    // Prune snapshots older than 24h
+    const cutoff = now - 24 * 60 * 60 * 1000;
+    history = history.filter((s) => new Date(s.timestamp).getTime() > cutoff);
+
+    if (history.length > 288) {
+      history = history.slice(-288);
+    }
+
+    const stmt = database.prepare(`
+      INSERT INTO yield_pool_state (
+        pool_id, project, chain, symbol, last_tvl_usd, last_apy_base, last_apy_reward,
+        reward_tokens, apy_history_24h, first_seen_at, last_checked_at, announced
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(pool_id) DO UPDATE SET
+        project = excluded.project,
+        chain = excluded.chain,
+        symbol = excluded.symbol,
+        last_tvl_usd = excluded.last_tvl_usd,
+        last_apy_base = excluded.last_apy_base,
+        last_apy_reward = excluded.last_apy_reward,
+        reward_tokens = excluded.reward_tokens,
+        apy_history_24h = excluded.apy_history_24h,
+        last_checked_at = excluded.last_checked_at,
+        updated_at = unixepoch()
+    `);
+
+    stmt.run(
+      pool.pool,
+      pool.project,
+      pool.chain,
+      pool.symbol,
+      pool.tvlUsd,
+      pool.apyBase,
+      pool.apyReward,
+      JSON.stringify(pool.rewardTokens),
+      JSON.stringify(history),
+      now,
+      now,
+      isBaseline ? 1 : 0
+    );
+  }
+
+  // Calculate reward APY change over the stored 24h window
+  calculateRewardApyChange(poolId: string): {
+    previousApyReward: number;
+    currentApyReward: number;
+    changePercent: number;
+  } | null {
+    const state = this.get(poolId);
+
+    if (!state) {
+      return null;
+    }
+
+    let history: ApySnapshot[] = [];
+    try {
+      history = JSON.parse(state.apyHistory24h);
+    } catch {
+      return null;
+    }
+
+    const oldSnapshot = history[0];
+
+    if (history.length < 2 || !oldSnapshot) {
+      return null;
+    }
+
+    const currentApyReward = state.lastApyReward ?? 0;
+    const previousApyReward = oldSnapshot.apyReward;
+
+    // Rewards switched on from zero count as an unbounded jump
+    const changePercent =
+      previousApyReward === 0
+        ? currentApyReward > 0
+          ? Infinity
+          : 0
+        : ((currentApyReward - previousApyReward) / previousApyReward) * 100;
+
+    return {
+      previousApyReward,
+      currentApyReward,
+      changePercent,
+    };
+  }
+
+  // Get recently discovered pools that have not been alerted on yet
+  getUnannouncedPools(
+    minTvlUsd: number,
+    minApyReward: number,
+    seenWithinMs = 24 * 60 * 60 * 1000
+  ): YieldPoolState[] {
+    const stmt = database.prepare(`
+      SELECT * FROM yield_pool_state
+      WHERE announced = 0
+        AND first_seen_at > ?
+        AND last_tvl_usd >= ?
+        AND COALESCE(last_apy_reward, 0) >= ?
+      ORDER BY last_tvl_usd DESC
+    `);
+
+    const rows = stmt.all(Date.now() - seenWithinMs, minTvlUsd, minApyReward) as any[];
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  // Mark pools as announced so they only alert once
+  markAnnounced(poolIds: string[]): void {
+    const stmt = database.prepare(`
+      UPDATE yield_pool_state SET announced = 1, updated_at = unixepoch()
+      WHERE pool_id = ?
+    `);
+
+    database.transaction(() => {
+      for (const poolId of poolIds) {
+        stmt.run(poolId);
+      }
+    });
+  }
+
+  // Get total pool count
+  getCount(): number {
+    const stmt = database.prepare(`SELECT COUNT(*) as count FROM yield_pool_state`);
+    const row = stmt.get() as { count: number };
+    return row.count;
+  }
+
+  private mapRow(row: any): YieldPoolState {
+    return {
+      poolId: row.pool_id,
+      project: row.project,
+      chain: row.chain,
+      symbol: row.symbol,
+      lastTvlUsd: row.last_tvl_usd,
+      lastApyBase: row.last_apy_base,
+      lastApyReward: row.last_apy_reward,
+      rewardTokens: row.reward_tokens,
+      apyHistory24h: row.apy_history_24h,
+      firstSeenAt: new Date(row.first_seen_at),
+      lastCheckedAt: new Date(row.last_checked_at),
+      announced: row.announced === 1,
+    };
+  }
+}
+
+// Export singleton instance
+export const yieldRepository = new YieldRepository();
+export default yieldRepository;
@@ -1,3 +1,15 @@
 export { alertRepository, AlertRepository } from './AlertRepository.js';
 export { settingsRepository, SettingsRepository } from './SettingsRepository.js';
 export { protocolRepository, ProtocolRepository } from './ProtocolRepository.js';
+export { yieldRepository, YieldRepository } from './YieldRepository.js';
+export { chainRepository, ChainRepository } from './ChainRepository.js';
+export { stablecoinRepository, StablecoinRepository } from './StablecoinRepository.js';
+export { feesRepository, FeesRepository } from './FeesRepository.js';
+export { volumeRepository, VolumeRepository } from './VolumeRepository.js';
+export { securityIncidentRepository, SecurityIncidentRepository } from './SecurityIncidentRepository.js';
+export { contractEventRepository, ContractEventRepository } from './ContractEventRepository.js';
+export { tokenPriceRepository, TokenPriceRepository } from './TokenPriceRepository.js';
+export { tokenUnlockRepository, TokenUnlockRepository } from './TokenUnlockRepository.js';
+export { governanceRepository, GovernanceRepository } from './GovernanceRepository.js';
+export { rssEntryRepository, RssEntryRepository } from './RssEntryRepository.js';
+export { systemStateRepository, SystemStateRepository } from './SystemStateRepository.js';
@@ -140,24 +140,173 @@ export class TelegramBot {
     const emoji = this.getCategoryEmoji(alert.category);
     const priorityIndicator = this.getPriorityIndicator(alert.priority);
 
-    let message = `${emoji} *${alert.title}*${priorityIndicator}\n\n`;
-    message += `${alert.summary}\n`;
+    let message = `${emoji} *${this.escapeMarkdown(alert.title)}*${priorityIndicator}\n\n`;
+    message += `${this.escapeMarkdown(alert.summary)}\n`;
+
+    if (alert.details.quotedContent) {
+      const quoted = alert.details.quotedContent;
+      const label = quoted.relation === 'QUOTE' ? 'Quoting' : 'Replying to';
+      const text = quoted.text.length > 280 ? `${quoted.text.substring(0, 280)}…` : quoted.text;
+      // Legacy Markdown has no blockquote; indent the quoted text instead
+      message += `\n↪️ *${label}*${quoted.author ? ` @${this.escapeMarkdown(quoted.author)}` : ''}:\n`;
+      message += `${text.split('\n').map((line) => `    ${this.escapeMarkdown(line)}`).join('\n')}\n`;
+    }
 
     // Add details based on category
     if (alert.details.tvlChange) {
       const tvl = alert.details.tvlChange;
       const changeSign = tvl.changePercent >= 0 ? '+' : '';
       message += `\n📊 *TVL Change:* ${changeSign}${tvl.changePercent.toFixed(1)}%\n`;
+      if (tvl.chain !== 'All') {
+        message += `• Chain: ${this.escapeMarkdown(tvl.chain)}\n`;
+      }
       message += `• Previous: $${this.formatNumber(tvl.previousTVL)}\n`;
       message += `• Current: $${this.formatNumber(tvl.currentTVL)}\n`;
     }
 
+    if (alert.details.yieldIncentive) {
+      const pool = alert.details.yieldIncentive;
+      message += `\n🌾 *Pool:* ${this.escapeMarkdown(pool.symbol)} (${this.escapeMarkdown(pool.chain)})\n`;
+      if (pool.previousApyReward !== undefined) {
+        message += `• Reward APY: ${pool.previousApyReward.toFixed(1)}% → ${pool.apyReward.toFixed(1)}%\n`;
+      } else {
+        message += `• Reward APY: ${pool.apyReward.toFixed(1)}%\n`;
+      }
+      if (pool.apyBase !== undefined) {
+        message += `• Base APY: ${pool.apyBase.toFixed(1)}%\n`;
+      }
+      message += `• TVL: $${this.formatNumber(pool.tvlUsd)}\n`;
+    }
+
+    if (alert.details.stablecoin) {
+      const stable = alert.details.stablecoin;
+      if (stable.price !== undefined && stable.deviationBps !== undefined) {
+        message += `\n💵 *Price:* $${stable.price.toFixed(4)} (${stable.deviationBps} bps)\n`;
+      }
+      if (stable.previousSupply !== undefined && stable.currentSupply !== undefined) {
+        message += `\n💵 *Supply:* $${this.formatNumber(stable.previousSupply)} → $${this.formatNumber(stable.currentSupply)}\n`;
+      }
+      if (stable.fromChain && stable.toChain) {
+        message += `\n🔀 *Route:* ${this.escapeMarkdown(stable.fromChain)} → ${this.escapeMarkdown(stable.toChain)}\n`;
+      }
+    }
+
+    if (alert.details.fees) {
+      const fees = alert.details.fees;
+      message += `\n💰 *Fees 24h:* $${this.formatNumber(fees.fees24h)}\n`;
+      if (fees.revenue24h !== undefined) {
+        message += `💵 *Revenue 24h:* $${this.formatNumber(fees.revenue24h)}`;
+        message +=
+          fees.trailingRevenue !== undefined
+            ? ` (${fees.trailingDays}d avg $${this.formatNumber(fees.trailingRevenue)})\n`
+            : '\n';
+      }
+      if (fees.feesRank !== undefined) {
+        message += `🏆 *Rank:* #${fees.feesRank} by fees\n`;
+      }
+    }
+
+    if (alert.details.volume) {
+      const volume = alert.details.volume;
+      message += `\n🌊 *Volume 24h:* $${this.formatNumber(volume.volume24h)} (${volume.multiple.toFixed(1)}x)\n`;
+      message += `📊 *${volume.baselineDays}d avg:* $${this.formatNumber(volume.baselineVolume)}\n`;
+    }
+
+    if (alert.details.bridgeFlow) {
+      const bridge = alert.details.bridgeFlow;
+      const sign = bridge.netFlowUsd >= 0 ? '+' : '-';
+      message += `\n🌉 *Net flow (${bridge.windowHours === 24 ? '24h' : '7d'}):* ${sign}$${this.formatNumber(Math.abs(bridge.netFlowUsd))}\n`;
+      message += `📥 *In:* $${this.formatNumber(bridge.withdrawUsd)} 📤 *Out:* $${this.formatNumber(bridge.depositUsd)}\n`;
+      if (bridge.bridges.length > 0) {
+        message += `🛤 *Bridges:* ${this.escapeMarkdown(bridge.bridges.join(', '))}\n`;
+      }
+    }
+
+    if (alert.details.tokenEvent) {
+      const token = alert.details.tokenEvent;
+      if (token.eventType === 'LAUNCH' && token.chain) {
+        message += `\n⛓ *Chain:* ${this.escapeMarkdown(token.chain)}\n`;
+        if (token.tokenAddress) {
+          message += `📜 *Contract:* \`${token.tokenAddress}\`\n`;
+        }
+      }
+      if (token.amount !== undefined) {
+        message += `\n🪙 *Amount:* ${this.formatNumber(token.amount)} ${this.escapeMarkdown(token.tokenSymbol)}\n`;
+      }
+      if (token.usdValue !== undefined) {
+        message += `💰 *Value:* $${this.formatNumber(token.usdValue)}\n`;
+      }
+      if (token.unlockDate) {
+        message += `📅 *Date:* ${token.unlockDate.toISOString().slice(0, 10)}\n`;
+      }
+      if (token.vestingSchedule?.nextUnlockDate) {
+        message += `⏭ *Next unlock:* ${token.vestingSchedule.nextUnlockDate.toISOString().slice(0, 10)}\n`;
+      }
+    }
+
+    if (alert.details.market) {
+      const market = alert.details.market;
+      if (market.changePercent !== undefined && market.timeframeHours !== undefined) {
+        const changeSign = market.changePercent >= 0 ? '+' : '';
+        message += `\n💹 *${market.timeframeHours}h Change:* ${changeSign}${market.changePercent.toFixed(1)}%\n`;
+      }
+      if (market.volume24h !== undefined && market.baselineVolume !== undefined) {
+        message += `📊 *Volume:* $${this.formatNumber(market.volume24h)} vs. $${this.formatNumber(market.baselineVolume)} avg`;
+        message += market.volumeMultiple !== undefined ? ` (${market.volumeMultiple.toFixed(1)}x)\n` : '\n';
+      }
+      if (market.previousRank !== undefined && market.currentRank !== undefined) {
+        message += `🏆 *Rank:* #${market.previousRank} → #${market.currentRank}\n`;
+      }
+    }
+
+    if (alert.details.governance) {
+      const gov = alert.details.governance;
+      const parameter = this.escapeMarkdown(gov.parameterName);
+      if (gov.oldValue !== undefined && gov.newValue !== undefined) {
+        message += `\n⚙️ *${parameter}:* ${this.escapeMarkdown(gov.oldValue)} → ${this.escapeMarkdown(gov.newValue)}\n`;
+      } else if (gov.newValue !== undefined) {
+        message += `\n⚙️ *${parameter}:* ${this.escapeMarkdown(gov.newValue)}\n`;
+      } else if (gov.oldValue !== undefined) {
+        message += `\n⚙️ *${parameter}:* ${this.escapeMarkdown(gov.oldValue)} (removed)\n`;
+      }
+      if (gov.effectiveDate) {
+        const label = gov.proposalStatus === 'EXECUTED' ? 'Executed' : 'Voting ends';
+        message += `📅 *${label}:* ${gov.effectiveDate.toISOString().slice(0, 16).replace('T', ' ')} UTC\n`;
+      }
+      if (gov.affectedChains && gov.affectedChains.length > 0) {
+        message += `⛓ *Chains:* ${this.escapeMarkdown(gov.affectedChains.join(', '))}\n`;
+      }
+      if (gov.txHash) {
+        message += `🧾 *Tx:* \`${gov.txHash}\`\n`;
+      }
+    }
+
     if (alert.details.security) {
       const sec = alert.details.security;
       message += `\n⚠️ *Severity:* ${sec.severityLevel}\n`;
+      if (sec.auditFirm) {
+        message += `🔍 *Auditor:* ${this.escapeMarkdown(sec.auditFirm)}\n`;
+      }
       if (sec.estimatedLoss) {
         message += `💰 *Est. Loss:* $${this.formatNumber(sec.estimatedLoss)}\n`;
       }
+      if (sec.affectedChains && sec.affectedChains.length > 0) {
+        message += `⛓ *Chains:* ${this.escapeMarkdown(sec.affectedChains.join(', '))}\n`;
+      }
+      if (sec.txHash) {
+        message += `🧾 *Tx:* \`${sec.txHash}\`\n`;
+      }
+    }
+
+    if (alert.details.narrative?.sectorName) {
+      const sectorName = this.escapeMarkdown(alert.details.narrative.sectorName);
+      const { previousSectorName } = alert.details.narrative;
+      message += previousSectorName
+        ? `\n🧭 *Sector:* ${this.escapeMarkdown(previousSectorName)} → ${sectorName}\n`
+        : `\n🧭 *Sector:* ${sectorName}\n`;
+    }
+    if (alert.details.narrative?.chains && alert.details.narrative.chains.length > 0) {
+      message += `⛓ *Chains:* ${this.escapeMarkdown(alert.details.narrative.chains.join(', '))}\n`;
     }
 
     if (alert.details.sourceUrl) {
@@ -166,7 +315,7 @@ export class TelegramBot {
 
     // Add tags
     if (alert.metadata.tags.length > 0) {
-      message += `\n\n${alert.metadata.tags.map((t) => `#${t}`).join(' ')}`;
+      message += `\n\n${alert.metadata.tags.map((t) => `#${this.escapeMarkdown(t)}`).join(' ')}`;
     }
 
     return message;
@@ -190,6 +339,11 @@ export class TelegramBot {
     return '';
   }
 
+  // Escape the characters legacy Markdown would read as formatting
+  private escapeMarkdown(text: string | number): string {
+    return String(text).replace(/([_*`[])/g, '\\$1');
+  }
+
   private formatNumber(num: number): string {
     if (num >= 1e9) return `${(num / 1e9).toFixed(2)}B`;
     if (num >= 1e6) return `${(num / 1e6).toFixed(2)}M`;
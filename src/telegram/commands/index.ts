@@ -3,7 +3,15 @@ import { createLogger } from '../../utils/logger.js';
 import { getConfig } from '../../config/index.js';
 import { settingsRepository } from '../../storage/repositories/SettingsRepository.js';
 import { alertRepository } from '../../storage/repositories/AlertRepository.js';
-import { getCollectorManager } from '../../collectors/CollectorManager.js';
+import {
+  getCollectorManager,
+  COLLECTOR_ACTIONS,
+  type CollectorAction,
+} from '../../collectors/CollectorManager.js';
+import { TwitterCollector } from '../../collectors/twitter/TwitterCollector.js';
+import { planStreamRules } from '../../collectors/twitter/queries.js';
+import { tvlBackfill } from '../../collectors/defillama/TvlBackfill.js';
+import { protocolRepository } from '../../storage/repositories/ProtocolRepository.js';
 import { AlertCategory } from '../../core/types/alerts.js';
 
 const logger = createLogger('TelegramCommands');
@@ -182,11 +190,18 @@ export function registerCommands(bot: Telegraf): void {
       message += `Total errors: ${summary.errors}\n\n`;
 
       for (const collector of summary.collectors) {
-        const status = collector.isRunning ? '✅' : '❌';
+        const status = collector.isRunning ? '✅' : collector.failedAt ? '💥' : '❌';
         message += `${status} ${collector.name}`;
         if (collector.lastCollectionAt) {
           const ago = Math.round((Date.now() - collector.lastCollectionAt.getTime()) / 1000);
-          message += ` (${ago}s ago)`;
+          message += ` (${ago}s ago`;
+          if (collector.lastRunDurationMs !== undefined) {
+            message += `, took ${(collector.lastRunDurationMs / 1000).toFixed(1)}s`;
+          }
+          message += `)`;
+        }
+        if (collector.skippedRuns > 0) {
+          message += ` ⏭ ${collector.skippedRuns} skipped`;
         }
         message += '\n';
       }
@@ -240,6 +255,142 @@ export function registerCommands(bot: Telegraf): void {
     logger.info(`Chat ${chatId} set threshold ${key} = ${value}`);
   });
 
+  // /rules command (admin only) - Twitter stream rule budget
+  bot.command('rules', (ctx) => {
+    const config = getConfig();
+    const chatId = ctx.chat.id.toString();
+
+    if (!config.telegram.adminChatIds.includes(chatId)) {
+      ctx.reply('This command is only available to admins.');
+      return;
+    }
+
+    // Prefer what was actually synced; otherwise show what would be
+    const collector = getCollectorManager().getCollector('twitter');
+    const sync = collector instanceof TwitterCollector ? collector.getRuleSyncStatus() : null;
+    const { maxStreamRules, maxRuleLength } = config.collectors.twitter;
+    const plan = sync?.plan ?? planStreamRules(maxStreamRules, maxRuleLength);
+
+    let message = `*Twitter Stream Rules*\n\n`;
+    message += `Rules: ${plan.rules.length}/${plan.maxRules}\n`;
+
+    if (sync) {
+      const time = sync.syncedAt.toLocaleTimeString();
+      message += `Last sync: ${time} (+${sync.added} / -${sync.deleted} / ${sync.unchanged} unchanged)\n`;
+    } else {
+      message += `_Not synced - stream is not running_\n`;
+    }
+
+    message += `\n`;
+    for (const rule of plan.rules) {
+      message += `• \`${rule.tag}\` ${rule.clauses.length} terms, ${rule.value.length}/${plan.maxRuleLength} chars\n`;
+    }
+
+    if (plan.dropped.length > 0) {
+      const droppedTerms = plan.dropped.reduce((sum, r) => sum + r.clauses.length, 0);
+      message += `\n⚠️ *Over rule budget* (${droppedTerms} terms not streamed):\n`;
+      message += plan.dropped.map((r) => `• \`${r.tag}\``).join('\n') + '\n';
+    }
+
+    if (plan.skipped.length > 0) {
+      message += `\n⚠️ *Too long for a rule:*\n`;
+      message += plan.skipped.map((t) => `• \`${t.substring(0, 40)}\``).join('\n') + '\n';
+    }
+
+    ctx.reply(message, { parse_mode: 'Markdown' });
+  });
+
+  // /collector command (admin only) - runtime collector control
+  bot.command('collector', async (ctx) => {
+    const config = getConfig();
+    const chatId = ctx.chat.id.toString();
+
+    if (!config.telegram.adminChatIds.includes(chatId)) {
+      ctx.reply('This command is only available to admins.');
+      return;
+    }
+
+    const collectorManager = getCollectorManager();
+    const args = ctx.message.text.split(' ').slice(1);
+    const name = args[0];
+    const action = args[1]?.toLowerCase() as CollectorAction | undefined;
+
+    if (!name || !action || !COLLECTOR_ACTIONS.includes(action)) {
+      let message = `*Usage:* /collector <name> <${COLLECTOR_ACTIONS.join('|')}>\n\n`;
+
+      for (const key of collectorManager.getCollectorNames()) {
+        const status = collectorManager.getCollector(key)!.getStatus();
+        const supervisor = collectorManager.getSupervisorStatus(key);
+        const emoji = status.isRunning ? '✅' : status.failedAt ? '💥' : '⏹';
+
+        message += `${emoji} \`${key}\``;
+        if (supervisor?.nextRestartAt) {
+          const inSeconds = Math.max(0, Math.round((supervisor.nextRestartAt.getTime() - Date.now()) / 1000));
+          message += ` - restart #${supervisor.attempts} in ${inSeconds}s`;
+        }
+        message += '\n';
+      }
+
+      ctx.reply(message, { parse_mode: 'Markdown' });
+      return;
+    }
+
+    try {
+      await collectorManager.runAction(name, action);
+
+      const status = collectorManager.getCollector(name)!.getStatus();
+      ctx.reply(`✅ ${action} \`${name}\` done - ${status.isRunning ? 'running' : 'stopped'}`, {
+        parse_mode: 'Markdown',
+      });
+      logger.info(`Chat ${chatId} ran ${action} on collector ${name}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      ctx.reply(`❌ ${action} ${name} failed: ${message}`);
+    }
+  });
+
+  // /backfill command (admin only) - fill TVL history from DeFiLlama
+  bot.command('backfill', (ctx) => {
+    const config = getConfig();
+    const chatId = ctx.chat.id.toString();
+
+    if (!config.telegram.adminChatIds.includes(chatId)) {
+      ctx.reply('This command is only available to admins.');
+      return;
+    }
+
+    const target = ctx.message.text.split(' ')[1];
+
+    if (!target) {
+      const status = tvlBackfill.getStatus();
+      let message = `*Usage:* /backfill <slug|all>\n\n`;
+      message += `Queued: ${status.queued}\n`;
+      if (status.current) {
+        message += `Backfilling: \`${status.current}\`\n`;
+      }
+      message += `Done: ${status.completed}, failed: ${status.failed}`;
+
+      ctx.reply(message, { parse_mode: 'Markdown' });
+      return;
+    }
+
+    let slugs: string[];
+    if (target.toLowerCase() === 'all') {
+      const minTvlUsd =
+        config.alerts.categories[AlertCategory.TVL_CHANGE].thresholds['minTvlUsd'] || 1000000;
+      slugs = protocolRepository.getSlugs(minTvlUsd);
+    } else if (protocolRepository.get(target)) {
+      slugs = [target];
+    } else {
+      ctx.reply(`❌ Unknown protocol: ${target}`);
+      return;
+    }
+
+    const added = tvlBackfill.enqueue(slugs);
+    ctx.reply(`✅ Queued ${added} protocols for TVL backfill (${tvlBackfill.getStatus().queued} waiting)`);
+    logger.info(`Chat ${chatId} queued TVL backfill for ${target}`);
+  });
+
   logger.info('Telegram commands registered');
 }
 
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // The config only validates with Telegram credentials set and a known
+    // environment (vitest would set NODE_ENV=test)
+    env: {
+      NODE_ENV: 'development',
+      TELEGRAM_BOT_TOKEN: 'test-token',
+      TELEGRAM_CHAT_ID: '1',
+    },
+    setupFiles: ['./vitest.setup.ts'],
+  },
+});
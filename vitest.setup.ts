@@ -0,0 +1,4 @@
+import { getConfig } from './src/config/index.js';
+
+// Each test file gets a fresh in-memory database instead of ./data
+getConfig().storage.databasePath = ':memory:';